@@ -0,0 +1,265 @@
+import {
+  AgentAction,
+  AgentStep,
+  AgentStopReason,
+  ChatMessage,
+  ExecutionRequest,
+  ExecutionResult,
+  FailedAttempt,
+  PolicyViolationError,
+} from '../types/index.js';
+import { TaskExecutor } from './TaskExecutor.js';
+import { WorkspaceTools } from './WorkspaceTools.js';
+import { ExecutionLogger } from './ExecutionLogger.js';
+import { StructuredOutputValidator } from './StructuredOutputValidator.js';
+
+export interface AgentLoopOptions {
+  maxSteps: number;
+  maxObservationChars: number;
+}
+
+/**
+ * JSON Schema of one agent turn, sent as the response format of every step
+ */
+export const AGENT_ACTION_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  required: ['thought', 'action', 'args'],
+  properties: {
+    thought: { type: 'string' },
+    action: { enum: ['read_file', 'list_dir', 'grep', 'write_file', 'run_command', 'submit'] },
+    args: { type: 'object' },
+  },
+};
+
+/**
+ * Number of most recent observations kept in full; older ones are shortened
+ * so long runs stay within the model's context window
+ */
+const FULL_OBSERVATIONS_KEPT = 3;
+const SHORTENED_OBSERVATION_CHARS = 500;
+
+/**
+ * Multi-step tool-use loop: the model emits one JSON action per turn, the action
+ * runs in the workspace and its observation is sent back, until the model submits
+ * or the step limit is reached.
+ */
+export class AgentLoop {
+  private actionValidator = new StructuredOutputValidator(AGENT_ACTION_SCHEMA);
+
+  constructor(
+    private executor: TaskExecutor,
+    private tools: WorkspaceTools,
+    private logger: ExecutionLogger,
+    private options: AgentLoopOptions
+  ) {}
+
+  /**
+   * Run the loop. Falls back to the next model only if the first step cannot be
+   * executed at all; returns the attempt errors when every model failed.
+   */
+  async run(
+    request: ExecutionRequest,
+    fallbackModels: string[]
+  ): Promise<ExecutionResult | FailedAttempt[]> {
+    const startTime = Date.now();
+    const candidates = [request.modelName, ...fallbackModels];
+    const errors: FailedAttempt[] = [];
+    const steps: AgentStep[] = [];
+    const history: ChatMessage[] = [];
+
+    let model = candidates.shift()!;
+    let message = request.task.description;
+    let answer = '';
+    let confidence = 0;
+    let stopReason: AgentStopReason = 'max_steps';
+    let tokensUsed = 0;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let progressText = '';
+
+    console.error(`[AgentLoop.run] Starting agent loop with model ${model}, max ${this.options.maxSteps} steps, workspace ${this.tools.getRoot()}`);
+
+    while (steps.length < this.options.maxSteps) {
+      const stepNumber = steps.length + 1;
+      const response = await this.executor.executeWithRetry({
+        ...request,
+        modelName: model,
+        history: [...history],
+        message,
+        format: AGENT_ACTION_SCHEMA,
+        onProgress: undefined,
+      });
+
+      tokensUsed += response.tokensUsed;
+      promptTokens += response.promptTokens;
+      completionTokens += response.completionTokens;
+
+      if (!response.success) {
+        const error = response.metadata?.error || 'Execution failed';
+        errors.push({
+          modelAttempted: model,
+          error,
+          timestamp: Date.now(),
+          errorClass: response.metadata?.errorClass,
+          status: response.metadata?.status,
+          retries: response.metadata?.retries,
+        });
+
+        if (steps.length === 0 && candidates.length > 0 && this.executor.allowsFallback(request, response)) {
+          console.error(`[AgentLoop.run] Model ${model} failed on the first step, falling back to ${candidates[0]}`);
+          model = candidates.shift()!;
+          continue;
+        }
+        if (steps.length === 0) {
+          return errors;
+        }
+
+        this.logger.error('Agent step failed', { step: stepNumber, model, error });
+        stopReason = 'error';
+        answer = `Agent stopped at step ${stepNumber}: ${error}`;
+        break;
+      }
+
+      history.push({ role: 'user', content: message }, { role: 'assistant', content: response.response });
+      this.shortenOldObservations(history);
+
+      const parsed = this.actionValidator.validate(response.response);
+      if (!parsed.valid) {
+        const observation = `Invalid action. ${parsed.errors.join('; ')}\n` +
+          'Respond with exactly one JSON object: {"thought": "...", "action": "<tool>", "args": {...}}.';
+        steps.push(this.createStep(stepNumber, model, null, observation, false, 0, response.tokensUsed));
+        this.logger.warn('Agent step produced an invalid action', { step: stepNumber, errors: parsed.errors });
+        message = observation;
+        continue;
+      }
+
+      const action = parsed.data as AgentAction;
+
+      if (action.action === 'submit') {
+        answer = typeof action.args.answer === 'string' ? action.args.answer : JSON.stringify(action.args.answer ?? '');
+        confidence = response.confidence;
+        stopReason = 'submitted';
+        steps.push(this.createStep(stepNumber, model, action, 'Submitted', true, 0, response.tokensUsed));
+        this.logger.info('Agent submitted', { step: stepNumber });
+        break;
+      }
+
+      const actionStart = Date.now();
+      let observation: string;
+      let success = true;
+      try {
+        observation = await this.tools.execute(action.action, action.args || {});
+      } catch (error: any) {
+        // Denials and tool errors go back to the model instead of failing the task
+        observation = error instanceof PolicyViolationError ? `Denied: ${error.message}` : `Error: ${error.message}`;
+        success = false;
+      }
+      observation = this.truncate(observation, this.options.maxObservationChars);
+
+      const step = this.createStep(stepNumber, model, action, observation, success, Date.now() - actionStart, response.tokensUsed);
+      steps.push(step);
+      this.logger.info('Agent step', {
+        step: stepNumber,
+        action: action.action,
+        args: this.summarizeArgs(action.args),
+        success,
+      });
+
+      // Report each step as a progress line rather than streaming raw JSON actions
+      if (request.onProgress) {
+        const delta = `[step ${stepNumber}] ${action.action} ${this.summarizeArgs(action.args)}${success ? '' : ' (failed)'}\n`;
+        progressText += delta;
+        request.onProgress({ delta, content: progressText, tokens: completionTokens });
+      }
+
+      message = `OBSERVATION:\n${observation}`;
+    }
+
+    if (stopReason === 'max_steps') {
+      const lastThought = steps[steps.length - 1]?.thought;
+      answer = `Agent reached the step limit (${this.options.maxSteps}) without submitting.` +
+        (lastThought ? ` Last thought: ${lastThought}` : '');
+      this.logger.warn('Agent reached step limit', { maxSteps: this.options.maxSteps });
+    }
+
+    return {
+      success: stopReason === 'submitted',
+      modelUsed: model,
+      response: answer,
+      executionTime: Date.now() - startTime,
+      tokensUsed,
+      promptTokens,
+      completionTokens,
+      confidence,
+      metadata: {
+        taskType: request.task.taskType,
+        domain: request.task.domain,
+        complexity: request.task.complexity,
+        ...(errors.length > 0 ? { failedAttempts: errors } : {}),
+        ...(stopReason === 'submitted' ? {} : { error: answer }),
+        agent: {
+          workspace: this.tools.getRoot(),
+          stopReason,
+          steps,
+        },
+      },
+    };
+  }
+
+  /**
+   * Create a step record
+   */
+  private createStep(
+    step: number,
+    model: string,
+    action: AgentAction | null,
+    observation: string,
+    success: boolean,
+    duration: number,
+    tokensUsed: number
+  ): AgentStep {
+    return {
+      step,
+      model,
+      thought: action?.thought || '',
+      action: action?.action || 'invalid',
+      args: action?.args || {},
+      observation,
+      success,
+      duration,
+      tokensUsed,
+    };
+  }
+
+  /**
+   * Shorten the observation that just dropped out of the most recent few
+   */
+  private shortenOldObservations(history: ChatMessage[]): void {
+    const observations = history.filter(msg => msg.role === 'user' && msg.content.startsWith('OBSERVATION:'));
+    const expired = observations[observations.length - FULL_OBSERVATIONS_KEPT - 1];
+    if (expired) {
+      expired.content = this.truncate(expired.content, SHORTENED_OBSERVATION_CHARS);
+    }
+  }
+
+  /**
+   * Truncate text, noting how much was cut
+   */
+  private truncate(text: string, maxChars: number): string {
+    if (text.length <= maxChars) {
+      return text;
+    }
+    return `${text.substring(0, maxChars)}\n... [${text.length - maxChars} more characters truncated]`;
+  }
+
+  /**
+   * One-line summary of action arguments for logs and progress (file contents omitted)
+   */
+  private summarizeArgs(args: Record<string, any> = {}): string {
+    const summary = Object.entries(args)
+      .filter(([key]) => key !== 'content')
+      .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+      .join(' ');
+    return summary.length > 120 ? `${summary.substring(0, 120)}...` : summary;
+  }
+}
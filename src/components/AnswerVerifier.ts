@@ -0,0 +1,173 @@
+import {
+  BuiltInTaskType,
+  ExecutionRequest,
+  ExecutionResult,
+  VerificationAttempt,
+  VerificationCriterion,
+} from '../types/index.js';
+import { TaskExecutor } from './TaskExecutor.js';
+import { StructuredOutputValidator } from './StructuredOutputValidator.js';
+import { TokenEstimator } from './TokenEstimator.js';
+
+export interface VerifyOptions {
+  verifierModel: string;
+  rubric: string[];
+  context?: string; // task context shown to the verifier
+  tokenBudget: number; // verifier message budget, shared by the context and the answer
+}
+
+/**
+ * Grading criteria of the built-in task types; config-defined types may set their own
+ */
+export const DEFAULT_RUBRICS: Record<BuiltInTaskType, string[]> = {
+  code_generation: [
+    'Correctness: the code does what the task asks',
+    'Completeness: every requirement is covered',
+    'Robustness: errors and edge cases are handled',
+    'Quality: idiomatic, readable code',
+  ],
+  bug_fixing: [
+    'Root cause: the actual cause of the bug is identified',
+    'Fix: the change resolves the bug without side effects',
+    'Explanation: it is clear why the fix works',
+    'Regression: tests or checks prevent the bug from returning',
+  ],
+  code_review: [
+    'Accuracy: reported problems are real',
+    'Coverage: important problems are not missed',
+    'Actionability: findings come with concrete fixes',
+    'Prioritization: severity is clear',
+  ],
+  test_writing: [
+    'Coverage: happy paths, edge cases and error conditions',
+    'Correctness: assertions match the intended behaviour',
+    'Runnability: tests compile and use the project test framework',
+    'Clarity: well-named, independent tests',
+  ],
+  documentation: [
+    'Accuracy: the documentation matches the code',
+    'Completeness: setup, usage and caveats are covered',
+    'Clarity: well structured for its audience',
+    'Examples: practical and correct examples',
+  ],
+  architecture_analysis: [
+    'Understanding: the current design is described correctly',
+    'Trade-offs: alternatives are weighed with their costs',
+    'Recommendations: concrete, prioritized improvements',
+    'Risks: scalability, security and operational risks are considered',
+  ],
+  general: [
+    'Correctness: the answer is accurate',
+    'Relevance: the answer addresses the task',
+    'Completeness: nothing important is missing',
+    'Clarity: the answer is easy to follow',
+  ],
+};
+
+/**
+ * JSON Schema of a verification, sent as the response format
+ */
+const VERIFICATION_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  required: ['criteria', 'score', 'rationale'],
+  properties: {
+    criteria: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['criterion', 'score', 'comment'],
+        properties: {
+          criterion: { type: 'string' },
+          score: { type: 'number', minimum: 0, maximum: 1 },
+          comment: { type: 'string' },
+        },
+      },
+    },
+    score: { type: 'number', minimum: 0, maximum: 1 },
+    rationale: { type: 'string' },
+  },
+};
+
+const VERIFIER_PROMPT = `You grade an answer to a software engineering task. Check it critically against the task and the rubric; do not reward length or confident wording. Reply with one JSON object and nothing else:
+{"criteria": [{"criterion": ..., "score": 0-1, "comment": ...}], "score": 0-1, "rationale": ...}
+
+- criteria: one entry per rubric criterion, with a short comment naming concrete problems
+- score: how likely the answer is correct and complete enough to use as is (0.5 = unsure)
+- rationale: one or two sentences justifying the score`;
+
+/**
+ * Grades answers with a model (LLM-as-judge) on a per-task-type rubric
+ */
+export class AnswerVerifier {
+  private validator = new StructuredOutputValidator(VERIFICATION_SCHEMA);
+  private tokenEstimator = new TokenEstimator();
+
+  constructor(private executor: TaskExecutor) {}
+
+  /**
+   * Grade an answer. A failed verifier call or an invalid grade is returned as
+   * an attempt without a score.
+   */
+  async verify(request: ExecutionRequest, answer: ExecutionResult, options: VerifyOptions): Promise<VerificationAttempt> {
+    const result = await this.executor.executeTask({
+      ...request,
+      modelName: options.verifierModel,
+      systemPrompt: VERIFIER_PROMPT,
+      message: this.buildMessage(request.task.description, answer.response, options),
+      temperature: 0.1,
+      format: VERIFICATION_SCHEMA,
+      history: undefined,
+      onProgress: undefined,
+      statsTaskType: 'verification',
+    });
+
+    const attempt: VerificationAttempt = {
+      model: answer.modelUsed,
+      tokensUsed: answer.tokensUsed,
+      verifierModel: options.verifierModel,
+      verifierTokensUsed: result.tokensUsed,
+      rationale: '',
+      criteria: [],
+      chosen: false,
+    };
+
+    if (!result.success) {
+      return { ...attempt, error: `Verifier ${options.verifierModel} failed: ${result.metadata?.error || 'Execution failed'}` };
+    }
+
+    const validation = this.validator.validate(result.response);
+    if (!validation.valid) {
+      return { ...attempt, error: `Invalid verification from ${options.verifierModel}: ${validation.errors.join('; ')}` };
+    }
+
+    const grade = validation.data as { criteria: VerificationCriterion[]; score: number; rationale: string };
+    console.error(`[AnswerVerifier.verify] ${options.verifierModel} scored ${answer.modelUsed}'s answer ${grade.score}`);
+    return { ...attempt, score: grade.score, rationale: grade.rationale, criteria: grade.criteria };
+  }
+
+  /**
+   * Verifier message: the task, its context, the rubric and the answer, fitted to the token budget
+   */
+  private buildMessage(description: string, answer: string, options: VerifyOptions): string {
+    const context = options.context
+      ? this.truncateToTokens(options.context, Math.floor(options.tokenBudget / 2))
+      : '';
+    const answerBudget = options.tokenBudget - this.tokenEstimator.estimate(context);
+
+    return `TASK:\n${description}\n\n` +
+      (context ? `CONTEXT:\n${context}\n\n` : '') +
+      `RUBRIC:\n${options.rubric.map(criterion => `- ${criterion}`).join('\n')}\n\n` +
+      `ANSWER:\n${this.truncateToTokens(answer.trim(), answerBudget)}`;
+  }
+
+  /**
+   * Cut text to roughly a number of tokens
+   */
+  private truncateToTokens(text: string, maxTokens: number): string {
+    const tokens = this.tokenEstimator.estimate(text);
+    if (tokens <= maxTokens) {
+      return text;
+    }
+    return `${text.substring(0, Math.floor(text.length * Math.max(0, maxTokens) / tokens))}\n... [truncated]`;
+  }
+}
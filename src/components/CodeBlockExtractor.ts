@@ -0,0 +1,107 @@
+import * as path from 'path';
+import { CodeArtifact, CodeLanguage } from '../types/index.js';
+
+/**
+ * Fence tags and file extensions of the checked languages
+ */
+const LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+  ts: 'typescript',
+  typescript: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  javascript: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  node: 'javascript',
+  json: 'json',
+  py: 'python',
+  python: 'python',
+  python3: 'python',
+};
+
+const FENCE_OPEN = /^\s*(`{3,}|~{3,})\s*(.*)$/;
+// `// file: src/a.ts`, `# app.py` and the like on the first code line
+const FILENAME_COMMENT = /^\s*(?:\/\/|#|--|\/\*|<!--)\s*(?:file(?:name)?:\s*)?([\w@.\-/\\]+\.\w+)\s*(?:\*\/|-->)?\s*$/i;
+
+/**
+ * Parses fenced markdown code blocks into code artifacts
+ */
+export class CodeBlockExtractor {
+  /**
+   * Extract the fenced code blocks of a response. An unclosed block runs to the
+   * end of the response, as in truncated answers.
+   */
+  extract(markdown: string): CodeArtifact[] {
+    const lines = markdown.split('\n');
+    const artifacts: CodeArtifact[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const open = lines[i].match(FENCE_OPEN);
+      if (!open || (open[1][0] === '`' && open[2].includes('`'))) {
+        continue;
+      }
+
+      const fence = open[1];
+      const closing = new RegExp(`^\\s*${fence[0] === '`' ? '`' : '~'}{${fence.length},}\\s*$`);
+      let end = i + 1;
+      while (end < lines.length && !closing.test(lines[end])) {
+        end++;
+      }
+
+      const code = lines.slice(i + 1, end).join('\n');
+      const info = this.parseInfo(open[2].trim());
+      const filename = info.filename || code.split('\n', 1)[0].match(FILENAME_COMMENT)?.[1];
+      artifacts.push({
+        index: artifacts.length + 1,
+        language: info.language || (filename ? this.languageOf(filename) : undefined),
+        filename,
+        code,
+        startLine: i + 2,
+        endLine: end,
+      });
+      i = end;
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Read the language and filename from a fence info string: `ts`, `ts src/a.ts`,
+   * `ts:src/a.ts`, `ts title="src/a.ts"` or a bare `src/a.ts`
+   */
+  private parseInfo(info: string): { language?: string; filename?: string } {
+    if (!info) {
+      return {};
+    }
+
+    const attribute = info.match(/\b(?:title|file(?:name)?)=["']?([^"'\s]+)["']?/);
+    const [tag, ...rest] = info.replace(/\{[^}]*\}/g, '').split(/\s+/);
+    const [language, inlineName] = tag.includes(':') ? tag.split(':', 2) : [tag, undefined];
+    const filename = attribute?.[1] || inlineName || rest.find(token => this.isFilename(token)) ||
+      (this.isFilename(language) ? language : undefined);
+
+    if (filename && language === filename) {
+      return { language: this.languageOf(filename), filename };
+    }
+    return { language: this.normalizeLanguage(language), filename };
+  }
+
+  private isFilename(token: string): boolean {
+    return /^[\w@.\-/\\]+\.\w+$/.test(token) && !token.startsWith('.');
+  }
+
+  /**
+   * Language of a file, by extension; undefined for unchecked languages
+   */
+  private languageOf(filename: string): CodeLanguage | undefined {
+    return LANGUAGE_ALIASES[path.extname(filename).slice(1).toLowerCase()];
+  }
+
+  private normalizeLanguage(tag: string): string | undefined {
+    const lower = tag.toLowerCase();
+    return lower ? LANGUAGE_ALIASES[lower] || lower : undefined;
+  }
+}
@@ -0,0 +1,445 @@
+import * as path from 'path';
+import { PolicyDecision, SandboxConfig } from '../types/index.js';
+import { ExecutionLogger } from './ExecutionLogger.js';
+
+/**
+ * Executables refused when the configuration doesn't provide its own deny list
+ */
+const DEFAULT_DENY = [
+  'sudo', 'su', 'doas', 'rm', 'rmdir', 'dd', 'mkfs', 'shred', 'shutdown', 'reboot', 'halt',
+  'chmod', 'chown', 'kill', 'pkill', 'killall', 'curl', 'wget', 'ssh', 'scp', 'rsync', 'nc', 'ncat',
+];
+
+/**
+ * Executables permitted when the configuration doesn't provide its own allow list:
+ * inspection tools, version control and the usual build and test runners. Package
+ * runners that download and run arbitrary packages (npx, bunx) are left out.
+ */
+const DEFAULT_ALLOW = [
+  'ls', 'cat', 'head', 'tail', 'wc', 'grep', 'rg', 'find', 'diff', 'pwd', 'echo', 'true', 'mkdir', 'touch', 'cp', 'mv',
+  'env', 'timeout', 'git', 'node', 'npm', 'bun', 'tsc', 'python', 'python3', 'pytest', 'go', 'cargo',
+];
+
+/**
+ * Options of interpreters that run code given on the command line, which cannot be checked
+ */
+const INLINE_CODE_OPTIONS: Record<string, string[]> = {
+  node: ['-e', '--eval', '-p', '--print'],
+  bun: ['-e', '--eval', '-p', '--print'],
+  deno: ['eval'],
+  python: ['-c'],
+  python3: ['-c'],
+  perl: ['-e', '-E'],
+  ruby: ['-e'],
+  php: ['-r'],
+};
+
+/**
+ * Environment variables passed to commands when the configuration doesn't list its own
+ */
+const DEFAULT_ENV_PASSTHROUGH = ['PATH', 'HOME', 'USER', 'LANG', 'LC_ALL', 'TERM', 'TMPDIR', 'SHELL'];
+
+const DEFAULT_MAX_OUTPUT_CHARS = 8000;
+
+/**
+ * Commands that run the command given in their arguments
+ */
+const WRAPPERS = new Set(['env', 'nohup', 'timeout', 'time', 'nice', 'xargs', 'command', 'exec', 'stdbuf']);
+
+/**
+ * Shells whose `-c` script is checked recursively
+ */
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+
+/**
+ * Actions of find that delete files or execute another command
+ */
+const FIND_DENIED_ACTIONS = new Set(['-delete', '-exec', '-execdir', '-ok', '-okdir']);
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+interface CommandSegment {
+  words: string[];
+  redirects: string[];
+  unresolved: string[]; // variable expansions whose value is unknown
+}
+
+/**
+ * Sandbox policy for agent actions: decides whether a shell command may run
+ * (executable allow/deny lists, paths confined to the workspace, no command
+ * substitution, inline interpreter code or variables set outside the command),
+ * with which timeout and environment, and whether mutating
+ * actions are only simulated (dry-run). Every decision is logged.
+ */
+export class CommandPolicy {
+  private allow: Set<string>;
+  private deny: Set<string>;
+
+  constructor(
+    private config: SandboxConfig,
+    private defaultTimeout: number,
+    private logger: ExecutionLogger
+  ) {
+    this.allow = new Set(config.allow ?? DEFAULT_ALLOW);
+    this.deny = new Set(config.deny ?? DEFAULT_DENY);
+  }
+
+  /**
+   * Whether mutating actions are simulated instead of performed
+   */
+  isDryRun(): boolean {
+    return !!this.config.dryRun;
+  }
+
+  /**
+   * Maximum number of output characters kept from a command
+   */
+  getMaxOutputChars(): number {
+    return this.config.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
+  }
+
+  /**
+   * Decide whether a command may run in the workspace root
+   */
+  evaluate(command: string, workspaceRoot: string): PolicyDecision {
+    const executables: string[] = [];
+    let reason: string | undefined;
+
+    try {
+      reason = this.check(command, workspaceRoot, executables);
+    } catch (error: any) {
+      reason = error.message;
+    }
+
+    const decision: PolicyDecision = {
+      allowed: !reason,
+      reason,
+      executables,
+      timeout: this.getTimeout(executables),
+      dryRun: this.isDryRun(),
+    };
+
+    if (decision.allowed) {
+      this.logger.info('Sandbox allowed command', { command, executables, timeout: decision.timeout, dryRun: decision.dryRun });
+    } else {
+      this.logger.warn('Sandbox denied command', { command, reason });
+    }
+
+    return decision;
+  }
+
+  /**
+   * Record a decision about a non-command action (file writes)
+   */
+  logAction(action: string, target: string, allowed: boolean, reason?: string): void {
+    if (allowed) {
+      this.logger.info('Sandbox allowed action', { action, target, dryRun: this.isDryRun() });
+    } else {
+      this.logger.warn('Sandbox denied action', { action, target, reason });
+    }
+  }
+
+  /**
+   * Build the environment for a command: only passthrough variables survive
+   */
+  buildEnv(): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = {};
+    for (const name of this.config.envPassthrough ?? DEFAULT_ENV_PASSTHROUGH) {
+      if (process.env[name] !== undefined) {
+        env[name] = process.env[name];
+      }
+    }
+    return env;
+  }
+
+  /**
+   * Check a command, collecting its executables; returns the denial reason if any
+   */
+  private check(command: string, workspaceRoot: string, executables: string[]): string | undefined {
+    for (const segment of this.parse(command)) {
+      if (segment.unresolved.length > 0) {
+        return `variable ${segment.unresolved[0]} is not set by the command and may point outside the workspace`;
+      }
+      for (const target of segment.redirects) {
+        const pathReason = this.checkPath(target, workspaceRoot);
+        if (pathReason) return pathReason;
+      }
+
+      const reason = this.checkWords(segment.words, workspaceRoot, executables);
+      if (reason) return reason;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check one simple command: its executable (following wrappers and `sh -c`) and path arguments
+   */
+  private checkWords(words: string[], workspaceRoot: string, executables: string[]): string | undefined {
+    let index = 0;
+    // Leading VAR=value assignments: their values may be paths too
+    while (index < words.length && ASSIGNMENT.test(words[index])) {
+      const pathReason = this.checkPath(words[index], workspaceRoot);
+      if (pathReason) return pathReason;
+      index++;
+    }
+    if (index >= words.length) {
+      return undefined;
+    }
+
+    const executable = path.basename(words[index]);
+    const args = words.slice(index + 1);
+    executables.push(executable);
+
+    if (this.deny.has(executable)) {
+      return `executable "${executable}" is on the deny list`;
+    }
+    if (this.allow.size > 0 && !this.allow.has(executable)) {
+      return `executable "${executable}" is not on the allow list`;
+    }
+    const inlineOption = this.findInlineCodeOption(executable, args);
+    if (inlineOption) {
+      return `inline code (${executable} ${inlineOption}) cannot be checked`;
+    }
+    if (words[index].includes('/')) {
+      const pathReason = this.checkPath(words[index], workspaceRoot);
+      if (pathReason) return pathReason;
+    }
+
+    for (const arg of args) {
+      const pathReason = this.checkPath(arg, workspaceRoot);
+      if (pathReason) return pathReason;
+    }
+
+    // Commands that run other commands are checked recursively
+    if (executable === 'eval') {
+      return this.check(args.join(' '), workspaceRoot, executables);
+    }
+    if (SHELLS.has(executable)) {
+      const scriptIndex = args.indexOf('-c');
+      if (scriptIndex !== -1 && args[scriptIndex + 1]) {
+        return this.check(args[scriptIndex + 1], workspaceRoot, executables);
+      }
+    }
+    if (WRAPPERS.has(executable)) {
+      const rest = this.skipWrapperOptions(args);
+      return rest.length > 0 ? this.checkWords(rest, workspaceRoot, executables) : undefined;
+    }
+    if (executable === 'find') {
+      const action = args.find(arg => FIND_DENIED_ACTIONS.has(arg));
+      if (action) {
+        return `find ${action} is not allowed`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The option of an interpreter's arguments that runs inline code, if any. Short
+   * options may be combined (-Bc); arguments after `--` are not options.
+   */
+  private findInlineCodeOption(executable: string, args: string[]): string | undefined {
+    // python3.12, perl5.36 and the like
+    const options = INLINE_CODE_OPTIONS[executable] ?? INLINE_CODE_OPTIONS[executable.replace(/[\d.]+$/, '')];
+    if (!options) {
+      return undefined;
+    }
+
+    for (const arg of args) {
+      const match = options.find(option =>
+        arg === option ||
+        (option.startsWith('--') && arg.startsWith(`${option}=`)) ||
+        (/^-[A-Za-z]$/.test(option) && /^-[A-Za-z]+$/.test(arg) && arg.includes(option[1]))
+      );
+      if (match) {
+        return match;
+      }
+      if (arg === '--') {
+        break;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Skip the options and numeric arguments of a wrapper (e.g. `timeout -s KILL 10 cmd`)
+   */
+  private skipWrapperOptions(args: string[]): string[] {
+    let index = 0;
+    while (index < args.length && (args[index].startsWith('-') || /^\d+[smhd]?$/.test(args[index]) || ASSIGNMENT.test(args[index]))) {
+      index++;
+    }
+    return args.slice(index);
+  }
+
+  /**
+   * Deny path-like arguments that point outside the workspace
+   */
+  private checkPath(arg: string, workspaceRoot: string): string | undefined {
+    // Only consider arguments that look like paths; values of options (--out=/x) and
+    // assignments (DEST=/x) are split off
+    const value = (arg.startsWith('-') && arg.includes('=')) || ASSIGNMENT.test(arg)
+      ? arg.slice(arg.indexOf('=') + 1)
+      : arg;
+    const looksLikePath = value.startsWith('/') || value.startsWith('~') || value === '..' ||
+      value.startsWith('../') || value.includes('/../') || value.endsWith('/..');
+    if (!looksLikePath) {
+      return undefined;
+    }
+
+    if (value.startsWith('~')) {
+      return `path "${value}" is outside the workspace`;
+    }
+
+    const resolved = path.resolve(workspaceRoot, value);
+    const relative = path.relative(path.resolve(workspaceRoot), resolved);
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      return `path "${value}" is outside the workspace`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Timeout for a command: the longest configured timeout of its executables, or the default
+   */
+  private getTimeout(executables: string[]): number {
+    const timeouts = executables
+      .map(executable => this.config.timeouts?.[executable])
+      .filter((timeout): timeout is number => timeout !== undefined);
+    return timeouts.length > 0 ? Math.max(...timeouts) : this.defaultTimeout;
+  }
+
+  /**
+   * Split a command line into simple commands on |, ||, &&, ;, & and newlines,
+   * honouring quotes and escapes. Command and process substitution are rejected
+   * because their contents cannot be checked reliably. Variables assigned by an
+   * earlier command of the line ($X after X=src;) are expanded; any other
+   * expansion is recorded as unresolved.
+   */
+  private parse(command: string): CommandSegment[] {
+    const segments: CommandSegment[] = [];
+    const variables = new Map<string, string>();
+    let segment: CommandSegment = { words: [], redirects: [], unresolved: [] };
+    let word = '';
+    let inWord = false;
+    let quote: '"' | "'" | null = null;
+    let redirectPending = false;
+
+    const endWord = () => {
+      if (inWord) {
+        if (redirectPending) {
+          segment.redirects.push(word);
+          redirectPending = false;
+        } else {
+          segment.words.push(word);
+        }
+      }
+      word = '';
+      inWord = false;
+    };
+    const endSegment = () => {
+      endWord();
+      if (segment.words.length > 0 || segment.redirects.length > 0) {
+        segments.push(segment);
+      }
+      // Only a command of nothing but assignments sets shell variables; prefixed
+      // assignments (X=a cmd $X) don't change what the command's own words expand to
+      if (segment.words.length > 0 && segment.redirects.length === 0 && segment.words.every(w => ASSIGNMENT.test(w))) {
+        for (const assignment of segment.words) {
+          const separator = assignment.indexOf('=');
+          variables.set(assignment.slice(0, separator), assignment.slice(separator + 1));
+        }
+      }
+      segment = { words: [], redirects: [], unresolved: [] };
+    };
+    // Expand $NAME or ${...} at the current position; returns the index of its last character
+    const expand = (i: number): number => {
+      const expression = command.slice(i).match(/^\$(\{[^}]*\}?|[A-Za-z_][A-Za-z0-9_]*)/)![0];
+      // Anything but a plain name (${X:-/etc}, an unterminated ${X) stays unresolved
+      const name = !expression.startsWith('${') ? expression.slice(1)
+        : expression.endsWith('}') ? expression.slice(2, -1) : '';
+      if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && variables.has(name)) {
+        word += variables.get(name);
+      } else {
+        segment.unresolved.push(expression);
+        word += expression;
+      }
+      inWord = true;
+      return i + expression.length - 1;
+    };
+    const isExpansion = (i: number) => command[i] === '$' && /[A-Za-z_{]/.test(command[i + 1] || '');
+
+    for (let i = 0; i < command.length; i++) {
+      const char = command[i];
+
+      if (quote === "'") {
+        if (char === "'") quote = null;
+        else word += char;
+        continue;
+      }
+
+      if (char === '`' || (char === '$' && command[i + 1] === '(')) {
+        throw new Error('command substitution is not allowed');
+      }
+
+      if (quote === '"') {
+        if (char === '"') quote = null;
+        else if (char === '\\' && i + 1 < command.length) word += command[++i];
+        else if (isExpansion(i)) i = expand(i);
+        else word += char;
+        continue;
+      }
+
+      if (isExpansion(i)) {
+        i = expand(i);
+      } else if (char === "'" || char === '"') {
+        quote = char;
+        inWord = true;
+      } else if (char === '\\' && i + 1 < command.length) {
+        word += command[++i];
+        inWord = true;
+      } else if (char === ' ' || char === '\t') {
+        endWord();
+      } else if (char === '\n' || char === ';' || char === '|' || char === '&') {
+        if (char === '&' && command[i + 1] === '>') {
+          // &> redirects both streams
+          endWord();
+          redirectPending = true;
+          i++;
+          if (command[i + 1] === '>') i++;
+          continue;
+        }
+        endSegment();
+        if ((char === '|' || char === '&') && command[i + 1] === char) i++;
+      } else if (char === '>' || char === '<') {
+        if (command[i + 1] === '(') {
+          throw new Error('process substitution is not allowed');
+        }
+        // A pure file descriptor number before the operator (2>) is not a word
+        if (inWord && /^\d+$/.test(word)) {
+          word = '';
+          inWord = false;
+        }
+        endWord();
+        if (command[i + 1] === char) i++;
+        if (command[i + 1] === '&') {
+          // Descriptor duplication (2>&1) has no path target
+          i++;
+          while (/\d|-/.test(command[i + 1] || '')) i++;
+          continue;
+        }
+        redirectPending = true;
+      } else {
+        word += char;
+        inWord = true;
+      }
+    }
+
+    if (quote) {
+      throw new Error('unterminated quote');
+    }
+    endSegment();
+
+    return segments;
+  }
+}
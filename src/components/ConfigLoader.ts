@@ -0,0 +1,545 @@
+import * as fs from 'fs/promises';
+import { parseDocument, Document, LineCounter, isNode } from 'yaml';
+import { z } from 'zod';
+import {
+  BuiltInTaskType,
+  ConfigurationError,
+  ModelProfileConfig,
+  TaskDomain,
+} from '../types/index.js';
+import { PromptTemplate } from './PromptTemplate.js';
+
+export interface ConfigDiagnostic {
+  path: string;
+  line?: number;
+  message: string;
+}
+
+export interface LoadedConfig {
+  config: ModelProfileConfig;
+  warnings: ConfigDiagnostic[];
+}
+
+const VALID_DOMAINS: TaskDomain[] = ['code', 'math', 'reasoning', 'multimodal', 'general'];
+
+export const BUILT_IN_TASK_TYPES: BuiltInTaskType[] = [
+  'code_generation',
+  'bug_fixing',
+  'code_review',
+  'test_writing',
+  'documentation',
+  'architecture_analysis',
+  'general',
+];
+
+export const MAX_ENSEMBLE_SIZE = 5;
+
+export const KNOWN_CAPABILITIES = [
+  'code_generation',
+  'code_analysis',
+  'tool_use',
+  'reasoning',
+  'math',
+  'testing',
+  'debugging',
+  'explanation',
+  'general_knowledge',
+  'multimodal',
+];
+
+const modelOptionsSchema = z.object({
+  num_ctx: z.number().int().positive(),
+  num_predict: z.number().int(),
+  top_k: z.number().int().nonnegative(),
+  top_p: z.number().min(0).max(1),
+  min_p: z.number().min(0).max(1),
+  seed: z.number().int(),
+  repeat_penalty: z.number().nonnegative(),
+  repeat_last_n: z.number().int(),
+  stop: z.array(z.string()),
+}).partial().passthrough();
+
+const promptProfileSchema = z.object({
+  systemRole: z.boolean(),
+  preamble: z.string().min(1),
+  suffix: z.string().min(1),
+  maxLength: z.number().int().positive(),
+  reasoning: z.enum(['low', 'medium', 'high']),
+  terse: z.boolean(),
+}).partial().passthrough();
+
+const modelProfileSchema = z.object({
+  provider: z.string().min(1),
+  domains: z.array(z.string()).min(1, 'must be a non-empty array'),
+  maxComplexity: z.enum(['simple', 'moderate', 'complex', 'expert']),
+  capabilities: z.array(z.string()).min(1, 'must be a non-empty array'),
+  contextWindow: z.number().int().positive(),
+  estimatedLatency: z.number().nonnegative(),
+  costPerToken: z.number().nonnegative(),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  backend: z.enum(['openai', 'chat', 'generate']).optional(),
+  options: modelOptionsSchema.optional(),
+  keepAlive: z.union([z.string().min(1), z.number()]).optional(),
+  format: z.union([z.literal('json'), z.record(z.unknown())]).optional(),
+  prompt: promptProfileSchema.optional(),
+}).passthrough();
+
+const selectionStrategySchema = z.enum(['quality', 'fastest', 'cheapest', 'balanced']);
+
+const scoringWeightsSchema = z.object({
+  domain: z.number().nonnegative(),
+  complexity: z.number().nonnegative(),
+  capability: z.number().nonnegative(),
+  context: z.number().nonnegative(),
+  latency: z.number().nonnegative(),
+  cost: z.number().nonnegative(),
+}).partial().passthrough();
+
+const selectionSchema = z.object({
+  strategy: selectionStrategySchema.optional(),
+  weights: scoringWeightsSchema.optional(),
+  taskTypes: z.record(z.object({
+    strategy: selectionStrategySchema.optional(),
+    weights: scoringWeightsSchema.optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+const budgetSchema = z.object({
+  daily: z.number().nonnegative().optional(),
+  session: z.number().nonnegative().optional(),
+  preferCheaperAt: z.number().min(0).max(1).optional(),
+}).passthrough();
+
+const sandboxSchema = z.object({
+  allow: z.array(z.string().min(1)).optional(),
+  deny: z.array(z.string().min(1)).optional(),
+  timeouts: z.record(z.number().int().positive()).optional(),
+  maxOutputChars: z.number().int().positive().optional(),
+  envPassthrough: z.array(z.string().min(1)).optional(),
+  dryRun: z.boolean().optional(),
+}).passthrough();
+
+const agentSchema = z.object({
+  maxSteps: z.number().int().positive().optional(),
+  commandTimeout: z.number().int().positive().optional(),
+  maxObservationChars: z.number().int().positive().optional(),
+  sandbox: sandboxSchema.optional(),
+}).passthrough();
+
+const classifierSchema = z.object({
+  enabled: z.boolean().optional(),
+  model: z.string().min(1).optional(),
+  minConfidence: z.number().min(0).max(1).optional(),
+  timeout: z.number().int().positive().optional(),
+}).passthrough();
+
+const patternListSchema = z.array(z.string().min(1));
+
+const languageLexiconSchema = z.object({
+  name: z.string().min(1).optional(),
+  markers: patternListSchema.optional(),
+  taskTypes: z.record(patternListSchema).optional(),
+  domains: z.object({
+    code: patternListSchema,
+    math: patternListSchema,
+    reasoning: patternListSchema,
+    multimodal: patternListSchema,
+  }).partial().passthrough().optional(),
+  complexity: z.object({
+    moderate: patternListSchema,
+    complex: patternListSchema,
+    expert: patternListSchema,
+  }).partial().passthrough().optional(),
+  capabilities: z.record(patternListSchema).optional(),
+}).passthrough();
+
+const taskTypeSchema = z.object({
+  description: z.string().optional(),
+  keywords: patternListSchema.optional(),
+  capabilities: z.array(z.string().min(1)).optional(),
+  domain: z.enum(['code', 'math', 'reasoning', 'multimodal', 'general']).optional(),
+  template: z.string().min(1).optional(),
+  modelTemplates: z.record(z.string().min(1)).optional(),
+  rubric: z.array(z.string().min(1)).min(1).optional(),
+}).passthrough();
+
+const ensembleSchema = z.object({
+  enabled: z.boolean().optional(),
+  size: z.number().int().min(2).max(MAX_ENSEMBLE_SIZE).optional(),
+  taskTypes: z.array(z.string().min(1)).optional(),
+  judge: z.string().min(1).optional(),
+}).passthrough();
+
+const verificationSchema = z.object({
+  enabled: z.boolean().optional(),
+  model: z.string().min(1).optional(),
+  threshold: z.number().min(0).max(1).optional(),
+  maxRetries: z.number().int().nonnegative().optional(),
+}).passthrough();
+
+const codeChecksSchema = z.object({
+  enabled: z.boolean().optional(),
+  repair: z.boolean().optional(),
+  maxRepairAttempts: z.number().int().nonnegative().optional(),
+  pythonCommand: z.string().min(1).optional(),
+  timeout: z.number().int().positive().optional(),
+}).passthrough();
+
+const testRunSchema = z.object({
+  command: z.string().min(1).optional(),
+  maxIterations: z.number().int().nonnegative().optional(),
+  timeout: z.number().int().positive().optional(),
+  linkDependencies: z.boolean().optional(),
+}).passthrough();
+
+const retryPolicySchema = z.object({
+  retries: z.number().int().nonnegative().optional(),
+  baseDelay: z.number().int().nonnegative().optional(),
+  maxDelay: z.number().int().nonnegative().optional(),
+  fallback: z.boolean().optional(),
+}).passthrough();
+
+const retrySchema = z.object({
+  rate_limit: retryPolicySchema.optional(),
+  transient: retryPolicySchema.optional(),
+  timeout: retryPolicySchema.optional(),
+  model_not_found: retryPolicySchema.optional(),
+  auth: retryPolicySchema.optional(),
+  invalid_request: retryPolicySchema.optional(),
+  unknown: retryPolicySchema.optional(),
+}).passthrough();
+
+const configSchema = z.object({
+  models: z.record(modelProfileSchema).refine(
+    models => Object.keys(models).length > 0,
+    'must define at least one model'
+  ),
+  selection: selectionSchema.optional(),
+  budget: budgetSchema.optional(),
+  agent: agentSchema.optional(),
+  classifier: classifierSchema.optional(),
+  lexicon: z.record(languageLexiconSchema).optional(),
+  taskTypes: z.record(taskTypeSchema).optional(),
+  ensemble: ensembleSchema.optional(),
+  verification: verificationSchema.optional(),
+  codeChecks: codeChecksSchema.optional(),
+  testRun: testRunSchema.optional(),
+  retry: retrySchema.optional(),
+}).passthrough();
+
+/**
+ * Loads and validates models.yaml (or an equivalent JSON file).
+ * Structural errors are fatal and name the line and field; unknown keys and
+ * unrecognised domain/capability values are reported as warnings.
+ */
+export class ConfigLoader {
+  /**
+   * Load configuration from a YAML or JSON file
+   */
+  async load(configPath: string): Promise<LoadedConfig> {
+    const content = await fs.readFile(configPath, 'utf-8');
+    return this.parse(content, configPath);
+  }
+
+  /**
+   * Parse and validate configuration content
+   */
+  parse(content: string, source: string = 'config'): LoadedConfig {
+    const lineCounter = new LineCounter();
+    // JSON is a subset of YAML 1.2, so the same parser handles both formats
+    const doc = parseDocument(content, { lineCounter, prettyErrors: false, merge: true });
+
+    if (doc.errors.length > 0) {
+      const messages = doc.errors.map(err => {
+        const line = lineCounter.linePos(err.pos[0]).line;
+        return `${source}${line ? `:${line}` : ''}: ${err.message.split('\n')[0]}`;
+      });
+      throw new ConfigurationError(`Failed to parse configuration:\n${messages.join('\n')}`);
+    }
+
+    const raw = doc.toJS({ maxAliasCount: 1000 });
+    const result = configSchema.safeParse(raw ?? {});
+
+    if (!result.success) {
+      const messages = result.error.issues.map(issue => {
+        const message = issue.code === 'invalid_type' && issue.received === 'undefined'
+          ? 'missing required field'
+          : issue.message;
+        const diagnostic = this.createDiagnostic(doc, lineCounter, issue.path, message);
+        return this.formatDiagnostic(source, diagnostic);
+      });
+      throw new ConfigurationError(`Invalid configuration:\n${messages.join('\n')}`);
+    }
+
+    const warnings: ConfigDiagnostic[] = [];
+    const config: ModelProfileConfig = {
+      models: {},
+      selection: result.data.selection,
+      budget: result.data.budget,
+      agent: result.data.agent,
+      classifier: result.data.classifier,
+      lexicon: result.data.lexicon,
+      taskTypes: result.data.taskTypes,
+      ensemble: result.data.ensemble,
+      verification: result.data.verification,
+      codeChecks: result.data.codeChecks,
+      testRun: result.data.testRun,
+      retry: result.data.retry,
+    };
+
+    this.checkUnknownKeys(doc, lineCounter, [], raw, configSchema, warnings);
+
+    for (const [modelName, profile] of Object.entries(result.data.models)) {
+      const basePath = ['models', modelName];
+
+      const domains = profile.domains.filter((domain, index) => {
+        if (VALID_DOMAINS.includes(domain as TaskDomain)) {
+          return true;
+        }
+        warnings.push(this.createDiagnostic(
+          doc, lineCounter, [...basePath, 'domains', index],
+          `unknown domain "${domain}" ignored (expected one of: ${VALID_DOMAINS.join(', ')})`
+        ));
+        return false;
+      });
+
+      if (domains.length === 0) {
+        const diagnostic = this.createDiagnostic(doc, lineCounter, [...basePath, 'domains'], 'no valid domains');
+        throw new ConfigurationError(`Invalid configuration:\n${this.formatDiagnostic(source, diagnostic)}`);
+      }
+
+      profile.capabilities.forEach((capability, index) => {
+        if (!KNOWN_CAPABILITIES.includes(capability)) {
+          warnings.push(this.createDiagnostic(
+            doc, lineCounter, [...basePath, 'capabilities', index],
+            `unknown capability "${capability}" will never be required by a task`
+          ));
+        }
+      });
+
+      config.models[modelName] = {
+        provider: profile.provider,
+        domains: domains as TaskDomain[],
+        maxComplexity: profile.maxComplexity,
+        capabilities: profile.capabilities,
+        contextWindow: profile.contextWindow,
+        estimatedLatency: profile.estimatedLatency,
+        costPerToken: profile.costPerToken,
+        strengths: profile.strengths,
+        weaknesses: profile.weaknesses,
+        backend: profile.backend,
+        options: profile.options && this.pickKnownKeys(profile.options, modelOptionsSchema),
+        keepAlive: profile.keepAlive,
+        format: profile.format,
+        prompt: profile.prompt && this.pickKnownKeys(profile.prompt, promptProfileSchema),
+      };
+    }
+
+    const classifierModel = result.data.classifier?.model;
+    if (classifierModel && !config.models[classifierModel]) {
+      warnings.push(this.createDiagnostic(
+        doc, lineCounter, ['classifier', 'model'],
+        `classifier model "${classifierModel}" is not configured; the fastest available model will be used`
+      ));
+    }
+
+    const taskTypeErrors = this.checkTaskTypes(doc, lineCounter, config, warnings);
+    if (taskTypeErrors.length > 0) {
+      const messages = taskTypeErrors.map(diagnostic => this.formatDiagnostic(source, diagnostic));
+      throw new ConfigurationError(`Invalid configuration:\n${messages.join('\n')}`);
+    }
+
+    const verifierModel = result.data.verification?.model;
+    if (verifierModel && !config.models[verifierModel]) {
+      warnings.push(this.createDiagnostic(
+        doc, lineCounter, ['verification', 'model'],
+        `verifier model "${verifierModel}" is not configured; answers will be verified by the model that produced them`
+      ));
+    }
+
+    const judgeModel = result.data.ensemble?.judge;
+    if (judgeModel && !config.models[judgeModel]) {
+      warnings.push(this.createDiagnostic(
+        doc, lineCounter, ['ensemble', 'judge'],
+        `judge model "${judgeModel}" is not configured; the selected model will judge`
+      ));
+    }
+    (result.data.ensemble?.taskTypes || []).forEach((taskType, index) => {
+      if (!BUILT_IN_TASK_TYPES.includes(taskType as BuiltInTaskType) && !config.taskTypes?.[taskType]) {
+        warnings.push(this.createDiagnostic(
+          doc, lineCounter, ['ensemble', 'taskTypes', index],
+          `unknown task type "${taskType}" will never run as an ensemble`
+        ));
+      }
+    });
+
+    for (const [language, entry] of Object.entries(result.data.lexicon || {})) {
+      for (const taskType of Object.keys(entry.taskTypes || {})) {
+        if (!BUILT_IN_TASK_TYPES.includes(taskType as BuiltInTaskType) && !config.taskTypes?.[taskType]) {
+          warnings.push(this.createDiagnostic(
+            doc, lineCounter, ['lexicon', language, 'taskTypes', taskType],
+            `unknown task type "${taskType}" ignored (define it under taskTypes)`
+          ));
+        }
+      }
+      for (const capability of Object.keys(entry.capabilities || {})) {
+        if (!KNOWN_CAPABILITIES.includes(capability)) {
+          warnings.push(this.createDiagnostic(
+            doc, lineCounter, ['lexicon', language, 'capabilities', capability],
+            `unknown capability "${capability}" will never be required by a task`
+          ));
+        }
+      }
+    }
+
+    return { config, warnings };
+  }
+
+  /**
+   * Check config-defined task types: names, templates (fatal, returned as errors),
+   * capabilities and per-model overrides (warnings)
+   */
+  private checkTaskTypes(
+    doc: Document,
+    lineCounter: LineCounter,
+    config: ModelProfileConfig,
+    warnings: ConfigDiagnostic[]
+  ): ConfigDiagnostic[] {
+    const errors: ConfigDiagnostic[] = [];
+
+    for (const [name, taskType] of Object.entries(config.taskTypes || {})) {
+      const basePath = ['taskTypes', name];
+      const builtIn = BUILT_IN_TASK_TYPES.includes(name as BuiltInTaskType);
+
+      if (!/^[a-z][a-z0-9_]*$/.test(name)) {
+        errors.push(this.createDiagnostic(doc, lineCounter, basePath, 'task type names must be lowercase snake_case'));
+        continue;
+      }
+      if (!builtIn && !taskType.template) {
+        errors.push(this.createDiagnostic(doc, lineCounter, basePath, `task type "${name}" needs a template`));
+      }
+      if (!builtIn && !taskType.keywords?.length) {
+        warnings.push(this.createDiagnostic(
+          doc, lineCounter, basePath,
+          `task type "${name}" has no keywords; it is only used when requested explicitly`
+        ));
+      }
+
+      const templates: [(string | number)[], string][] = [
+        ...(taskType.template ? [[[...basePath, 'template'], taskType.template] as [(string | number)[], string]] : []),
+        ...Object.entries(taskType.modelTemplates || {}).map(
+          ([model, template]) => [[...basePath, 'modelTemplates', model], template] as [(string | number)[], string]
+        ),
+      ];
+      for (const [path, template] of templates) {
+        try {
+          new PromptTemplate(template);
+        } catch (error: any) {
+          errors.push(this.createDiagnostic(doc, lineCounter, path, error.message));
+        }
+      }
+
+      for (const model of Object.keys(taskType.modelTemplates || {})) {
+        if (!config.models[model]) {
+          warnings.push(this.createDiagnostic(
+            doc, lineCounter, [...basePath, 'modelTemplates', model],
+            `model "${model}" is not configured; its template will never be used`
+          ));
+        }
+      }
+
+      (taskType.capabilities || []).forEach((capability, index) => {
+        if (!KNOWN_CAPABILITIES.includes(capability)) {
+          warnings.push(this.createDiagnostic(
+            doc, lineCounter, [...basePath, 'capabilities', index],
+            `unknown capability "${capability}" will never match a model`
+          ));
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Format a diagnostic as "source:line path: message"
+   */
+  formatDiagnostic(source: string, diagnostic: ConfigDiagnostic): string {
+    const location = diagnostic.line ? `${source}:${diagnostic.line}` : source;
+    return `${location} ${diagnostic.path}: ${diagnostic.message}`;
+  }
+
+  /**
+   * Drop passthrough keys that are not part of an object schema (already reported as warnings)
+   */
+  private pickKnownKeys<T extends object>(value: T, schema: z.AnyZodObject): T {
+    return Object.fromEntries(
+      Object.entries(value).filter(([key]) => key in schema.shape)
+    ) as T;
+  }
+
+  /**
+   * Report keys that are not part of the schema, recursing into nested objects, records and arrays
+   */
+  private checkUnknownKeys(
+    doc: Document,
+    lineCounter: LineCounter,
+    path: (string | number)[],
+    value: unknown,
+    schema: z.ZodTypeAny,
+    warnings: ConfigDiagnostic[]
+  ): void {
+    while (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault || schema instanceof z.ZodEffects) {
+      schema = schema instanceof z.ZodEffects ? schema.innerType() : schema._def.innerType;
+    }
+
+    if (value === null || typeof value !== 'object') {
+      return;
+    }
+
+    if (schema instanceof z.ZodObject) {
+      const shape = schema.shape as Record<string, z.ZodTypeAny>;
+      for (const [key, child] of Object.entries(value)) {
+        if (key in shape) {
+          this.checkUnknownKeys(doc, lineCounter, [...path, key], child, shape[key], warnings);
+        } else {
+          warnings.push(this.createDiagnostic(doc, lineCounter, [...path, key], 'unknown key ignored'));
+        }
+      }
+    } else if (schema instanceof z.ZodRecord) {
+      for (const [key, child] of Object.entries(value)) {
+        this.checkUnknownKeys(doc, lineCounter, [...path, key], child, schema.valueSchema, warnings);
+      }
+    } else if (schema instanceof z.ZodArray && Array.isArray(value)) {
+      value.forEach((child, index) => {
+        this.checkUnknownKeys(doc, lineCounter, [...path, index], child, schema.element, warnings);
+      });
+    }
+  }
+
+  /**
+   * Create a diagnostic for a document path, resolving the closest existing node to a line
+   */
+  private createDiagnostic(
+    doc: Document,
+    lineCounter: LineCounter,
+    path: (string | number)[],
+    message: string
+  ): ConfigDiagnostic {
+    let line: number | undefined;
+
+    for (let depth = path.length; depth >= 0 && line === undefined; depth--) {
+      const node = depth === 0 ? doc.contents : doc.getIn(path.slice(0, depth), true);
+      if (isNode(node) && node.range) {
+        line = lineCounter.linePos(node.range[0]).line;
+      }
+    }
+
+    return {
+      path: path.length > 0 ? path.join('.') : '(root)',
+      line,
+      message,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { ChunkBoundary, ContextChunk } from '../types/index.js';
+import { TokenEstimator } from './TokenEstimator.js';
+
+/**
+ * Lines that start a new file in pasted or ingested context
+ */
+const FILE_BOUNDARY = /^(FILE: |diff --git |(\/\/|#) ?[Ff]ile: |={3,} )/;
+
+/**
+ * Top-level declarations (no indentation) in common languages
+ */
+const DECLARATION_BOUNDARY = /^(export |import |async |function |class |interface |type |enum |const |let |var |def |func |fn |pub |impl |struct |trait |module |package |public |private |protected |static |abstract |@\w+|#\[)/;
+
+const BOUNDARY_RANK: Record<ChunkBoundary, number> = { end: 4, file: 3, declaration: 2, blank: 1, line: 0 };
+
+/**
+ * Splits oversized context into chunks that fit a token budget, cutting on code
+ * boundaries: file headers first, then top-level declarations, then blank lines,
+ * and only as a last resort in the middle of a block.
+ */
+export class ContextChunker {
+  private tokenEstimator = new TokenEstimator();
+
+  /**
+   * Split text into chunks of at most maxTokens estimated tokens
+   */
+  split(text: string, maxTokens: number): ContextChunk[] {
+    const { lines, lineNumbers } = this.splitLongLines(text.split('\n'), maxTokens);
+    const lineTokens = lines.map(line => this.tokenEstimator.estimate(line) + 1);
+    const boundaries = lines.map((line, index) => this.classifyBoundary(line, lines[index - 1]));
+    const chunks: ContextChunk[] = [];
+
+    let start = 0;
+    while (start < lines.length) {
+      // Extend the chunk as far as the budget allows
+      let end = start;
+      let tokens = lineTokens[start];
+      while (end + 1 < lines.length && tokens + lineTokens[end + 1] <= maxTokens) {
+        end++;
+        tokens += lineTokens[end];
+      }
+
+      // Unless the rest fits, cut before the best boundary in the second half of the chunk
+      let boundary: ChunkBoundary = 'line';
+      if (end + 1 < lines.length) {
+        const minCut = start + Math.max(1, Math.floor((end - start + 1) / 2));
+        let bestCut = end + 1;
+        let bestRank = BOUNDARY_RANK[boundaries[end + 1]];
+        for (let cut = end; cut >= minCut; cut--) {
+          if (BOUNDARY_RANK[boundaries[cut]] > bestRank) {
+            bestRank = BOUNDARY_RANK[boundaries[cut]];
+            bestCut = cut;
+          }
+        }
+        boundary = boundaries[bestCut];
+        end = bestCut - 1;
+        tokens = lineTokens.slice(start, end + 1).reduce((sum, count) => sum + count, 0);
+      } else {
+        boundary = 'end';
+      }
+
+      chunks.push({
+        index: chunks.length + 1,
+        startLine: lineNumbers[start],
+        endLine: lineNumbers[end],
+        tokens,
+        boundary,
+        text: lines.slice(start, end + 1).join('\n'),
+      });
+      start = end + 1;
+    }
+
+    console.error(`[ContextChunker.split] ${lines.length} lines split into ${chunks.length} chunks of at most ${maxTokens} tokens`);
+    return chunks;
+  }
+
+  /**
+   * Classify the boundary before a line
+   */
+  private classifyBoundary(line: string, previous: string | undefined): ChunkBoundary {
+    if (FILE_BOUNDARY.test(line)) {
+      return 'file';
+    }
+    if (DECLARATION_BOUNDARY.test(line)) {
+      return 'declaration';
+    }
+    if (previous !== undefined && previous.trim() === '' && line.trim() !== '') {
+      return 'blank';
+    }
+    return 'line';
+  }
+
+  /**
+   * Break single lines that exceed the budget on their own (minified code, long data),
+   * keeping the original 1-based line number of every piece
+   */
+  private splitLongLines(input: string[], maxTokens: number): { lines: string[]; lineNumbers: number[] } {
+    const lines: string[] = [];
+    const lineNumbers: number[] = [];
+    input.forEach((line, index) => {
+      const tokens = this.tokenEstimator.estimate(line) + 1;
+      if (tokens <= maxTokens) {
+        lines.push(line);
+        lineNumbers.push(index + 1);
+        return;
+      }
+
+      // Token density varies along the line, so shrink pieces that still exceed the budget
+      const pieceLength = Math.max(1, Math.floor(line.length * maxTokens / tokens * 0.9));
+      let offset = 0;
+      while (offset < line.length) {
+        let piece = line.slice(offset, offset + pieceLength);
+        while (piece.length > 1 && this.tokenEstimator.estimate(piece) + 1 > maxTokens) {
+          piece = piece.slice(0, Math.floor(piece.length * 0.9));
+        }
+        lines.push(piece);
+        lineNumbers.push(index + 1);
+        offset += piece.length;
+      }
+    });
+    return { lines, lineNumbers };
+  }
+}
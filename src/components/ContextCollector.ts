@@ -0,0 +1,477 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ContextFile, ContextIngestionResult, ContextSnippet } from '../types/index.js';
+import { WorkspaceTools } from './WorkspaceTools.js';
+import { TokenEstimator } from './TokenEstimator.js';
+
+export interface ContextCollection {
+  files: ContextFile[]; // ranked, most relevant first
+  skipped: string[];
+  totalTokens: number;
+}
+
+interface IgnoreRule {
+  base: string; // directory of the .gitignore, relative to the workspace root
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  anchored: boolean; // matched against the path relative to base, not just the name
+}
+
+/**
+ * Directories never searched by globs, with or without a .gitignore
+ */
+const ALWAYS_IGNORED = new Set(['.git', 'node_modules']);
+
+const MAX_FILE_SIZE = 1024 * 1024;
+const MAX_FILES = 200;
+
+/**
+ * Below this many tokens a partial excerpt is not worth including
+ */
+const MIN_EXCERPT_TOKENS = 200;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'when', 'then', 'than', 'should',
+  'would', 'could', 'must', 'not', 'are', 'was', 'were', 'has', 'have', 'had', 'all', 'any',
+  'fix', 'add', 'use', 'make', 'code', 'file', 'files', 'function', 'please', 'implement',
+]);
+
+/**
+ * Runs of Han ideographs, kana and hangul; they have no word boundaries, so
+ * terms are taken as overlapping character bigrams
+ */
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]{2,}/g;
+
+const CJK_STOP_BIGRAMS = new Set([
+  '一个', '这个', '那个', '我们', '你们', '请帮', '帮我', '如何', '怎么', '什么', '为什', '可以', '需要', '应该',
+  '能够', '进行', '使用', '实现', '修复', '添加', '代码', '文件', '函数', '问题', '一下', '的时', '时候',
+]);
+
+/**
+ * Reads workspace files named by path or glob as task context. Paths are
+ * confined to the workspace, .gitignore rules are honoured, files are ranked by
+ * relevance to the task description and fitted into a token budget as
+ * path- and line-labelled snippets.
+ */
+export class ContextCollector {
+  private tokenEstimator = new TokenEstimator();
+  private ignoreCache = new Map<string, IgnoreRule[]>();
+
+  constructor(private tools: WorkspaceTools) {}
+
+  /**
+   * Read the named files and glob matches, ranked by relevance to the description.
+   * Explicitly named files rank ahead of glob matches.
+   */
+  async collect(files: string[], globs: string[], description: string): Promise<ContextCollection> {
+    const found = new Map<string, boolean>(); // path -> explicit
+    const skipped: string[] = [];
+
+    for (const file of files) {
+      const relative = this.normalize(file);
+      if (await this.isIgnored(relative, false)) {
+        skipped.push(`${file}: ignored by .gitignore`);
+      } else {
+        found.set(relative, true);
+      }
+    }
+
+    for (const glob of globs) {
+      let matches: string[];
+      try {
+        matches = await this.expandGlob(glob, MAX_FILES - found.size);
+      } catch (error: any) {
+        skipped.push(`${glob}: ${error.message}`);
+        continue;
+      }
+      if (matches.length === 0) {
+        skipped.push(`${glob}: no files matched`);
+      }
+      for (const match of matches) {
+        if (!found.has(match)) {
+          found.set(match, false);
+        }
+      }
+      if (found.size >= MAX_FILES) {
+        skipped.push(`${glob}: stopped after ${MAX_FILES} files`);
+        break;
+      }
+    }
+
+    const terms = this.extractTerms(description);
+    const collected: ContextFile[] = [];
+    for (const [relative, explicit] of found) {
+      try {
+        const resolved = await this.tools.resolvePath(relative);
+        const stats = await fs.stat(resolved);
+        if (!stats.isFile()) {
+          skipped.push(`${relative}: not a file`);
+          continue;
+        }
+        if (stats.size > MAX_FILE_SIZE) {
+          skipped.push(`${relative}: larger than ${MAX_FILE_SIZE} bytes`);
+          continue;
+        }
+        const content = await fs.readFile(resolved, 'utf-8');
+        if (content.includes('\0')) {
+          skipped.push(`${relative}: binary file`);
+          continue;
+        }
+        collected.push({ path: relative, content, explicit, score: this.scoreFile(relative, content, terms) });
+      } catch (error: any) {
+        skipped.push(`${relative}: ${error.code === 'ENOENT' ? 'not found' : error.message}`);
+      }
+    }
+
+    collected.sort((a, b) =>
+      Number(b.explicit) - Number(a.explicit) || b.score - a.score || a.path.localeCompare(b.path)
+    );
+
+    console.error(`[ContextCollector.collect] ${collected.length} files collected, ${skipped.length} skipped`);
+
+    return {
+      files: collected,
+      skipped,
+      totalTokens: collected.reduce((sum, file) => sum + this.tokenEstimator.estimate(file.content), 0),
+    };
+  }
+
+  /**
+   * Fit ranked files into a token budget, in rank order. A file is included whole if it
+   * fits, else cut to the excerpt around its most relevant line, or omitted when too
+   * little budget is left for an excerpt. Smaller files further down still fill what remains.
+   */
+  fit(collection: ContextCollection, tokenBudget: number, description: string): ContextIngestionResult {
+    const terms = this.extractTerms(description);
+    const snippets: ContextSnippet[] = [];
+    const blocks: string[] = [];
+    const omitted: string[] = [];
+    let remaining = tokenBudget;
+
+    for (const file of collection.files) {
+      const lines = file.content.replace(/\n$/, '').split('\n');
+      const lineTokens = lines.map((line, index) => this.tokenEstimator.estimate(this.formatLine(index + 1, line)) + 1);
+      const headerTokens = this.tokenEstimator.estimate(this.formatHeader(file.path, 1, lines.length, lines.length)) + 4;
+      const fullTokens = headerTokens + lineTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+      let start = 0;
+      let end = lines.length - 1;
+      let tokens = fullTokens;
+
+      if (fullTokens > remaining) {
+        const excerpt = remaining >= MIN_EXCERPT_TOKENS
+          ? this.selectExcerpt(lines, lineTokens, terms, remaining - headerTokens)
+          : null;
+        if (!excerpt) {
+          omitted.push(file.path);
+          continue;
+        }
+        [start, end, tokens] = excerpt;
+        tokens += headerTokens;
+      }
+
+      const numbered = lines.slice(start, end + 1).map((line, index) => this.formatLine(start + index + 1, line));
+      blocks.push(`${this.formatHeader(file.path, start + 1, end + 1, lines.length)}\n\`\`\`\n${numbered.join('\n')}\n\`\`\``);
+      snippets.push({
+        path: file.path,
+        startLine: start + 1,
+        endLine: end + 1,
+        totalLines: lines.length,
+        tokens,
+        truncated: end - start + 1 < lines.length,
+      });
+      remaining -= tokens;
+    }
+
+    console.error(`[ContextCollector.fit] ${snippets.length} snippets, ${omitted.length} omitted, ${tokenBudget - remaining}/${tokenBudget} tokens`);
+
+    return {
+      text: blocks.join('\n\n'),
+      snippets,
+      omitted,
+      skipped: collection.skipped,
+      tokenBudget,
+      tokensUsed: tokenBudget - remaining,
+    };
+  }
+
+  /**
+   * Pick the largest window of lines around the line with the most term hits that fits the budget.
+   * Returns [start, end, tokens] with inclusive 0-based line indexes, or null if even that line doesn't fit.
+   */
+  private selectExcerpt(lines: string[], lineTokens: number[], terms: string[], budget: number): [number, number, number] | null {
+    let center = 0;
+    let bestHits = 0;
+    lines.forEach((line, index) => {
+      const lower = line.toLowerCase();
+      const hits = terms.filter(term => lower.includes(term)).length;
+      if (hits > bestHits) {
+        bestHits = hits;
+        center = index;
+      }
+    });
+
+    if (lineTokens[center] > budget) {
+      return null;
+    }
+
+    let start = center;
+    let end = center;
+    let tokens = lineTokens[center];
+    // Grow the window alternately downwards and upwards until neither side fits
+    while (true) {
+      const canGrowDown = end + 1 < lines.length && tokens + lineTokens[end + 1] <= budget;
+      if (canGrowDown) {
+        end++;
+        tokens += lineTokens[end];
+      }
+      const canGrowUp = start > 0 && tokens + lineTokens[start - 1] <= budget;
+      if (canGrowUp) {
+        start--;
+        tokens += lineTokens[start];
+      }
+      if (!canGrowDown && !canGrowUp) {
+        break;
+      }
+    }
+
+    return [start, end, tokens];
+  }
+
+  /**
+   * Relevance of a file to the task: path mentions weigh most, content hits are log-scaled
+   */
+  private scoreFile(relative: string, content: string, terms: string[]): number {
+    const lowerPath = relative.toLowerCase();
+    const lowerContent = content.toLowerCase();
+    let score = 0;
+
+    for (const term of terms) {
+      if (lowerPath.includes(term)) {
+        score += 5;
+      }
+      let count = 0;
+      for (let index = lowerContent.indexOf(term); index !== -1 && count < 1000; index = lowerContent.indexOf(term, index + term.length)) {
+        count++;
+      }
+      score += Math.log2(1 + count);
+    }
+
+    return Math.round(score * 100) / 100;
+  }
+
+  /**
+   * Significant lowercase terms of the description; camelCase and snake_case
+   * identifiers also contribute their parts, CJK text its character bigrams
+   */
+  private extractTerms(description: string): string[] {
+    const terms = new Set<string>();
+    for (const word of description.match(/[A-Za-z_][A-Za-z0-9_]*/g) || []) {
+      const parts = [word, ...word.split(/_|(?<=[a-z0-9])(?=[A-Z])/)];
+      for (const part of parts) {
+        const term = part.toLowerCase();
+        if (term.length >= 3 && !STOP_WORDS.has(term)) {
+          terms.add(term);
+        }
+      }
+    }
+    for (const run of description.match(CJK_RUN) || []) {
+      for (let i = 0; i + 1 < run.length; i++) {
+        const bigram = run.slice(i, i + 2);
+        if (!CJK_STOP_BIGRAMS.has(bigram)) {
+          terms.add(bigram);
+        }
+      }
+    }
+    return [...terms];
+  }
+
+  /**
+   * Expand a workspace-relative glob, walking only below its static prefix
+   */
+  private async expandGlob(glob: string, limit: number): Promise<string[]> {
+    const pattern = this.normalize(glob);
+    const segments = pattern.split('/');
+    const firstDynamic = segments.findIndex(segment => /[*?[{]/.test(segment));
+    if (firstDynamic === -1) {
+      return [pattern]; // a plain path
+    }
+
+    const prefix = segments.slice(0, firstDynamic).join('/');
+    const regex = this.globToRegExp(pattern);
+    const matches: string[] = [];
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      const resolved = await this.tools.resolvePath(relativeDir || '.');
+      const entries = await fs.readdir(resolved, { withFileTypes: true });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const entry of entries) {
+        if (matches.length >= limit) return;
+        const relative = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+        if (entry.isDirectory()) {
+          if (!ALWAYS_IGNORED.has(entry.name) && !(await this.isIgnored(relative, true))) {
+            await walk(relative);
+          }
+        } else if (entry.isFile() && regex.test(relative) && !(await this.isIgnored(relative, false))) {
+          matches.push(relative);
+        }
+      }
+    };
+
+    try {
+      await walk(prefix);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') {
+        throw error;
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Whether a path, or any directory containing it, is excluded by .gitignore files
+   */
+  private async isIgnored(relative: string, isDir: boolean): Promise<boolean> {
+    const segments = relative.split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      if (ALWAYS_IGNORED.has(segments[i - 1]) && i < segments.length) {
+        return true;
+      }
+      const candidate = segments.slice(0, i).join('/');
+      if (await this.matchesIgnoreRules(candidate, i < segments.length || isDir)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Apply the rules of every .gitignore above a path; the last matching rule wins
+   */
+  private async matchesIgnoreRules(relative: string, isDir: boolean): Promise<boolean> {
+    const directories = [''];
+    const segments = relative.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      directories.push(segments.slice(0, i).join('/'));
+    }
+
+    let ignored = false;
+    for (const directory of directories) {
+      for (const rule of await this.loadIgnoreRules(directory)) {
+        const rest = rule.base ? relative.slice(rule.base.length + 1) : relative;
+        if (rule.dirOnly && !isDir) continue;
+        if (rule.regex.test(rule.anchored ? rest : path.posix.basename(rest))) {
+          ignored = !rule.negate;
+        }
+      }
+    }
+    return ignored;
+  }
+
+  /**
+   * Parse the .gitignore of a directory (cached)
+   */
+  private async loadIgnoreRules(directory: string): Promise<IgnoreRule[]> {
+    const cached = this.ignoreCache.get(directory);
+    if (cached) {
+      return cached;
+    }
+
+    const rules: IgnoreRule[] = [];
+    try {
+      const resolved = await this.tools.resolvePath(directory ? `${directory}/.gitignore` : '.gitignore');
+      const content = await fs.readFile(resolved, 'utf-8');
+
+      for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) continue;
+
+        const negate = line.startsWith('!');
+        if (negate) line = line.slice(1);
+        if (line.startsWith('\\')) line = line.slice(1);
+
+        const dirOnly = line.endsWith('/');
+        if (dirOnly) line = line.slice(0, -1);
+
+        const anchored = line.includes('/');
+        if (line.startsWith('/')) line = line.slice(1);
+        if (!line) continue;
+
+        rules.push({ base: directory, regex: this.globToRegExp(line), negate, dirOnly, anchored });
+      }
+    } catch {
+      // No .gitignore (or unreadable): no rules
+    }
+
+    this.ignoreCache.set(directory, rules);
+    return rules;
+  }
+
+  /**
+   * Convert a glob (`*`, `**`, `?`, `[...]`, `{a,b}`) to an anchored regular expression
+   */
+  private globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '*') {
+        if (glob[i + 1] === '*') {
+          const slashAfter = glob[i + 2] === '/';
+          source += slashAfter ? '(?:.*/)?' : '.*';
+          i += slashAfter ? 2 : 1;
+        } else {
+          source += '[^/]*';
+        }
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[') {
+        const close = glob.indexOf(']', i + 1);
+        if (close === -1) {
+          source += '\\[';
+        } else {
+          const body = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+          source += `[${body}]`;
+          i = close;
+        }
+      } else if (char === '{') {
+        braceDepth++;
+        source += '(?:';
+      } else if (char === '}' && braceDepth > 0) {
+        braceDepth--;
+        source += ')';
+      } else if (char === ',' && braceDepth > 0) {
+        source += '|';
+      } else {
+        source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+      }
+    }
+
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Normalize a caller-supplied path or glob to a '/'-separated workspace-relative form
+   */
+  private normalize(value: string): string {
+    return value.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  }
+
+  /**
+   * Header line labelling a snippet
+   */
+  private formatHeader(relative: string, startLine: number, endLine: number, totalLines: number): string {
+    return `FILE: ${relative} (lines ${startLine}-${endLine} of ${totalLines})`;
+  }
+
+  /**
+   * Line-numbered source line, in the same layout as the agent's read_file tool
+   */
+  private formatLine(lineNumber: number, line: string): string {
+    return `${String(lineNumber).padStart(5)}  ${line}`;
+  }
+}
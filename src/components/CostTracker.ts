@@ -0,0 +1,159 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BudgetConfig, BudgetStatus } from '../types/index.js';
+
+interface CostFile {
+  version: 1;
+  daily: {
+    [date: string]: number;
+  };
+}
+
+export class CostTracker {
+  private data: CostFile = { version: 1, daily: {} };
+  private sessions: Map<string, number> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * Number of days of daily totals kept on disk
+   */
+  private static readonly RETENTION_DAYS = 31;
+
+  /**
+   * @param filePath JSON file daily totals are persisted to (in-memory only when omitted)
+   */
+  constructor(private filePath?: string) {}
+
+  /**
+   * Load persisted daily totals. A missing or corrupt file starts empty.
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const parsed = JSON.parse(content);
+      if (parsed?.version === 1 && parsed.daily && typeof parsed.daily === 'object') {
+        this.data = parsed;
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`[CostTracker] Ignoring unreadable cost file ${this.filePath}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Compute the cost of an execution
+   */
+  calculateCost(tokensUsed: number, costPerToken: number): number {
+    return tokensUsed * costPerToken;
+  }
+
+  /**
+   * Add an execution's cost to the session and daily totals
+   */
+  async record(sessionId: string, cost: number): Promise<void> {
+    if (cost <= 0) {
+      return;
+    }
+
+    this.sessions.set(sessionId, (this.sessions.get(sessionId) || 0) + cost);
+
+    const today = this.getDateKey();
+    this.data.daily[today] = (this.data.daily[today] || 0) + cost;
+    this.pruneOldDays();
+
+    await this.save();
+  }
+
+  /**
+   * Get the total cost of a session
+   */
+  getSessionTotal(sessionId: string): number {
+    return this.sessions.get(sessionId) || 0;
+  }
+
+  /**
+   * Get the total cost of a day (today by default)
+   */
+  getDailyTotal(date: Date = new Date()): number {
+    return this.data.daily[this.getDateKey(date)] || 0;
+  }
+
+  /**
+   * Compare current spending with the configured budget.
+   * Pressure is the highest fraction of any limit used so far (0 without limits).
+   */
+  getBudgetStatus(sessionId: string, budget: BudgetConfig): BudgetStatus {
+    const sessionSpent = this.getSessionTotal(sessionId);
+    const dailySpent = this.getDailyTotal();
+
+    const fractions: number[] = [];
+    if (budget.session !== undefined) {
+      fractions.push(budget.session > 0 ? sessionSpent / budget.session : 1);
+    }
+    if (budget.daily !== undefined) {
+      fractions.push(budget.daily > 0 ? dailySpent / budget.daily : 1);
+    }
+
+    const pressure = fractions.length > 0 ? Math.max(...fractions) : 0;
+
+    return {
+      sessionSpent,
+      dailySpent,
+      sessionLimit: budget.session,
+      dailyLimit: budget.daily,
+      pressure,
+      exhausted: pressure >= 1,
+    };
+  }
+
+  /**
+   * Local date key (YYYY-MM-DD)
+   */
+  private getDateKey(date: Date = new Date()): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Drop daily totals older than the retention period
+   */
+  private pruneOldDays(): void {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - CostTracker.RETENTION_DAYS);
+    const cutoffKey = this.getDateKey(cutoff);
+
+    for (const date of Object.keys(this.data.daily)) {
+      if (date < cutoffKey) {
+        delete this.data.daily[date];
+      }
+    }
+  }
+
+  /**
+   * Persist daily totals atomically (write to a temp file, then rename)
+   */
+  private async save(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    const filePath = this.filePath;
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(this.data, null, 2), 'utf-8');
+        await fs.rename(tmpPath, filePath);
+      } catch (error: any) {
+        console.error(`[CostTracker] Failed to save costs to ${filePath}: ${error.message}`);
+      }
+    });
+    await this.saving;
+  }
+}
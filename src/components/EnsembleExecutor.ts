@@ -0,0 +1,288 @@
+import {
+  EnsembleDisagreement,
+  EnsembleMember,
+  EnsembleReport,
+  ExecutionRequest,
+  ExecutionResult,
+  FailedAttempt,
+} from '../types/index.js';
+import { TaskExecutor } from './TaskExecutor.js';
+import { ExecutionLogger } from './ExecutionLogger.js';
+import { StructuredOutputValidator } from './StructuredOutputValidator.js';
+import { TokenEstimator } from './TokenEstimator.js';
+
+export interface EnsembleOptions {
+  judgeModel: string;
+  judgeFallbackModels: string[];
+  context?: string; // task context shown to the judge
+  tokenBudget: number; // judge message budget, shared by the context and the answers
+}
+
+interface JudgeVerdict {
+  agreements: string[];
+  disagreements: { topic: string; positions: Record<string, string> }[];
+  verdict: 'pick' | 'merge';
+  chosen?: string;
+  finalAnswer?: string;
+  rationale: string;
+  confidence: number;
+}
+
+/**
+ * JSON Schema of the judge's verdict, sent as the response format
+ */
+const JUDGE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  required: ['agreements', 'disagreements', 'verdict', 'rationale', 'confidence'],
+  properties: {
+    agreements: { type: 'array', items: { type: 'string' } },
+    disagreements: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['topic', 'positions'],
+        properties: {
+          topic: { type: 'string' },
+          positions: { type: 'object', additionalProperties: { type: 'string' } },
+        },
+      },
+    },
+    verdict: { enum: ['pick', 'merge'] },
+    chosen: { type: 'string' },
+    finalAnswer: { type: 'string' },
+    rationale: { type: 'string' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+  },
+};
+
+const JUDGE_PROMPT = `You judge several independent answers to the same software engineering task. Compare them for correctness, completeness and soundness; do not assume any answer is right. Reply with one JSON object and nothing else:
+{"agreements": [...], "disagreements": [{"topic": ..., "positions": {"A": ..., "B": ...}}], "verdict": "pick" | "merge", "chosen": ..., "finalAnswer": ..., "rationale": ..., "confidence": 0-1}
+
+- agreements: points all answers agree on
+- disagreements: points where answers differ, with each answer's position keyed by its label
+- verdict: "pick" when one answer is clearly best (set "chosen" to its label), "merge" when combining them gives a better answer (write the complete merged answer in "finalAnswer", in the same style and language as the answers)
+- rationale: why the final answer was chosen, citing the disagreements you resolved
+- confidence: how likely the final answer is correct and complete`;
+
+/**
+ * Runs a task on several models in parallel and lets a judge model pick or
+ * merge the answers, reporting where they agree and disagree.
+ */
+export class EnsembleExecutor {
+  private validator = new StructuredOutputValidator(JUDGE_SCHEMA);
+  private tokenEstimator = new TokenEstimator();
+
+  constructor(
+    private executor: TaskExecutor,
+    private logger: ExecutionLogger
+  ) {}
+
+  /**
+   * Run the models, then the judge. Models are given best-ranked first; the best
+   * successful answer is used when the judge fails. Returns the attempt errors
+   * when every model failed.
+   */
+  async run(
+    request: ExecutionRequest,
+    models: string[],
+    options: EnsembleOptions
+  ): Promise<ExecutionResult | FailedAttempt[]> {
+    const startTime = Date.now();
+    let progressText = '';
+    const report = (delta: string) => {
+      if (request.onProgress) {
+        progressText += delta;
+        request.onProgress({ delta, content: progressText, tokens: 0 });
+      }
+    };
+
+    console.error(`[EnsembleExecutor.run] Running ${models.join(', ')} in parallel`);
+    const results = await Promise.all(models.map(async (model, index) => {
+      const result = await this.executor.executeWithRetry({ ...request, modelName: model, onProgress: undefined });
+      report(`[ensemble] ${this.label(index)} ${model} ${result.success ? 'done' : 'failed'} (${result.executionTime}ms)\n`);
+      return result;
+    }));
+
+    const members: EnsembleMember[] = results.map((result, index) => ({
+      model: models[index],
+      label: this.label(index),
+      success: result.success,
+      ...(result.success ? { response: result.response } : { error: result.metadata?.error || 'Execution failed' }),
+      tokensUsed: result.tokensUsed,
+      executionTime: result.executionTime,
+    }));
+    this.logger.info('Ensemble answers collected', {
+      succeeded: members.filter(member => member.success).map(member => member.model),
+      failed: members.filter(member => !member.success).map(member => `${member.model}: ${member.error}`),
+    });
+
+    const succeeded = results.filter(result => result.success);
+    if (succeeded.length === 0) {
+      return members.map((member, index) => ({
+        modelAttempted: member.model,
+        error: member.error!,
+        timestamp: Date.now(),
+        errorClass: results[index].metadata?.errorClass,
+        status: results[index].metadata?.status,
+        retries: results[index].metadata?.retries,
+      }));
+    }
+
+    const totals = {
+      tokensUsed: results.reduce((sum, result) => sum + result.tokensUsed, 0),
+      promptTokens: results.reduce((sum, result) => sum + result.promptTokens, 0),
+      completionTokens: results.reduce((sum, result) => sum + result.completionTokens, 0),
+    };
+    const finish = (base: ExecutionResult, ensemble: EnsembleReport, extra: Partial<ExecutionResult> = {}): ExecutionResult => ({
+      ...base,
+      ...totals,
+      executionTime: Date.now() - startTime,
+      ...extra,
+      metadata: { ...base.metadata, streamed: false, ensemble },
+    });
+
+    if (succeeded.length === 1) {
+      return finish(succeeded[0], {
+        members,
+        verdict: 'single',
+        chosenModel: succeeded[0].modelUsed,
+        agreements: [],
+        disagreements: [],
+        rationale: 'Only one model produced an answer',
+      });
+    }
+
+    report(`[ensemble] judging with ${options.judgeModel}\n`);
+    const judged = await this.judge(request, members.filter(member => member.success), options);
+    const judgeTotals = judged.result
+      ? {
+        tokensUsed: totals.tokensUsed + judged.result.tokensUsed,
+        promptTokens: totals.promptTokens + judged.result.promptTokens,
+        completionTokens: totals.completionTokens + judged.result.completionTokens,
+      }
+      : {};
+    if (!judged.verdict) {
+      this.logger.warn('Ensemble judge failed, using the best-ranked answer', { reason: judged.failure });
+      return finish(succeeded[0], {
+        members,
+        judgeModel: judged.result?.modelUsed,
+        judgeTokensUsed: judged.result?.tokensUsed,
+        verdict: 'fallback',
+        chosenModel: succeeded[0].modelUsed,
+        agreements: [],
+        disagreements: [],
+        rationale: `Judge failed (${judged.failure}); used the answer of the best-ranked model`,
+      }, judgeTotals);
+    }
+
+    const verdict = judged.verdict;
+    const judgeResult = judged.result!;
+    const byLabel = new Map(members.map(member => [member.label, member]));
+    const chosen = verdict.chosen ? byLabel.get(verdict.chosen.trim().toUpperCase()) : undefined;
+    const merged = verdict.verdict === 'merge' && verdict.finalAnswer?.trim();
+    const picked = !merged && chosen?.success ? chosen : undefined;
+    const ensemble: EnsembleReport = {
+      members,
+      judgeModel: judgeResult.modelUsed,
+      judgeTokensUsed: judgeResult.tokensUsed,
+      verdict: merged ? 'merge' : picked ? 'pick' : 'fallback',
+      chosenModel: merged ? undefined : (picked || members.find(member => member.success))!.model,
+      agreements: verdict.agreements,
+      disagreements: verdict.disagreements.map((disagreement): EnsembleDisagreement => ({
+        topic: disagreement.topic,
+        positions: Object.fromEntries(Object.entries(disagreement.positions).map(
+          ([label, position]) => [byLabel.get(label.trim().toUpperCase())?.model || label, position]
+        )),
+      })),
+      rationale: merged || picked
+        ? verdict.rationale
+        : `Judge chose no valid answer (${verdict.chosen ?? 'none'}); used the answer of the best-ranked model. ${verdict.rationale}`,
+      confidence: verdict.confidence,
+    };
+    this.logger.info('Ensemble judged', {
+      judge: judgeResult.modelUsed,
+      verdict: ensemble.verdict,
+      chosenModel: ensemble.chosenModel,
+      confidence: verdict.confidence,
+      disagreements: ensemble.disagreements.length,
+    });
+
+    const base = merged
+      ? judgeResult
+      : results.find(result => result.modelUsed === ensemble.chosenModel)!;
+    return finish(base, ensemble, {
+      ...judgeTotals,
+      response: merged || base.response,
+      modelUsed: merged ? judgeResult.modelUsed : base.modelUsed,
+      confidence: Math.round(verdict.confidence * 100),
+    });
+  }
+
+  /**
+   * Ask the judge model for a verdict. Without a verdict, the failure says why;
+   * the result is kept whenever a judge model answered, for token accounting.
+   */
+  private async judge(
+    request: ExecutionRequest,
+    answers: EnsembleMember[],
+    options: EnsembleOptions
+  ): Promise<{ verdict?: JudgeVerdict; result?: ExecutionResult; failure?: string }> {
+    const result = await this.executor.executeWithFallback({
+      ...request,
+      modelName: options.judgeModel,
+      systemPrompt: JUDGE_PROMPT,
+      message: this.buildJudgeMessage(request.task.description, answers, options),
+      temperature: 0.1,
+      format: JUDGE_SCHEMA,
+      history: undefined,
+      onProgress: undefined,
+      statsTaskType: 'ensemble_judge',
+    }, options.judgeFallbackModels);
+
+    if (Array.isArray(result)) {
+      return { failure: result.map(e => `${e.modelAttempted}: ${e.error}`).join('; ') };
+    }
+
+    const validation = this.validator.validate(result.response);
+    if (!validation.valid) {
+      return { result, failure: `invalid verdict from ${result.modelUsed}: ${validation.errors.join('; ')}` };
+    }
+    return { verdict: validation.data as JudgeVerdict, result };
+  }
+
+  /**
+   * Judge message: the task, its context and the labelled answers, fitted to the token budget
+   */
+  private buildJudgeMessage(description: string, answers: EnsembleMember[], options: EnsembleOptions): string {
+    const context = options.context
+      ? this.truncateToTokens(options.context, Math.floor(options.tokenBudget / 2))
+      : '';
+    const perAnswer = Math.floor((options.tokenBudget - this.tokenEstimator.estimate(context)) / answers.length);
+    const sections = answers.map(answer =>
+      `### Answer ${answer.label}\n${this.truncateToTokens(answer.response!.trim(), perAnswer)}`
+    );
+
+    return `TASK:\n${description}\n\n` +
+      (context ? `CONTEXT:\n${context}\n\n` : '') +
+      `${answers.length} independent answers (labels: ${answers.map(answer => answer.label).join(', ')}):\n\n` +
+      sections.join('\n\n');
+  }
+
+  /**
+   * Label the judge sees instead of a model name, so it can't favour a model by reputation
+   */
+  private label(index: number): string {
+    return String.fromCharCode(65 + index);
+  }
+
+  /**
+   * Cut text to roughly a number of tokens
+   */
+  private truncateToTokens(text: string, maxTokens: number): string {
+    const tokens = this.tokenEstimator.estimate(text);
+    if (tokens <= maxTokens) {
+      return text;
+    }
+    return `${text.substring(0, Math.floor(text.length * Math.max(0, maxTokens) / tokens))}\n... [truncated]`;
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  ContextChunk,
+  ExecutionRequest,
+  ExecutionResult,
+  FailedAttempt,
+  MapReduceChunkResult,
+  MapReducePlan,
+} from '../types/index.js';
+import { TaskExecutor } from './TaskExecutor.js';
+import { ExecutionLogger } from './ExecutionLogger.js';
+import { TokenEstimator } from './TokenEstimator.js';
+
+export interface MapReduceOptions {
+  systemPromptFor: (context: string) => string; // system prompt of a map call, with one chunk as its context
+  contextTokens: number;
+  chunkTokenBudget: number; // also the budget for all partial answers in the synthesis call
+}
+
+/**
+ * Reply that marks a chunk as irrelevant; such partials are left out of the synthesis
+ */
+const NOT_RELEVANT = 'NOT RELEVANT';
+
+/**
+ * Runs a task over context that doesn't fit the model's window: each chunk is
+ * processed with the task (map), then the partial answers are merged by a
+ * final synthesis call (reduce) that uses the request's own system prompt.
+ */
+export class MapReduceExecutor {
+  private tokenEstimator = new TokenEstimator();
+
+  constructor(
+    private executor: TaskExecutor,
+    private logger: ExecutionLogger
+  ) {}
+
+  /**
+   * Run the map calls and the synthesis call, each with model fallback.
+   * Returns the attempt errors when every map call or the synthesis failed.
+   */
+  async run(
+    request: ExecutionRequest,
+    chunks: ContextChunk[],
+    fallbackModels: string[],
+    options: MapReduceOptions
+  ): Promise<ExecutionResult | FailedAttempt[]> {
+    const startTime = Date.now();
+    const errors: FailedAttempt[] = [];
+    const chunkResults: MapReduceChunkResult[] = [];
+    const partials: { chunk: ContextChunk; answer: string }[] = [];
+    let tokensUsed = 0;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let progressText = '';
+
+    const report = (delta: string) => {
+      if (request.onProgress) {
+        progressText += delta;
+        request.onProgress({ delta, content: progressText, tokens: completionTokens });
+      }
+    };
+
+    console.error(`[MapReduceExecutor.run] Processing ${chunks.length} chunks with model ${request.modelName}`);
+
+    for (const chunk of chunks) {
+      const { text, ...summary } = chunk;
+      const result = await this.executor.executeWithFallback({
+        ...request,
+        systemPrompt: options.systemPromptFor(text),
+        message: this.buildMapMessage(request.task.description, chunk, chunks.length),
+        format: undefined,
+        onProgress: undefined,
+      }, fallbackModels);
+
+      if (Array.isArray(result)) {
+        errors.push(...result);
+        const error = result.map(e => `${e.modelAttempted}: ${e.error}`).join('; ');
+        chunkResults.push({ ...summary, success: false, tokensUsed: 0, error });
+        this.logger.warn('Map step failed', { chunk: chunk.index, error });
+        report(`[chunk ${chunk.index}/${chunks.length}] lines ${chunk.startLine}-${chunk.endLine} failed\n`);
+        continue;
+      }
+
+      tokensUsed += result.tokensUsed;
+      promptTokens += result.promptTokens;
+      completionTokens += result.completionTokens;
+      chunkResults.push({ ...summary, success: true, model: result.modelUsed, tokensUsed: result.tokensUsed });
+      if (!result.response.trim().toUpperCase().startsWith(NOT_RELEVANT)) {
+        partials.push({ chunk, answer: result.response });
+      }
+      this.logger.info('Map step completed', { chunk: chunk.index, model: result.modelUsed, tokensUsed: result.tokensUsed });
+      report(`[chunk ${chunk.index}/${chunks.length}] lines ${chunk.startLine}-${chunk.endLine} done (${result.modelUsed})\n`);
+    }
+
+    if (chunkResults.every(chunk => !chunk.success)) {
+      return errors;
+    }
+
+    const reduce = await this.executor.executeWithFallback({
+      ...request,
+      message: this.buildReduceMessage(request.task.description, partials, chunks.length, options.chunkTokenBudget),
+      onProgress: request.onProgress
+        ? (progress) => request.onProgress!({ ...progress, content: progressText + progress.content })
+        : undefined,
+    }, fallbackModels);
+
+    if (Array.isArray(reduce)) {
+      this.logger.error('Synthesis step failed', { errors: reduce.map(e => e.error) });
+      return [...errors, ...reduce];
+    }
+
+    const plan: MapReducePlan = {
+      contextTokens: options.contextTokens,
+      chunkTokenBudget: options.chunkTokenBudget,
+      chunks: chunkResults,
+      reduceModel: reduce.modelUsed,
+    };
+    this.logger.info('Synthesis completed', {
+      model: reduce.modelUsed,
+      chunks: chunks.length,
+      relevantChunks: partials.length,
+      failedChunks: chunkResults.filter(chunk => !chunk.success).length,
+    });
+
+    return {
+      ...reduce,
+      executionTime: Date.now() - startTime,
+      tokensUsed: tokensUsed + reduce.tokensUsed,
+      promptTokens: promptTokens + reduce.promptTokens,
+      completionTokens: completionTokens + reduce.completionTokens,
+      metadata: {
+        ...reduce.metadata,
+        ...(errors.length > 0 ? { failedAttempts: [...errors, ...(reduce.metadata.failedAttempts || [])] } : {}),
+        mapReduce: plan,
+      },
+    };
+  }
+
+  /**
+   * Task message of a map call
+   */
+  private buildMapMessage(description: string, chunk: ContextChunk, total: number): string {
+    return `${description}\n\n` +
+      `The context is too large for a single request, so it has been split into ${total} parts. ` +
+      `The CONTEXT section contains part ${chunk.index} of ${total} (lines ${chunk.startLine}-${chunk.endLine}). ` +
+      'Work on the task using only this part: report the relevant findings, code and partial results, ' +
+      'quoting file names and line numbers where useful. ' +
+      `If this part contains nothing relevant to the task, reply only "${NOT_RELEVANT}".`;
+  }
+
+  /**
+   * Task message of the synthesis call; partial answers share the token budget evenly
+   */
+  private buildReduceMessage(
+    description: string,
+    partials: { chunk: ContextChunk; answer: string }[],
+    total: number,
+    tokenBudget: number
+  ): string {
+    const perPartial = Math.floor(tokenBudget / Math.max(1, partials.length));
+    const sections = partials.map(({ chunk, answer }) =>
+      `### Part ${chunk.index} of ${total} (lines ${chunk.startLine}-${chunk.endLine})\n${this.truncateToTokens(answer.trim(), perPartial)}`
+    );
+
+    return `${description}\n\n` +
+      `The context was too large for a single request, so it was split into ${total} parts and each part was processed separately. ` +
+      (sections.length > 0
+        ? `Partial answers from the ${sections.length} relevant parts:\n\n${sections.join('\n\n')}\n\n`
+        : 'None of the parts contained anything relevant.\n\n') +
+      'Combine the partial answers into one complete final answer to the task. ' +
+      'Merge duplicates, resolve contradictions, and answer as if you had seen the whole context; do not mention the parts.';
+  }
+
+  /**
+   * Cut text to roughly a number of tokens
+   */
+  private truncateToTokens(text: string, maxTokens: number): string {
+    const tokens = this.tokenEstimator.estimate(text);
+    if (tokens <= maxTokens) {
+      return text;
+    }
+    return `${text.substring(0, Math.floor(text.length * maxTokens / tokens))}\n... [partial answer truncated]`;
+  }
+}
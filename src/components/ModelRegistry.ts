@@ -1,39 +1,70 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
 import {
   ModelProfile,
-  ModelProfileConfig,
+  SelectionConfig,
+  BudgetConfig,
+  AgentConfig,
+  ClassifierConfig,
+  EnsembleConfig,
+  VerificationConfig,
+  CodeCheckConfig,
+  TestRunConfig,
+  RetryConfig,
+  Lexicon,
+  TaskType,
+  TaskTypeConfig,
+  ModelRequestSettings,
   ConfigurationError,
-  TaskDomain,
-  TaskComplexity,
 } from '../types/index.js';
+import { ConfigLoader } from './ConfigLoader.js';
 
 export class ModelRegistry {
   private profiles: Map<string, ModelProfile> = new Map();
+  private lastAvailabilityCheck: number = 0;
+  private warnings: string[] = [];
+  private selectionConfig: SelectionConfig = {};
+  private budgetConfig: BudgetConfig = {};
+  private agentConfig: AgentConfig = {};
+  private classifierConfig: ClassifierConfig = {};
+  private lexiconConfig: Lexicon = {};
+  private taskTypeConfigs: Record<string, TaskTypeConfig> = {};
+  private ensembleConfig: EnsembleConfig = {};
+  private verificationConfig: VerificationConfig = {};
+  private codeCheckConfig: CodeCheckConfig = {};
+  private testRunConfig: TestRunConfig = {};
+  private retryConfig: RetryConfig = {};
+  private configLoader = new ConfigLoader();
 
   /**
-   * Load model profiles from YAML configuration file
+   * Load model profiles from a YAML (or JSON) configuration file
    */
   async loadProfiles(configPath: string): Promise<void> {
     try {
-      const fileContent = await fs.readFile(configPath, 'utf-8');
-      const config = this.parseYAML(fileContent);
-
-      if (!config.models || typeof config.models !== 'object') {
-        throw new ConfigurationError('Invalid configuration format: missing or invalid "models" field');
-      }
+      const { config, warnings } = await this.configLoader.load(configPath);
 
+      const profiles = new Map<string, ModelProfile>();
       for (const [modelName, profileData] of Object.entries(config.models)) {
-        try {
-          const profile = this.validateAndCreateProfile(modelName, profileData);
-          this.profiles.set(modelName, profile);
-        } catch (error: any) {
-          console.warn(`Skipping invalid model profile "${modelName}": ${error.message}`);
-        }
+        profiles.set(modelName, {
+          name: modelName,
+          ...profileData,
+          available: false, // Will be set by verifyAvailability
+        });
       }
+      this.profiles = profiles;
+      this.selectionConfig = config.selection || {};
+      this.budgetConfig = config.budget || {};
+      this.agentConfig = config.agent || {};
+      this.classifierConfig = config.classifier || {};
+      this.lexiconConfig = config.lexicon || {};
+      this.taskTypeConfigs = config.taskTypes || {};
+      this.ensembleConfig = config.ensemble || {};
+      this.verificationConfig = config.verification || {};
+      this.codeCheckConfig = config.codeChecks || {};
+      this.testRunConfig = config.testRun || {};
+      this.retryConfig = config.retry || {};
 
-      if (this.profiles.size === 0) {
-        throw new ConfigurationError('No valid model profiles found in configuration');
+      this.warnings = warnings.map(w => this.configLoader.formatDiagnostic(configPath, w));
+      for (const warning of this.warnings) {
+        console.error(`Configuration warning: ${warning}`);
       }
 
       console.error(`Loaded ${this.profiles.size} model profiles from configuration`);
@@ -46,180 +77,205 @@ export class ModelRegistry {
   }
 
   /**
-   * Verify model availability via Ollama Remote MCP
-   * Note: This would integrate with the actual MCP client in production
+   * Get warnings produced while loading the configuration
    */
-  async verifyAvailability(availableModels: string[]): Promise<void> {
-    for (const [modelName, profile] of this.profiles.entries()) {
-      profile.available = availableModels.includes(modelName);
-    }
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
 
-    const availableCount = Array.from(this.profiles.values()).filter(p => p.available).length;
-    console.error(`${availableCount}/${this.profiles.size} models available on Ollama server`);
+  /**
+   * Get model selection settings (strategy and scoring weights)
+   */
+  getSelectionConfig(): SelectionConfig {
+    return this.selectionConfig;
   }
 
   /**
-   * Get a specific model profile
+   * Get cost budget settings
    */
-  getProfile(modelName: string): ModelProfile | null {
-    return this.profiles.get(modelName) || null;
+  getBudgetConfig(): BudgetConfig {
+    return this.budgetConfig;
   }
 
   /**
-   * Get all model profiles
+   * Get agent loop settings (step limit, command timeout, observation size)
    */
-  getAllProfiles(): ModelProfile[] {
-    return Array.from(this.profiles.values());
+  getAgentConfig(): AgentConfig {
+    return this.agentConfig;
   }
 
   /**
-   * Get only available model profiles
+   * Get LLM task classifier settings
    */
-  getAvailableProfiles(): ModelProfile[] {
-    return Array.from(this.profiles.values()).filter(p => p.available);
+  getClassifierConfig(): ClassifierConfig {
+    return this.classifierConfig;
   }
 
   /**
-   * Simple YAML parser (basic implementation)
-   * In production, use a proper YAML library like js-yaml
+   * Get ensemble execution settings
    */
-  private parseYAML(content: string): ModelProfileConfig {
-    try {
-      // This is a simplified YAML parser for the specific structure we need
-      // In production, use a library like 'js-yaml'
-      const lines = content.split('\n');
-      const config: ModelProfileConfig = { models: {} };
-      
-      let currentModel: string | null = null;
-      let currentField: string | null = null;
-      let indentLevel = 0;
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed || trimmed.startsWith('#')) continue;
-
-        const indent = line.search(/\S/);
-        
-        if (indent === 0 && trimmed === 'models:') {
-          continue;
-        }
-
-        if (indent === 2 && trimmed.endsWith(':')) {
-          currentModel = trimmed.slice(0, -1);
-          config.models[currentModel] = {} as any;
-          continue;
-        }
-
-        if (currentModel && indent === 4) {
-          if (trimmed.startsWith('-')) {
-            // Array item
-            const value = trimmed.slice(1).trim();
-            if (currentField) {
-              if (!Array.isArray((config.models[currentModel] as any)[currentField])) {
-                (config.models[currentModel] as any)[currentField] = [];
-              }
-              (config.models[currentModel] as any)[currentField].push(value);
-            }
-          } else if (trimmed.includes(':')) {
-            // Key-value pair
-            const [key, ...valueParts] = trimmed.split(':');
-            const value = valueParts.join(':').trim();
-            currentField = key.trim();
-            
-            if (value) {
-              (config.models[currentModel] as any)[currentField] = this.parseValue(value);
-            } else {
-              (config.models[currentModel] as any)[currentField] = [];
-            }
-          }
-        } else if (currentModel && indent === 6 && trimmed.startsWith('-')) {
-          // Nested array item
-          const value = trimmed.slice(1).trim();
-          if (currentField && Array.isArray((config.models[currentModel] as any)[currentField])) {
-            (config.models[currentModel] as any)[currentField].push(value);
-          }
-        }
-      }
+  getEnsembleConfig(): EnsembleConfig {
+    return this.ensembleConfig;
+  }
 
-      return config;
-    } catch (error: any) {
-      throw new ConfigurationError(`Failed to parse YAML: ${error.message}`);
-    }
+  /**
+   * Get answer verification settings
+   */
+  getVerificationConfig(): VerificationConfig {
+    return this.verificationConfig;
   }
 
   /**
-   * Parse YAML value to appropriate type
+   * Get syntax check settings for code in responses
    */
-  private parseValue(value: string): any {
-    if (value === 'true') return true;
-    if (value === 'false') return false;
-    if (value === 'null') return null;
-    if (/^-?\d+$/.test(value)) return parseInt(value, 10);
-    if (/^-?\d+\.\d+$/.test(value)) return parseFloat(value);
-    return value;
+  getCodeCheckConfig(): CodeCheckConfig {
+    return this.codeCheckConfig;
   }
 
   /**
-   * Validate and create a model profile from configuration data
+   * Get settings for running generated tests
    */
-  private validateAndCreateProfile(modelName: string, data: any): ModelProfile {
-    const requiredFields = [
-      'provider',
-      'domains',
-      'maxComplexity',
-      'capabilities',
-      'contextWindow',
-      'estimatedLatency',
-      'costPerToken',
-      'strengths',
-      'weaknesses',
-    ];
+  getTestRunConfig(): TestRunConfig {
+    return this.testRunConfig;
+  }
 
-    for (const field of requiredFields) {
-      if (!(field in data)) {
-        throw new ConfigurationError(`Missing required field: ${field}`);
-      }
+  /**
+   * Get retry policies per error class
+   */
+  getRetryConfig(): RetryConfig {
+    return this.retryConfig;
+  }
+
+  /**
+   * Get keyword lexicon extensions for task parsing
+   */
+  getLexiconConfig(): Lexicon {
+    return this.lexiconConfig;
+  }
+
+  /**
+   * Get config-defined task types and overrides of built-in ones
+   */
+  getTaskTypeConfigs(): Record<string, TaskTypeConfig> {
+    return this.taskTypeConfigs;
+  }
+
+  /**
+   * Get the configured prompt template of a task type for a model, if any
+   */
+  getTaskTemplate(taskType: TaskType, modelName: string): string | undefined {
+    const config = this.taskTypeConfigs[taskType];
+    return config?.modelTemplates?.[modelName] ?? config?.template;
+  }
+
+  /**
+   * Verify model availability against the model names reported by the Ollama server.
+   * Names are compared with tags normalized, so `llama3` matches `llama3:latest`.
+   */
+  async verifyAvailability(availableModels: string[]): Promise<void> {
+    const serverModels = new Set(availableModels.map(name => ModelRegistry.normalizeModelName(name)));
+
+    for (const [modelName, profile] of this.profiles.entries()) {
+      profile.available = serverModels.has(ModelRegistry.normalizeModelName(modelName));
     }
 
-    // Validate domains
-    if (!Array.isArray(data.domains) || data.domains.length === 0) {
-      throw new ConfigurationError('domains must be a non-empty array');
+    this.lastAvailabilityCheck = Date.now();
+
+    const availableCount = Array.from(this.profiles.values()).filter(p => p.available).length;
+    console.error(`${availableCount}/${this.profiles.size} models available on Ollama server`);
+
+    const missing = Array.from(this.profiles.values()).filter(p => !p.available).map(p => p.name);
+    if (missing.length > 0) {
+      console.error(`Configured models not found on Ollama server: ${missing.join(', ')}`);
     }
+  }
 
-    // Validate capabilities
-    if (!Array.isArray(data.capabilities) || data.capabilities.length === 0) {
-      throw new ConfigurationError('capabilities must be a non-empty array');
+  /**
+   * Take over the availability known to another registry, e.g. the one a config
+   * reload replaces. Models the other registry doesn't know are assumed available.
+   */
+  copyAvailability(previous: ModelRegistry): void {
+    for (const [modelName, profile] of this.profiles.entries()) {
+      profile.available = previous.getProfile(modelName)?.available ?? true;
     }
+    this.lastAvailabilityCheck = previous.lastAvailabilityCheck;
+  }
 
-    // Validate numeric fields
-    if (typeof data.contextWindow !== 'number' || data.contextWindow <= 0) {
-      throw new ConfigurationError('contextWindow must be a positive number');
+  /**
+   * Mark a single model as unavailable (e.g. after a "model not found" response)
+   */
+  markUnavailable(modelName: string): void {
+    const normalized = ModelRegistry.normalizeModelName(modelName);
+    for (const [name, profile] of this.profiles.entries()) {
+      if (ModelRegistry.normalizeModelName(name) === normalized) {
+        profile.available = false;
+      }
     }
-    if (typeof data.estimatedLatency !== 'number' || data.estimatedLatency < 0) {
-      throw new ConfigurationError('estimatedLatency must be a non-negative number');
+  }
+
+  /**
+   * Check whether availability information is older than the given TTL
+   */
+  isAvailabilityStale(ttl: number): boolean {
+    return this.lastAvailabilityCheck === 0 || Date.now() - this.lastAvailabilityCheck > ttl;
+  }
+
+  /**
+   * Normalize a model name for comparison: lowercase, and an implicit `:latest` tag
+   */
+  static normalizeModelName(modelName: string): string {
+    const trimmed = modelName.trim().toLowerCase();
+    return trimmed.includes(':') ? trimmed : `${trimmed}:latest`;
+  }
+
+  /**
+   * Get a specific model profile
+   */
+  getProfile(modelName: string): ModelProfile | null {
+    const exact = this.profiles.get(modelName);
+    if (exact) {
+      return exact;
     }
-    if (typeof data.costPerToken !== 'number' || data.costPerToken < 0) {
-      throw new ConfigurationError('costPerToken must be a non-negative number');
+
+    const normalized = ModelRegistry.normalizeModelName(modelName);
+    for (const [name, profile] of this.profiles.entries()) {
+      if (ModelRegistry.normalizeModelName(name) === normalized) {
+        return profile;
+      }
     }
+    return null;
+  }
 
-    // Validate complexity
-    const validComplexities: TaskComplexity[] = ['simple', 'moderate', 'complex', 'expert'];
-    if (!validComplexities.includes(data.maxComplexity)) {
-      throw new ConfigurationError(`Invalid maxComplexity: ${data.maxComplexity}`);
+  /**
+   * Get the request settings (backend, options, keep_alive, format) configured for a model.
+   * Unconfigured models get empty settings, i.e. the client defaults.
+   */
+  getRequestSettings(modelName: string): ModelRequestSettings {
+    const profile = this.getProfile(modelName);
+    if (!profile) {
+      return {};
     }
 
     return {
-      name: modelName,
-      provider: data.provider,
-      domains: data.domains as TaskDomain[],
-      maxComplexity: data.maxComplexity as TaskComplexity,
-      capabilities: data.capabilities,
-      contextWindow: data.contextWindow,
-      estimatedLatency: data.estimatedLatency,
-      costPerToken: data.costPerToken,
-      strengths: data.strengths || [],
-      weaknesses: data.weaknesses || [],
-      available: false, // Will be set by verifyAvailability
+      backend: profile.backend,
+      options: profile.options,
+      keepAlive: profile.keepAlive,
+      format: profile.format,
+      prompt: profile.prompt,
     };
   }
+
+  /**
+   * Get all model profiles
+   */
+  getAllProfiles(): ModelProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Get only available model profiles
+   */
+  getAvailableProfiles(): ModelProfile[] {
+    return Array.from(this.profiles.values()).filter(p => p.available);
+  }
 }
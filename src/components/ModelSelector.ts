@@ -4,37 +4,61 @@ import {
   ModelScore,
   SelectionResult,
   TaskComplexity,
+  ModelPerformanceStats,
+  SelectionOptions,
+  SelectionStrategy,
+  ScoringWeights,
   AvailabilityError,
+  ConfigurationError,
 } from '../types/index.js';
 import { ModelRegistry } from './ModelRegistry.js';
+import { ModelStatsStore } from './ModelStatsStore.js';
 
 export class ModelSelector {
   private registry: ModelRegistry;
+  private statsStore?: ModelStatsStore;
 
-  constructor(registry: ModelRegistry) {
+  constructor(registry: ModelRegistry, statsStore?: ModelStatsStore) {
     this.registry = registry;
+    this.statsStore = statsStore;
   }
 
+  /**
+   * Weight presets for the named selection strategies (percentages)
+   */
+  private static readonly STRATEGY_WEIGHTS: Record<SelectionStrategy, ScoringWeights> = {
+    balanced: { domain: 30, complexity: 25, capability: 25, context: 10, latency: 10, cost: 0 },
+    quality: { domain: 35, complexity: 30, capability: 30, context: 5, latency: 0, cost: 0 },
+    fastest: { domain: 20, complexity: 15, capability: 15, context: 10, latency: 40, cost: 0 },
+    cheapest: { domain: 20, complexity: 15, capability: 15, context: 10, latency: 0, cost: 40 },
+  };
+
   /**
    * Select the best model for a given task
    */
-  selectModel(task: ParsedTask): SelectionResult {
+  selectModel(task: ParsedTask, options: SelectionOptions = {}): SelectionResult {
     const availableProfiles = this.registry.getAvailableProfiles();
 
+    if (options.pinnedModel) {
+      return this.selectPinnedModel(task, options.pinnedModel, availableProfiles);
+    }
+
     if (availableProfiles.length === 0) {
       throw new AvailabilityError(
         'No models available. Please ensure Ollama Remote MCP is running and models are configured.'
       );
     }
 
+    const { strategy, weights, source } = this.resolveWeights(task, options);
+
     // Score all available models
-    const scores = availableProfiles.map(profile => this.scoreModel(task, profile));
+    const scores = availableProfiles.map(profile => this.scoreModel(task, profile, weights, availableProfiles));
 
-    // Sort by score (descending), then by latency (ascending) for tie-breaking
+    // Sort by score (descending), then by latency score (descending) for tie-breaking
     scores.sort((a, b) => {
       if (Math.abs(a.score - b.score) < 0.01) {
-        // Tie: prefer faster model
-        return a.latencyScore - b.latencyScore;
+        // Tie: prefer faster model (higher latency score)
+        return b.latencyScore - a.latencyScore;
       }
       return b.score - a.score;
     });
@@ -42,39 +66,136 @@ export class ModelSelector {
     const selectedScore = scores[0];
     const alternatives = scores.slice(1, 4); // Top 3 alternatives
 
-    const reasoning = this.generateReasoning(task, selectedScore, alternatives);
+    const reasoning = [
+      this.describeStrategy(strategy, weights, source),
+      this.generateReasoning(task, selectedScore, alternatives),
+    ].join(' ');
 
     return {
       selectedModel: selectedScore.modelName,
       score: selectedScore,
       alternatives,
       reasoning,
+      strategy,
     };
   }
 
   /**
-   * Score a model against task requirements
-   * 
-   * Scoring weights:
-   * - Domain Match: 30%
-   * - Complexity Match: 25%
-   * - Capability Match: 25%
-   * - Context Match: 10%
-   * - Latency Score: 10%
+   * Use the model pinned by the caller. No fallbacks are offered, since the
+   * caller asked for this model specifically.
    */
-  private scoreModel(task: ParsedTask, profile: ModelProfile): ModelScore {
+  private selectPinnedModel(
+    task: ParsedTask,
+    pinnedModel: string,
+    availableProfiles: ModelProfile[]
+  ): SelectionResult {
+    const profile = this.registry.getProfile(pinnedModel);
+    if (!profile) {
+      throw new AvailabilityError(`Pinned model "${pinnedModel}" is not configured in the model registry`);
+    }
+    if (!profile.available) {
+      throw new AvailabilityError(`Pinned model "${pinnedModel}" is not available on the Ollama server`);
+    }
+
+    const { strategy, weights } = this.resolveWeights(task, {});
+    const score = this.scoreModel(task, profile, weights, availableProfiles);
+
+    return {
+      selectedModel: profile.name,
+      score,
+      alternatives: [],
+      reasoning: `Model pinned by caller: ${profile.name}. ` + this.generateReasoning(task, score, []),
+      strategy,
+    };
+  }
+
+  /**
+   * Resolve the strategy and normalized weights for a task.
+   * A strategy requested by the caller uses its preset as-is; otherwise the
+   * configured strategy is used and the weights from models.yaml (global, then
+   * per task type) are applied on top of its preset.
+   */
+  private resolveWeights(
+    task: ParsedTask,
+    options: SelectionOptions
+  ): { strategy: SelectionStrategy; weights: ScoringWeights; source: string } {
+    const config = this.registry.getSelectionConfig();
+    const taskTypeConfig = config.taskTypes?.[task.taskType];
+
+    let strategy: SelectionStrategy;
+    let weights: ScoringWeights;
+    let source: string;
+
+    if (options.strategy) {
+      strategy = options.strategy;
+      weights = { ...ModelSelector.STRATEGY_WEIGHTS[strategy] };
+      source = 'requested by caller';
+    } else {
+      strategy = taskTypeConfig?.strategy || config.strategy || 'balanced';
+      weights = {
+        ...ModelSelector.STRATEGY_WEIGHTS[strategy],
+        ...config.weights,
+        ...taskTypeConfig?.weights,
+      };
+      source = taskTypeConfig?.strategy || taskTypeConfig?.weights
+        ? `configured for ${task.taskType} tasks`
+        : config.strategy || config.weights ? 'configured default' : 'default';
+    }
+
+    // Approaching the cost budget: ramp up the cost weight so cheaper models win
+    const preferCheaperAt = this.registry.getBudgetConfig().preferCheaperAt ?? 0.5;
+    const pressure = options.budgetPressure || 0;
+    if (pressure > preferCheaperAt) {
+      const ramp = Math.min(1, (pressure - preferCheaperAt) / Math.max(1 - preferCheaperAt, 0.01));
+      const baseTotal = Object.values(weights).reduce((sum, w) => sum + w, 0);
+      weights.cost += baseTotal * ramp;
+      source += `; budget ${Math.round(pressure * 100)}% used, preferring cheaper models`;
+    }
+
+    const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+    if (total <= 0) {
+      throw new ConfigurationError('Scoring weights must not all be zero');
+    }
+
+    const normalized = Object.fromEntries(
+      Object.entries(weights).map(([key, value]) => [key, value / total])
+    ) as unknown as ScoringWeights;
+
+    return { strategy, weights: normalized, source };
+  }
+
+  /**
+   * Score a model against task requirements using the given (normalized) weights.
+   * The balanced default is domain 30%, complexity 25%, capability 25%,
+   * context 10%, latency 10%, cost 0%.
+   *
+   * The weighted total is then scaled by observed reliability, so a model that
+   * keeps failing drops in the ranking (down to 40% of its score).
+   */
+  private scoreModel(
+    task: ParsedTask,
+    profile: ModelProfile,
+    weights: ScoringWeights,
+    candidates: ModelProfile[]
+  ): ModelScore {
+    const stats = this.statsStore?.getStats(profile.name, task.taskType) || null;
+
     const domainMatch = this.calculateDomainMatch(task, profile);
     const complexityMatch = this.calculateComplexityMatch(task, profile);
     const capabilityMatch = this.calculateCapabilityMatch(task, profile);
     const contextMatch = this.calculateContextMatch(task, profile);
-    const latencyScore = this.calculateLatencyScore(profile);
-
-    const totalScore =
-      domainMatch * 0.3 +
-      complexityMatch * 0.25 +
-      capabilityMatch * 0.25 +
-      contextMatch * 0.1 +
-      latencyScore * 0.1;
+    const latencyScore = this.calculateLatencyScore(profile, stats);
+    const costScore = this.calculateCostScore(profile, candidates);
+    const reliabilityScore = this.calculateReliabilityScore(stats);
+
+    const weightedScore =
+      domainMatch * weights.domain +
+      complexityMatch * weights.complexity +
+      capabilityMatch * weights.capability +
+      contextMatch * weights.context +
+      latencyScore * weights.latency +
+      costScore * weights.cost;
+    const totalScore = weightedScore * (0.4 + 0.6 * (reliabilityScore / 100));
 
     const justification = this.generateJustification(
       profile,
@@ -82,7 +203,8 @@ export class ModelSelector {
       complexityMatch,
       capabilityMatch,
       contextMatch,
-      latencyScore
+      latencyScore,
+      stats
     );
 
     return {
@@ -93,6 +215,8 @@ export class ModelSelector {
       capabilityMatch: Math.round(capabilityMatch * 100) / 100,
       contextMatch: Math.round(contextMatch * 100) / 100,
       latencyScore: Math.round(latencyScore * 100) / 100,
+      costScore: Math.round(costScore * 100) / 100,
+      reliabilityScore: Math.round(reliabilityScore * 100) / 100,
       justification,
     };
   }
@@ -156,7 +280,9 @@ export class ModelSelector {
    * Calculate context window match score (0-100)
    */
   private calculateContextMatch(task: ParsedTask, profile: ModelProfile): number {
-    const estimatedTaskSize = task.description.length + task.contextSize;
+    // Compare in tokens: contextWindow is a token limit, and character counts
+    // badly misjudge CJK text (roughly one token per character)
+    const estimatedTaskSize = task.estimatedTokens;
 
     if (estimatedTaskSize <= profile.contextWindow * 0.5) {
       // Well within limit
@@ -176,13 +302,13 @@ export class ModelSelector {
   /**
    * Calculate latency score (0-100, lower latency = higher score)
    */
-  private calculateLatencyScore(profile: ModelProfile): number {
+  private calculateLatencyScore(profile: ModelProfile, stats: ModelPerformanceStats | null): number {
     // Normalize latency (assuming 10000ms is very slow, 1000ms is very fast)
     const maxLatency = 10000;
     const minLatency = 1000;
 
     const normalizedLatency = Math.min(
-      Math.max(profile.estimatedLatency, minLatency),
+      Math.max(this.getEffectiveLatency(profile, stats), minLatency),
       maxLatency
     );
 
@@ -191,6 +317,50 @@ export class ModelSelector {
     return Math.max(0, Math.min(100, score));
   }
 
+  /**
+   * Calculate cost score (0-100, cheapest candidate = 100, most expensive = 0)
+   */
+  private calculateCostScore(profile: ModelProfile, candidates: ModelProfile[]): number {
+    const costs = candidates.map(p => p.costPerToken);
+    const minCost = Math.min(...costs);
+    const maxCost = Math.max(...costs);
+
+    if (maxCost === minCost) {
+      return 100;
+    }
+
+    return 100 - ((profile.costPerToken - minCost) / (maxCost - minCost)) * 100;
+  }
+
+  /**
+   * Blend the configured latency with the measured median latency.
+   * Measurements take over gradually, up to 80% weight after 20 successful runs.
+   */
+  private getEffectiveLatency(profile: ModelProfile, stats: ModelPerformanceStats | null): number {
+    if (!stats || stats.latencyP50 === 0) {
+      return profile.estimatedLatency;
+    }
+
+    const measuredWeight = Math.min(stats.samples / 20, 1) * 0.8;
+    return profile.estimatedLatency * (1 - measuredWeight) + stats.latencyP50 * measuredWeight;
+  }
+
+  /**
+   * Calculate reliability score (0-100) from the observed success and timeout rates.
+   * Timeouts count half again as much as other failures, since each one costs the
+   * full timeout before the fallback starts. Models without history are assumed
+   * reliable; confidence grows with samples.
+   */
+  private calculateReliabilityScore(stats: ModelPerformanceStats | null): number {
+    if (!stats) {
+      return 100;
+    }
+
+    const confidence = Math.min(stats.samples / 5, 1);
+    const penalty = Math.min(1, (1 - stats.successRate) + 0.5 * stats.timeoutRate);
+    return 100 - confidence * penalty * 100;
+  }
+
   /**
    * Generate justification for a model score
    */
@@ -200,7 +370,8 @@ export class ModelSelector {
     complexityMatch: number,
     capabilityMatch: number,
     contextMatch: number,
-    latencyScore: number
+    latencyScore: number,
+    stats: ModelPerformanceStats | null
   ): string {
     const parts: string[] = [];
 
@@ -228,9 +399,27 @@ export class ModelSelector {
       parts.push(`missing some capabilities`);
     }
 
+    if (stats) {
+      parts.push(
+        `observed ${Math.round(stats.successRate * 100)}% success over ${stats.samples} runs ` +
+        `(${stats.timeoutRate > 0 ? `${Math.round(stats.timeoutRate * 100)}% timeouts, ` : ''}p50 ${Math.round(stats.latencyP50)}ms)`
+      );
+    }
+
     return parts.join(', ');
   }
 
+  /**
+   * Describe the applied strategy and weights
+   */
+  private describeStrategy(strategy: SelectionStrategy, weights: ScoringWeights, source: string): string {
+    const weightList = Object.entries(weights)
+      .filter(([, value]) => value > 0)
+      .map(([key, value]) => `${key} ${Math.round(value * 100)}%`)
+      .join(', ');
+    return `Strategy: ${strategy} (${source}; weights: ${weightList}).`;
+  }
+
   /**
    * Generate selection reasoning
    */
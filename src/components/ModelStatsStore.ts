@@ -0,0 +1,186 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AuxiliaryStatsTaskType, ExecutionOutcome, ModelPerformanceStats } from '../types/index.js';
+
+/**
+ * Buckets of verifier, judge and repair calls: recorded, but not part of the model-wide aggregate
+ */
+export const AUXILIARY_STATS_TASK_TYPES: AuxiliaryStatsTaskType[] = ['repair', 'verification', 'ensemble_judge'];
+
+interface StatsBucket {
+  latencies: number[];
+  outcomes: ExecutionOutcome[];
+  updatedAt: number;
+}
+
+interface StatsFile {
+  version: 1;
+  models: {
+    [modelName: string]: {
+      [taskType: string]: StatsBucket;
+    };
+  };
+}
+
+export class ModelStatsStore {
+  private data: StatsFile = { version: 1, models: {} };
+  private saveTimer?: ReturnType<typeof setTimeout>;
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * Minimum task-type samples before task-type stats are preferred over the model-wide aggregate
+   */
+  private static readonly MIN_TASK_TYPE_SAMPLES = 3;
+
+  /**
+   * @param filePath JSON file the stats are persisted to (in-memory only when omitted)
+   * @param windowSize Number of most recent executions kept per model and task type
+   */
+  constructor(private filePath?: string, private windowSize: number = 50) {}
+
+  /**
+   * Load persisted stats from disk. A missing or corrupt file starts empty.
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const parsed = JSON.parse(content);
+      if (parsed?.version === 1 && parsed.models && typeof parsed.models === 'object') {
+        this.data = parsed;
+      }
+      console.error(`[ModelStatsStore] Loaded stats for ${Object.keys(this.data.models).length} models from ${this.filePath}`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`[ModelStatsStore] Ignoring unreadable stats file ${this.filePath}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Record the outcome of one execution attempt
+   */
+  record(modelName: string, taskType: string, outcome: ExecutionOutcome, latency: number): void {
+    const modelStats = this.data.models[modelName] || (this.data.models[modelName] = {});
+    const bucket = modelStats[taskType] || (modelStats[taskType] = { latencies: [], outcomes: [], updatedAt: 0 });
+
+    bucket.outcomes.push(outcome);
+    if (outcome === 'success') {
+      bucket.latencies.push(latency);
+    }
+    bucket.outcomes = bucket.outcomes.slice(-this.windowSize);
+    bucket.latencies = bucket.latencies.slice(-this.windowSize);
+    bucket.updatedAt = Date.now();
+
+    this.scheduleSave();
+  }
+
+  /**
+   * Get rolling stats for a model, for a task type when enough samples exist,
+   * otherwise aggregated across all task types except the auxiliary ones
+   */
+  getStats(modelName: string, taskType?: string): ModelPerformanceStats | null {
+    const modelStats = this.data.models[modelName];
+    if (!modelStats) {
+      return null;
+    }
+
+    const taskBucket = taskType ? modelStats[taskType] : undefined;
+    if (taskBucket && taskBucket.outcomes.length >= ModelStatsStore.MIN_TASK_TYPE_SAMPLES) {
+      return this.summarize(taskBucket.latencies, taskBucket.outcomes);
+    }
+
+    const buckets = Object.entries(modelStats)
+      .filter(([name]) => !AUXILIARY_STATS_TASK_TYPES.includes(name as AuxiliaryStatsTaskType))
+      .map(([, bucket]) => bucket);
+    return this.summarize(
+      buckets.flatMap(b => b.latencies),
+      buckets.flatMap(b => b.outcomes)
+    );
+  }
+
+  /**
+   * Write pending stats to disk immediately, or wait for a save in progress
+   */
+  async flush(): Promise<void> {
+    if (!this.saveTimer) {
+      await this.saving;
+      return;
+    }
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    await this.save();
+  }
+
+  /**
+   * Compute percentiles and rates for a set of samples
+   */
+  private summarize(latencies: number[], outcomes: ExecutionOutcome[]): ModelPerformanceStats | null {
+    if (outcomes.length === 0) {
+      return null;
+    }
+
+    const sorted = [...latencies].sort((a, b) => a - b);
+    const successes = outcomes.filter(o => o === 'success').length;
+    const timeouts = outcomes.filter(o => o === 'timeout').length;
+
+    return {
+      samples: outcomes.length,
+      latencyP50: this.percentile(sorted, 0.5),
+      latencyP90: this.percentile(sorted, 0.9),
+      successRate: successes / outcomes.length,
+      timeoutRate: timeouts / outcomes.length,
+    };
+  }
+
+  /**
+   * Nearest-rank percentile of a sorted array (0 when empty)
+   */
+  private percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) {
+      return 0;
+    }
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+    return sorted[index];
+  }
+
+  /**
+   * Debounce writes so a burst of executions results in one disk write
+   */
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.save();
+    }, 1000);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Persist stats atomically (write to a temp file, then rename)
+   */
+  private async save(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    const filePath = this.filePath;
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(this.data, null, 2), 'utf-8');
+        await fs.rename(tmpPath, filePath);
+      } catch (error: any) {
+        console.error(`[ModelStatsStore] Failed to save stats to ${filePath}: ${error.message}`);
+      }
+    });
+    await this.saving;
+  }
+}
@@ -0,0 +1,410 @@
+import * as fs from 'fs/promises';
+import {
+  DiffHunk,
+  FilePatch,
+  HunkResult,
+  PatchMode,
+  PatchResult,
+} from '../types/index.js';
+import { WorkspaceTools } from './WorkspaceTools.js';
+
+interface FileChange {
+  file: string;
+  resolved: string;
+  content: string | null; // null deletes the file
+  original: string | null; // content before the patch, null if the file is new
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * File header lines in context: collected files (FILE: path (lines 1-9 of 9)),
+ * diffs and "// file: path" comments
+ */
+const CONTEXT_FILE_HEADERS = [
+  /^FILE: (.+?)(?: \(lines \d+-\d+ of \d+\))?$/,
+  /^diff --git a\/(\S+) b\/\S+/,
+  /^(?:---|\+\+\+) [ab]\/(\S+)/,
+  /^(?:\/\/|#) ?[Ff]ile: (\S+)/,
+];
+
+/**
+ * Extracts unified diffs from model responses and applies them to the workspace
+ * with `git apply` semantics: a patch is written only if every hunk applies,
+ * hunks may match at an offset from their header position, and nothing is
+ * written in check mode. Later patches of the same file apply on top of earlier
+ * ones; renames are rejected. Writes go through the workspace tools, so they are
+ * checked and logged by the sandbox policy; if one fails, the files already
+ * written are restored.
+ */
+export class PatchApplier {
+  constructor(private tools: WorkspaceTools) {}
+
+  /**
+   * Extract the unified diff from a response (```diff / ```patch block, or a bare diff)
+   */
+  extractDiff(response: string): string | null {
+    const fenced = [...response.matchAll(/```(?:diff|patch)\s*\n([\s\S]*?)```/g)].map(match => match[1]);
+    if (fenced.length > 0) {
+      return fenced.join('\n');
+    }
+
+    const start = response.search(/^(diff --git |--- )/m);
+    return start === -1 ? null : response.slice(start);
+  }
+
+  /**
+   * Parse a unified diff into per-file patches.
+   * Hunk line counts in headers are not trusted (models often get them wrong);
+   * a hunk ends at the next hunk or file header.
+   */
+  parse(diff: string): FilePatch[] {
+    const patches: FilePatch[] = [];
+    const lines = diff.replace(/\r\n/g, '\n').split('\n');
+    let current: FilePatch | null = null;
+    let hunk: DiffHunk | null = null;
+    // Set by git's "rename from/to" header lines; a following ---/+++ pair belongs to it
+    let renameFrom: string | null = null;
+    let renamed: FilePatch | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+        if (renamed) {
+          current = renamed;
+        } else {
+          current = {
+            oldPath: this.parsePath(line.slice(4)),
+            newPath: this.parsePath(lines[i + 1].slice(4)),
+            hunks: [],
+          };
+          patches.push(current);
+        }
+        renamed = null;
+        hunk = null;
+        i++;
+        continue;
+      }
+
+      const rename = hunk ? null : line.match(/^rename (from|to) (.+)$/);
+      if (rename) {
+        if (rename[1] === 'from') {
+          renameFrom = this.parsePath(rename[2]);
+        } else if (renameFrom) {
+          renamed = { oldPath: renameFrom, newPath: this.parsePath(rename[2]), hunks: [] };
+          patches.push(renamed);
+          renameFrom = null;
+        }
+        continue;
+      }
+
+      const header = line.match(HUNK_HEADER);
+      if (header && current) {
+        hunk = {
+          oldStart: parseInt(header[1], 10),
+          oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+          newStart: parseInt(header[3], 10),
+          newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+          header: line,
+          lines: [],
+        };
+        current.hunks.push(hunk);
+        continue;
+      }
+
+      if (!hunk || line.startsWith('diff --git ') || line.startsWith('index ')) {
+        if (line.startsWith('diff --git ')) {
+          hunk = null;
+          renameFrom = null;
+          renamed = null;
+        }
+        continue;
+      }
+
+      if (line.startsWith('\\')) {
+        continue; // "\ No newline at end of file"
+      }
+      if (line === '') {
+        hunk.lines.push(' '); // blank context line whose leading space was stripped
+      } else if (line[0] === ' ' || line[0] === '-' || line[0] === '+') {
+        hunk.lines.push(line);
+      }
+    }
+
+    // Trailing blank lines are usually the end of the response, not context
+    for (const patch of patches) {
+      for (const h of patch.hunks) {
+        while (h.lines.length > 0 && h.lines[h.lines.length - 1] === ' ') {
+          h.lines.pop();
+        }
+      }
+    }
+
+    return patches.filter(patch => patch.hunks.length > 0 || patch.oldPath !== patch.newPath);
+  }
+
+  /**
+   * Check (and in apply mode, write) a diff against the workspace
+   */
+  async apply(diff: string, mode: PatchMode, context?: string): Promise<PatchResult> {
+    const patches = this.parse(diff);
+    const result: PatchResult = {
+      mode,
+      written: false,
+      files: patches.map(patch => (patch.newPath ?? patch.oldPath)!),
+      hunks: [],
+      applied: 0,
+      rejected: 0,
+      conflicts: 0,
+      filesOutsideContext: [],
+    };
+
+    if (patches.length === 0) {
+      result.error = 'No file changes found in the diff';
+      return result;
+    }
+
+    // Files the caller didn't show the model are likely hallucinated paths
+    if (context !== undefined) {
+      result.filesOutsideContext = this.findFilesOutsideContext(result.files, context);
+    }
+
+    // Latest in-memory content per file, so a second patch of a file applies on top of the first
+    const changes = new Map<string, FileChange>();
+    for (const patch of patches) {
+      const change = await this.applyFilePatch(patch, result.hunks, changes);
+      if (change) {
+        changes.set(change.resolved, change);
+      }
+    }
+
+    for (const hunk of result.hunks) {
+      if (hunk.status === 'applied') result.applied++;
+      else if (hunk.status === 'rejected') result.rejected++;
+      else result.conflicts++;
+    }
+
+    if (mode === 'apply' && result.rejected === 0 && result.conflicts === 0) {
+      const written: FileChange[] = [];
+      try {
+        for (const change of changes.values()) {
+          // A file added and then deleted by the same diff never reaches the disk
+          if (change.content !== null || change.original !== null) {
+            await this.write(change.file, change.content);
+            written.push(change);
+          }
+        }
+        result.written = true;
+      } catch (error: any) {
+        const unrestored = await this.restore(written);
+        result.error = unrestored.length === 0
+          ? `Writing the patch failed, the files already written were restored: ${error.message}`
+          : `Writing the patch failed: ${error.message}; could not restore ${unrestored.join(', ')}`;
+      }
+    }
+
+    console.error(`[PatchApplier.apply] ${mode}: ${result.applied} applied, ${result.rejected} rejected, ${result.conflicts} conflicts, written=${result.written}`);
+    return result;
+  }
+
+  /**
+   * Apply one file's hunks in memory, on top of earlier changes to the same file,
+   * recording a result per hunk. Returns the resulting file change, or null if the
+   * file cannot be patched.
+   */
+  private async applyFilePatch(
+    patch: FilePatch,
+    results: HunkResult[],
+    changes: Map<string, FileChange>
+  ): Promise<FileChange | null> {
+    const file = (patch.newPath ?? patch.oldPath)!;
+    const reject = (status: 'rejected' | 'conflict', reason: string) => {
+      for (const hunk of patch.hunks.length > 0 ? patch.hunks : [{ header: '(file)' } as DiffHunk]) {
+        results.push({ file, header: hunk.header, status, reason });
+      }
+      return null;
+    };
+
+    if (patch.oldPath !== null && patch.newPath !== null && patch.oldPath !== patch.newPath) {
+      return reject('rejected', `renaming ${patch.oldPath} is not supported; delete it and add ${patch.newPath} as a new file`);
+    }
+
+    let resolved: string;
+    try {
+      resolved = await this.tools.resolvePath(file);
+    } catch (error: any) {
+      return reject('rejected', error.message);
+    }
+
+    let original: string | null = null;
+    const earlier = changes.get(resolved);
+    if (earlier) {
+      original = earlier.content;
+    } else {
+      try {
+        original = await fs.readFile(resolved, 'utf-8');
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          return reject('rejected', error.message);
+        }
+      }
+    }
+    // Content on disk, for restoring the file if writing the patch fails
+    const pristine = earlier ? earlier.original : original;
+
+    if (patch.oldPath === null) {
+      if (original !== null) {
+        return reject('conflict', 'file already exists');
+      }
+      const added = patch.hunks.flatMap(h => h.lines.filter(l => l[0] !== '-').map(l => l.slice(1)));
+      patch.hunks.forEach(h => results.push({ file, header: h.header, status: 'applied' }));
+      return { file, resolved, content: added.join('\n') + '\n', original: pristine };
+    }
+
+    if (original === null) {
+      return reject('rejected', 'file does not exist');
+    }
+
+    const endsWithNewline = original.endsWith('\n');
+    const lines = (endsWithNewline ? original.slice(0, -1) : original).split('\n');
+    let delta = 0;     // line shift caused by hunks applied so far
+    let minIndex = 0;  // hunks may not match before the end of the previous one
+    let failed = false;
+
+    for (const hunk of patch.hunks) {
+      const oldBlock = hunk.lines.filter(l => l[0] !== '+').map(l => l.slice(1));
+      const newBlock = hunk.lines.filter(l => l[0] !== '-').map(l => l.slice(1));
+      const expected = Math.max(0, (oldBlock.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta);
+
+      const index = this.findBlock(lines, oldBlock, expected, minIndex);
+      if (index === -1) {
+        const reason = this.describeFailure(lines, oldBlock, newBlock, minIndex);
+        results.push({ file, header: hunk.header, status: reason === 'context not found' ? 'rejected' : 'conflict', reason });
+        failed = true;
+        continue;
+      }
+
+      lines.splice(index, oldBlock.length, ...newBlock);
+      results.push({ file, header: hunk.header, status: 'applied', offset: index - expected || undefined });
+      delta += newBlock.length - oldBlock.length;
+      minIndex = index + newBlock.length;
+    }
+
+    if (failed) {
+      return null;
+    }
+
+    if (patch.newPath === null) {
+      if (lines.some(line => line !== '')) {
+        results.push({ file, header: '(delete)', status: 'conflict', reason: 'file is not empty after removing the deleted lines' });
+        return null;
+      }
+      return { file, resolved, content: null, original: pristine };
+    }
+
+    return { file, resolved, content: lines.join('\n') + (endsWithNewline ? '\n' : ''), original: pristine };
+  }
+
+  /**
+   * Write or (with null content) delete a file through the workspace tools
+   */
+  private async write(file: string, content: string | null): Promise<void> {
+    if (content === null) {
+      await this.tools.deleteFile(file);
+    } else {
+      await this.tools.execute('write_file', { path: file, content });
+    }
+  }
+
+  /**
+   * Put back the files written before a failed write, newest first.
+   * Returns the files that could not be restored.
+   */
+  private async restore(written: FileChange[]): Promise<string[]> {
+    const unrestored: string[] = [];
+    for (const change of [...written].reverse()) {
+      try {
+        await this.write(change.file, change.original);
+      } catch (error: any) {
+        console.error(`[PatchApplier.restore] Failed to restore ${change.file}: ${error.message}`);
+        unrestored.push(change.file);
+      }
+    }
+    return unrestored;
+  }
+
+  /**
+   * Patched files not shown in the context. Paths are matched whole against the
+   * file headers of the context, or when it has none, against its path-like words.
+   */
+  private findFilesOutsideContext(files: string[], context: string): string[] {
+    const normalize = (file: string) => file.replace(/^\.\//, '');
+    const shown = new Set<string>();
+    for (const line of context.split('\n')) {
+      for (const header of CONTEXT_FILE_HEADERS) {
+        const match = line.match(header);
+        if (match) {
+          shown.add(normalize(match[1]));
+          break;
+        }
+      }
+    }
+    if (shown.size === 0) {
+      for (const word of context.match(/[\w.\/-]+/g) || []) {
+        shown.add(normalize(word));
+      }
+    }
+    return files.filter(file => !shown.has(normalize(file)));
+  }
+
+  /**
+   * Find a block of lines nearest to the expected position, at or after minIndex.
+   * Trailing whitespace is ignored.
+   */
+  private findBlock(lines: string[], block: string[], expected: number, minIndex: number): number {
+    if (block.length === 0) {
+      return Math.min(Math.max(expected, minIndex), lines.length);
+    }
+
+    const matchesAt = (index: number) =>
+      index >= minIndex && index + block.length <= lines.length &&
+      block.every((line, i) => lines[index + i].trimEnd() === line.trimEnd());
+
+    for (let offset = 0; offset <= lines.length; offset++) {
+      if (matchesAt(expected + offset)) return expected + offset;
+      if (offset > 0 && matchesAt(expected - offset)) return expected - offset;
+    }
+    return -1;
+  }
+
+  /**
+   * Explain why a hunk did not apply. Anything other than "context not found" is a
+   * conflict: the file has changed around or under the hunk rather than being unrelated.
+   */
+  private describeFailure(lines: string[], oldBlock: string[], newBlock: string[], minIndex: number): string {
+    if (newBlock.length > 0 && this.findBlock(lines, newBlock, minIndex, 0) !== -1) {
+      return 'changes already present';
+    }
+    if (this.findBlock(lines, oldBlock, minIndex, 0) !== -1) {
+      return 'overlaps a previous hunk';
+    }
+
+    const leading = oldBlock.slice(0, Math.min(3, oldBlock.length));
+    if (leading.length > 0 && leading.length < oldBlock.length && this.findBlock(lines, leading, minIndex, 0) !== -1) {
+      return 'target lines have changed';
+    }
+    return 'context not found';
+  }
+
+  /**
+   * Parse a path from a ---/+++ header, dropping a/ b/ prefixes and timestamps
+   */
+  private parsePath(value: string): string | null {
+    const file = value.split('\t')[0].trim();
+    if (file === '/dev/null') {
+      return null;
+    }
+    return file.replace(/^[ab]\//, '');
+  }
+}
@@ -0,0 +1,57 @@
+import { ValidationError } from '../types/index.js';
+
+/**
+ * Variables available in task type templates
+ */
+export const TEMPLATE_VARIABLES = ['context', 'language', 'model'] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * A task prompt template with {{variable}} placeholders, checked on construction
+ */
+export class PromptTemplate {
+  private variables: Set<string>;
+
+  /**
+   * Parse a template. Throws ValidationError on unknown variables or unbalanced braces.
+   */
+  constructor(private source: string) {
+    const errors: string[] = [];
+    this.variables = new Set();
+
+    for (const match of source.matchAll(PLACEHOLDER)) {
+      const name = match[1];
+      if ((TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+        this.variables.add(name);
+      } else {
+        errors.push(`unknown variable "{{${name}}}" (expected one of: ${TEMPLATE_VARIABLES.map(v => `{{${v}}}`).join(', ')})`);
+      }
+    }
+
+    const rest = source.replace(PLACEHOLDER, '');
+    if (rest.includes('{{') || rest.includes('}}')) {
+      errors.push('unbalanced "{{" or "}}"');
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid template: ${errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * Whether the template contains a variable
+   */
+  uses(variable: TemplateVariable): boolean {
+    return this.variables.has(variable);
+  }
+
+  /**
+   * Substitute the variables
+   */
+  render(values: Record<TemplateVariable, string>): string {
+    return this.source.replace(PLACEHOLDER, (_, name: TemplateVariable) => values[name]).trim();
+  }
+}
@@ -4,9 +4,21 @@ import {
   SelectionResult,
   ExecutionResult,
   ExecutionLog,
+  BudgetStatus,
+  AgentStep,
+  PatchResult,
+  ContextSnippet,
+  MapReducePlan,
+  EnsembleReport,
+  VerificationReport,
+  CodeCheckReport,
+  TestRunReport,
 } from '../types/index.js';
+import { CodeBlockExtractor } from './CodeBlockExtractor.js';
 
 export class ResultFormatter {
+  private codeBlockExtractor = new CodeBlockExtractor();
+
   /**
    * Format execution result into structured output
    */
@@ -14,7 +26,8 @@ export class ResultFormatter {
     task: ParsedTask,
     selection: SelectionResult,
     execution: ExecutionResult,
-    logs: ExecutionLog[]
+    logs: ExecutionLog[],
+    budget?: BudgetStatus
   ): FormattedResult {
     return {
       task: {
@@ -23,23 +36,35 @@ export class ResultFormatter {
         complexity: task.complexity,
         requiredCapabilities: task.requiredCapabilities,
         contextSize: task.contextSize,
+        estimatedTokens: task.estimatedTokens,
         taskType: task.taskType,
+        language: task.language,
+        classification: task.classification,
       },
       execution: {
         modelUsed: execution.modelUsed,
         executionTime: execution.executionTime,
         tokensUsed: execution.tokensUsed,
+        promptTokens: execution.promptTokens,
+        completionTokens: execution.completionTokens,
         confidence: execution.confidence,
+        cost: execution.cost || 0,
+        sessionCost: budget?.sessionSpent || 0,
+        dailyCost: budget?.dailySpent || 0,
       },
       selection: {
         selectedModel: selection.selectedModel,
         justification: selection.reasoning,
         alternatives: selection.alternatives,
+        strategy: selection.strategy,
       },
       result: {
         response: execution.response,
+        data: execution.data,
         metadata: execution.metadata,
       },
+      artifacts: (execution.metadata?.codeChecks as CodeCheckReport | undefined)?.artifacts ??
+        this.codeBlockExtractor.extract(execution.response),
       logs,
     };
   }
@@ -64,12 +89,25 @@ export class ResultFormatter {
     parts.push(`  Type: ${result.task.taskType}`);
     parts.push(`  Domain: ${result.task.domain}`);
     parts.push(`  Complexity: ${result.task.complexity}`);
+    parts.push(`  Language: ${result.task.language}`);
+    const classification = result.task.classification;
+    if (classification?.source === 'llm') {
+      parts.push(
+        `  Classified By: ${classification.model} ` +
+        `(confidence ${classification.confidence}${classification.cached ? ', cached' : ''})`
+      );
+    } else if (classification) {
+      parts.push(`  Classified By: keywords (${classification.fallbackReason})`);
+    }
     parts.push(`  Description: ${result.task.description}`);
     parts.push('');
 
     // Model Selection
     parts.push('MODEL SELECTION:');
     parts.push(`  Selected: ${result.selection.selectedModel}`);
+    if (result.selection.strategy) {
+      parts.push(`  Strategy: ${result.selection.strategy}`);
+    }
     parts.push(`  Justification: ${result.selection.justification}`);
     if (result.selection.alternatives.length > 0) {
       parts.push('  Alternatives:');
@@ -83,10 +121,193 @@ export class ResultFormatter {
     parts.push('EXECUTION:');
     parts.push(`  Model Used: ${result.execution.modelUsed}`);
     parts.push(`  Execution Time: ${result.execution.executionTime}ms`);
-    parts.push(`  Tokens Used: ${result.execution.tokensUsed}`);
-    parts.push(`  Confidence: ${result.execution.confidence}%`);
+    parts.push(
+      `  Tokens Used: ${result.execution.tokensUsed} ` +
+      `(prompt: ${result.execution.promptTokens}, completion: ${result.execution.completionTokens})`
+    );
+    const verification: VerificationReport | undefined = result.result.metadata?.verification;
+    const confidenceSource = verification?.score !== undefined
+      ? `verified by ${verification.verifierModel}`
+      : result.result.metadata?.ensemble?.confidence !== undefined ? 'judge' : 'heuristic, unverified';
+    parts.push(`  Confidence: ${result.execution.confidence}% (${confidenceSource})`);
+    const structured = result.result.metadata?.structuredOutput;
+    if (structured) {
+      parts.push(
+        `  Structured Output: ${structured.valid ? 'valid' : 'invalid'} ` +
+        `(${structured.attempts} attempt${structured.attempts === 1 ? '' : 's'})`
+      );
+    }
+    parts.push(
+      `  Cost: ${this.formatCost(result.execution.cost)} ` +
+      `(session: ${this.formatCost(result.execution.sessionCost)}, today: ${this.formatCost(result.execution.dailyCost)})`
+    );
     parts.push('');
 
+    // Context files
+    const contextFiles = result.result.metadata?.contextFiles;
+    if (contextFiles) {
+      parts.push(`CONTEXT FILES (${contextFiles.tokensUsed}/${contextFiles.tokenBudget} tokens):`);
+      contextFiles.snippets.forEach((snippet: ContextSnippet) => {
+        parts.push(
+          `  - ${snippet.path}:${snippet.startLine}-${snippet.endLine}` +
+          `${snippet.truncated ? ` (excerpt of ${snippet.totalLines} lines)` : ''}`
+        );
+      });
+      if (contextFiles.omitted.length > 0) {
+        parts.push(`  Omitted (over budget): ${contextFiles.omitted.join(', ')}`);
+      }
+      contextFiles.skipped.forEach((skipped: string) => {
+        parts.push(`  Skipped: ${skipped}`);
+      });
+      parts.push('');
+    }
+
+    // Map-reduce plan
+    const mapReduce: MapReducePlan | undefined = result.result.metadata?.mapReduce;
+    if (mapReduce) {
+      parts.push(
+        `MAP-REDUCE (${mapReduce.chunks.length} chunks, ${mapReduce.contextTokens} context tokens, ` +
+        `max ${mapReduce.chunkTokenBudget} tokens per chunk):`
+      );
+      mapReduce.chunks.forEach((chunk) => {
+        const outcome = chunk.success ? chunk.model : `failed - ${chunk.error}`;
+        parts.push(`  ${chunk.index}. lines ${chunk.startLine}-${chunk.endLine} (${chunk.tokens} tokens, cut: ${chunk.boundary}): ${outcome}`);
+      });
+      if (mapReduce.reduceModel) {
+        parts.push(`  Synthesis: ${mapReduce.reduceModel}`);
+      }
+      parts.push('');
+    }
+
+    // Ensemble
+    const ensemble: EnsembleReport | undefined = result.result.metadata?.ensemble;
+    if (ensemble) {
+      const outcome = ensemble.verdict === 'merge'
+        ? `merged by ${ensemble.judgeModel}`
+        : `${ensemble.verdict}: ${ensemble.chosenModel}${ensemble.judgeModel ? ` (judge: ${ensemble.judgeModel})` : ''}`;
+      parts.push(`ENSEMBLE (${ensemble.members.length} models, ${outcome}):`);
+      if (ensemble.confidence !== undefined) {
+        parts.push(`  Judge Confidence: ${Math.round(ensemble.confidence * 100)}%`);
+      }
+      parts.push(`  Rationale: ${ensemble.rationale}`);
+      if (ensemble.agreements.length > 0) {
+        parts.push('  Agreements:');
+        ensemble.agreements.forEach((agreement) => parts.push(`    - ${agreement}`));
+      }
+      if (ensemble.disagreements.length > 0) {
+        parts.push('  Disagreements:');
+        ensemble.disagreements.forEach((disagreement) => {
+          parts.push(`    - ${disagreement.topic}`);
+          Object.entries(disagreement.positions).forEach(([model, position]) => {
+            parts.push(`        ${model}: ${position}`);
+          });
+        });
+      }
+      ensemble.members.forEach((member) => {
+        parts.push('');
+        parts.push(`  --- ${member.label}. ${member.model} (${member.executionTime}ms, ${member.tokensUsed} tokens) ---`);
+        parts.push(member.success ? member.response! : `  failed - ${member.error}`);
+      });
+      parts.push('');
+    }
+
+    // Verification
+    if (verification) {
+      const outcome = verification.score === undefined
+        ? 'failed'
+        : `${verification.passed ? 'passed' : 'below threshold'}: ${verification.score.toFixed(2)} / ${verification.threshold}`;
+      parts.push(`VERIFICATION (${outcome}):`);
+      parts.push(`  Rationale: ${verification.rationale}`);
+      verification.criteria.forEach((criterion) => {
+        parts.push(`  - ${criterion.criterion}: ${criterion.score.toFixed(2)} - ${criterion.comment}`);
+      });
+      if (verification.attempts.length > 1) {
+        parts.push('  Attempts:');
+        verification.attempts.forEach((attempt) => {
+          const grade = attempt.error ? `failed - ${attempt.error}` : `${attempt.score!.toFixed(2)} (verifier: ${attempt.verifierModel})`;
+          parts.push(`    - ${attempt.model}: ${grade}${attempt.chosen ? ' [chosen]' : ''}`);
+        });
+      }
+      parts.push('');
+    }
+
+    // Code blocks
+    if (result.artifacts.length > 0) {
+      const codeChecks: CodeCheckReport | undefined = result.result.metadata?.codeChecks;
+      const summary = codeChecks
+        ? `${codeChecks.errors} with syntax errors${codeChecks.repairAttempts ? `, ${codeChecks.repairAttempts} repair attempt${codeChecks.repairAttempts === 1 ? '' : 's'}` : ''}`
+        : 'not checked';
+      parts.push(`CODE BLOCKS (${result.artifacts.length}, ${summary}):`);
+      result.artifacts.forEach((artifact) => {
+        const name = [artifact.language || 'untagged', artifact.filename].filter(Boolean).join(' ');
+        const check = artifact.check;
+        const status = !check ? ''
+          : check.status === 'ok' ? ` - ok (${check.checker})`
+            : check.status === 'skipped' ? ` - skipped (${check.reason})`
+              : ` - ${check.errors.length} syntax error${check.errors.length === 1 ? '' : 's'} (${check.checker})`;
+        parts.push(`  ${artifact.index}. ${name} (lines ${artifact.startLine}-${artifact.endLine})${status}`);
+        check?.errors.forEach((error) => parts.push(`       ${error}`));
+      });
+      parts.push('');
+    }
+
+    // Test run
+    const testRun: TestRunReport | undefined = result.result.metadata?.testRun;
+    if (testRun) {
+      parts.push(`TEST RUN (${testRun.command}, ${testRun.success ? 'passed' : 'failing'} after ${testRun.iterations.length} run${testRun.iterations.length === 1 ? '' : 's'}):`);
+      testRun.iterations.forEach((iteration) => {
+        const counts = [
+          iteration.passed !== undefined ? `${iteration.passed} passed` : '',
+          iteration.failed !== undefined ? `${iteration.failed} failed` : '',
+          iteration.skipped !== undefined ? `${iteration.skipped} skipped` : '',
+        ].filter(Boolean).join(', ');
+        const outcome = iteration.error
+          ? `error - ${iteration.error}`
+          : `${iteration.timedOut ? 'timed out' : `exit code ${iteration.exitCode}`}${counts ? ` (${counts})` : ''}`;
+        parts.push(`  ${iteration.iteration}. ${outcome}`);
+        if (iteration.files.length > 0) {
+          parts.push(`     Files: ${iteration.files.join(', ')}`);
+        }
+        iteration.failures.forEach((failure) => parts.push(`     ${failure}`));
+      });
+      const last = testRun.iterations[testRun.iterations.length - 1];
+      if (!testRun.success && last.output) {
+        parts.push('  Output:');
+        last.output.split('\n').forEach((line) => parts.push(`    ${line}`));
+      }
+      parts.push('');
+    }
+
+    // Agent steps
+    const agent = result.result.metadata?.agent;
+    if (agent?.steps?.length) {
+      parts.push(`AGENT STEPS (${agent.stopReason}):`);
+      agent.steps.forEach((step: AgentStep) => {
+        const target = step.args.path || step.args.pattern || step.args.command || '';
+        parts.push(`  ${step.step}. ${step.action}${target ? ` ${target}` : ''}${step.success ? '' : ' [failed]'}`);
+      });
+      parts.push('');
+    }
+
+    // Patch
+    const patch: PatchResult | undefined = result.result.metadata?.patch;
+    if (patch) {
+      parts.push(`PATCH (${patch.mode}${patch.written ? ', written' : ''}):`);
+      if (patch.error) {
+        parts.push(`  Error: ${patch.error}`);
+      } else {
+        parts.push(`  Hunks: ${patch.applied} applied, ${patch.rejected} rejected, ${patch.conflicts} conflicting`);
+        patch.hunks.forEach((hunk) => {
+          const offset = hunk.offset ? ` (offset ${hunk.offset > 0 ? '+' : ''}${hunk.offset})` : '';
+          parts.push(`  - ${hunk.file} ${hunk.header}: ${hunk.status}${offset}${hunk.reason ? ` - ${hunk.reason}` : ''}`);
+        });
+        if (patch.filesOutsideContext.length > 0) {
+          parts.push(`  Files not in context: ${patch.filesOutsideContext.join(', ')}`);
+        }
+      }
+      parts.push('');
+    }
+
     // Response
     parts.push('RESPONSE:');
     parts.push(result.result.response);
@@ -101,7 +322,8 @@ export class ResultFormatter {
   formatError(
     task: ParsedTask,
     error: string,
-    logs: ExecutionLog[]
+    logs: ExecutionLog[],
+    budget?: BudgetStatus
   ): FormattedResult {
     return {
       task: {
@@ -110,13 +332,21 @@ export class ResultFormatter {
         complexity: task.complexity,
         requiredCapabilities: task.requiredCapabilities,
         contextSize: task.contextSize,
+        estimatedTokens: task.estimatedTokens,
         taskType: task.taskType,
+        language: task.language,
+        classification: task.classification,
       },
       execution: {
         modelUsed: 'none',
         executionTime: 0,
         tokensUsed: 0,
+        promptTokens: 0,
+        completionTokens: 0,
         confidence: 0,
+        cost: 0,
+        sessionCost: budget?.sessionSpent || 0,
+        dailyCost: budget?.dailySpent || 0,
       },
       selection: {
         selectedModel: 'none',
@@ -130,7 +360,15 @@ export class ResultFormatter {
           success: false,
         },
       },
+      artifacts: [],
       logs,
     };
   }
+
+  /**
+   * Format a cost value
+   */
+  private formatCost(cost: number): string {
+    return cost.toFixed(6);
+  }
 }
@@ -0,0 +1,201 @@
+import {
+  AuthenticationError,
+  ErrorClass,
+  InvalidRequestError,
+  ModelNotFoundError,
+  ModelRequestError,
+  RateLimitError,
+  RetryConfig,
+  RetryPolicyConfig,
+  TimeoutError,
+  TransientError,
+} from '../types/index.js';
+
+/**
+ * Default policy per error class: transient failures are retried on the same model,
+ * permanent ones fall back only when another model can help. Authentication and
+ * invalid requests fail the same way on every model of the server.
+ */
+export const DEFAULT_RETRY_POLICIES: Record<ErrorClass, Required<RetryPolicyConfig>> = {
+  rate_limit: { retries: 3, baseDelay: 2000, maxDelay: 30000, fallback: true },
+  transient: { retries: 2, baseDelay: 1000, maxDelay: 10000, fallback: true },
+  timeout: { retries: 0, baseDelay: 1000, maxDelay: 10000, fallback: true },
+  model_not_found: { retries: 0, baseDelay: 0, maxDelay: 0, fallback: true },
+  auth: { retries: 0, baseDelay: 0, maxDelay: 0, fallback: false },
+  invalid_request: { retries: 0, baseDelay: 0, maxDelay: 0, fallback: false },
+  unknown: { retries: 0, baseDelay: 1000, maxDelay: 10000, fallback: true },
+};
+
+export interface ClassifiedError {
+  errorClass: ErrorClass;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+const TRANSIENT_STATUSES = new Set([500, 502, 503, 504, 529]);
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT',
+]);
+const NETWORK_ERROR_MESSAGE = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|EAI_AGAIN|socket hang up|fetch failed|network error|other side closed/i;
+const MODEL_NOT_FOUND_MESSAGE = /model\s+["']?[^"'\s]*["']?\s*not found/i;
+
+/**
+ * Retry policies per error class: how often a failed request is retried on the same
+ * model, with jittered exponential backoff that honours Retry-After, and whether the
+ * next model is tried afterwards.
+ */
+export class RetryPolicy {
+  constructor(
+    private config: RetryConfig = {},
+    private random: () => number = Math.random
+  ) {}
+
+  /**
+   * Build the typed error for a failed HTTP response
+   */
+  static httpError(status: number, message: string, retryAfter?: string | null): Error {
+    const retryAfterMs = RetryPolicy.parseRetryAfter(retryAfter);
+    switch (RetryPolicy.classOfStatus(status, message)) {
+      case 'rate_limit':
+        return new RateLimitError(message, status, retryAfterMs);
+      case 'transient':
+        return new TransientError(message, status, retryAfterMs);
+      case 'auth':
+        return new AuthenticationError(message, status);
+      case 'model_not_found':
+        return new ModelNotFoundError(message, status);
+      case 'invalid_request':
+        return new InvalidRequestError(message, status);
+      default:
+        return new ModelRequestError(message, status, retryAfterMs);
+    }
+  }
+
+  /**
+   * Prefix an error's message with where it happened, keeping typed errors typed
+   * and turning network failures into transient errors
+   */
+  static withContext(error: any, context: string): Error {
+    const message = `${context}: ${error.message}`;
+    if (error instanceof ModelRequestError || error instanceof ModelNotFoundError || error instanceof TimeoutError) {
+      error.message = message;
+      return error;
+    }
+    const code = error.cause?.code ?? error.code;
+    if (NETWORK_ERROR_CODES.has(code) || NETWORK_ERROR_MESSAGE.test(error.message)) {
+      return new TransientError(code && !error.message.includes(code) ? `${message} (${code})` : message);
+    }
+    return new Error(message);
+  }
+
+  /**
+   * Classify an error by type, falling back to its message for untyped errors
+   */
+  static classify(error: any): ClassifiedError {
+    if (error instanceof RateLimitError) {
+      return { errorClass: 'rate_limit', status: error.status, retryAfterMs: error.retryAfterMs };
+    }
+    if (error instanceof TransientError) {
+      return { errorClass: 'transient', status: error.status, retryAfterMs: error.retryAfterMs };
+    }
+    if (error instanceof AuthenticationError) {
+      return { errorClass: 'auth', status: error.status };
+    }
+    if (error instanceof InvalidRequestError) {
+      return { errorClass: 'invalid_request', status: error.status };
+    }
+    if (error instanceof ModelNotFoundError) {
+      return { errorClass: 'model_not_found', status: error.status };
+    }
+    if (error instanceof TimeoutError) {
+      return { errorClass: 'timeout' };
+    }
+    if (error instanceof ModelRequestError) {
+      return {
+        errorClass: error.status ? RetryPolicy.classOfStatus(error.status, error.message) : 'unknown',
+        status: error.status,
+        retryAfterMs: error.retryAfterMs,
+      };
+    }
+
+    const message: string = error?.message ?? String(error);
+    const status = Number(message.match(/API error: (\d{3})\b/)?.[1]) || undefined;
+    if (status) {
+      return { errorClass: RetryPolicy.classOfStatus(status, message), status };
+    }
+    if (MODEL_NOT_FOUND_MESSAGE.test(message)) {
+      return { errorClass: 'model_not_found' };
+    }
+    if (NETWORK_ERROR_MESSAGE.test(message) || NETWORK_ERROR_CODES.has(error?.cause?.code ?? error?.code)) {
+      return { errorClass: 'transient' };
+    }
+    if (/timed? ?out/i.test(message)) {
+      return { errorClass: 'timeout' };
+    }
+    return { errorClass: 'unknown' };
+  }
+
+  /**
+   * Effective policy of an error class: configured values over the defaults
+   */
+  policyFor(errorClass: ErrorClass = 'unknown'): Required<RetryPolicyConfig> {
+    return { ...DEFAULT_RETRY_POLICIES[errorClass], ...this.config[errorClass] };
+  }
+
+  /**
+   * Delay in ms before retry number `retry` (0-based), or undefined when the class
+   * allows no further retry or Retry-After asks for longer than maxDelay
+   */
+  delay(errorClass: ErrorClass, retry: number, retryAfterMs?: number): number | undefined {
+    const policy = this.policyFor(errorClass);
+    if (retry >= policy.retries) {
+      return undefined;
+    }
+    if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelay) {
+      return undefined;
+    }
+
+    // Equal jitter: half the exponential delay, plus up to as much again at random
+    const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** retry);
+    const jittered = Math.round(exponential / 2 + this.random() * exponential / 2);
+    return Math.max(retryAfterMs ?? 0, jittered);
+  }
+
+  /**
+   * Error class of an HTTP status; statuses outside the known sets (3xx, 501, 505, ...) are unknown
+   */
+  private static classOfStatus(status: number, message: string): ErrorClass {
+    if (status === 429) {
+      return 'rate_limit';
+    }
+    if (TRANSIENT_STATUSES.has(status)) {
+      return 'transient';
+    }
+    if (status === 401 || status === 403) {
+      return 'auth';
+    }
+    if (status === 404 || MODEL_NOT_FOUND_MESSAGE.test(message)) {
+      return 'model_not_found';
+    }
+    if (status >= 400 && status < 500) {
+      return 'invalid_request';
+    }
+    return 'unknown';
+  }
+
+  /**
+   * Parse a Retry-After header: delay in seconds or an HTTP date
+   */
+  private static parseRetryAfter(value?: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
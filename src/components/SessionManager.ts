@@ -0,0 +1,159 @@
+import { ChatMessage, ChatSession, ValidationError } from '../types/index.js';
+import { TokenEstimator } from './TokenEstimator.js';
+
+export interface SessionHistory {
+  history: ChatMessage[];
+  droppedMessages: number;
+}
+
+export class SessionManager {
+  private sessions: Map<string, ChatSession> = new Map();
+  private tokenEstimator = new TokenEstimator();
+
+  /**
+   * Fraction of the context window available to history + new message.
+   * The remainder is left for the model's response.
+   */
+  private static readonly HISTORY_BUDGET_RATIO = 0.75;
+
+  /**
+   * Get an existing session or create a new one
+   */
+  getOrCreate(sessionId: string): ChatSession {
+    this.validateSessionId(sessionId);
+
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      const now = Date.now();
+      session = {
+        id: sessionId,
+        messages: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.sessions.set(sessionId, session);
+    }
+
+    return session;
+  }
+
+  /**
+   * Get a session by id
+   */
+  getSession(sessionId: string): ChatSession | null {
+    return this.sessions.get(sessionId) || null;
+  }
+
+  /**
+   * List all sessions, most recently used first
+   */
+  listSessions(): ChatSession[] {
+    return Array.from(this.sessions.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Delete a session and its history
+   */
+  clearSession(sessionId: string): boolean {
+    return this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Record a completed user/assistant exchange
+   */
+  appendExchange(sessionId: string, userMessage: string, assistantMessage: string): void {
+    const session = this.getOrCreate(sessionId);
+    session.messages.push(
+      { role: 'user', content: userMessage },
+      { role: 'assistant', content: assistantMessage }
+    );
+    session.updatedAt = Date.now();
+  }
+
+  /**
+   * Build the history to send with a new message so that system prompt, history
+   * and message fit into the model's context window. The oldest turns are dropped
+   * first and replaced by a short summary note.
+   */
+  buildHistory(
+    session: ChatSession,
+    newMessage: string,
+    contextWindow: number
+  ): SessionHistory {
+    const budget = Math.floor(contextWindow * SessionManager.HISTORY_BUDGET_RATIO);
+    let used = this.estimateTokens(newMessage) + this.estimateTokens(session.systemPrompt || '');
+
+    // Walk backwards over whole turns (user + assistant pairs)
+    const kept: ChatMessage[] = [];
+    let index = session.messages.length;
+    while (index > 0) {
+      const turnStart = session.messages[index - 1].role === 'assistant' && index >= 2 ? index - 2 : index - 1;
+      const turn = session.messages.slice(turnStart, index);
+      const turnTokens = turn.reduce((sum, msg) => sum + this.estimateTokens(msg.content), 0);
+
+      if (used + turnTokens > budget) {
+        break;
+      }
+
+      kept.unshift(...turn);
+      used += turnTokens;
+      index = turnStart;
+    }
+
+    const dropped = session.messages.slice(0, index);
+    if (dropped.length === 0) {
+      return { history: kept, droppedMessages: 0 };
+    }
+
+    console.error(`[SessionManager] Session "${session.id}": dropping ${dropped.length} old messages to fit ${contextWindow} token context window`);
+
+    const summary = this.summarizeDropped(dropped, budget - used);
+    return {
+      history: summary ? [summary, ...kept] : kept,
+      droppedMessages: dropped.length,
+    };
+  }
+
+  /**
+   * Summarize dropped turns as a list of the earlier user requests
+   */
+  private summarizeDropped(dropped: ChatMessage[], remainingBudget: number): ChatMessage | null {
+    const header = `[Earlier conversation truncated: ${dropped.length} messages omitted. Earlier user requests:]`;
+    const lines: string[] = [header];
+    let used = this.estimateTokens(header);
+
+    for (const msg of dropped) {
+      if (msg.role !== 'user') continue;
+      const firstLine = msg.content.split('\n')[0].trim();
+      const line = `- ${firstLine.length > 80 ? firstLine.substring(0, 80) + '...' : firstLine}`;
+      const lineTokens = this.estimateTokens(line);
+      if (used + lineTokens > remainingBudget) break;
+      lines.push(line);
+      used += lineTokens;
+    }
+
+    if (used > remainingBudget) {
+      return null;
+    }
+
+    return { role: 'system', content: lines.join('\n') };
+  }
+
+  /**
+   * Validate session identifier
+   */
+  private validateSessionId(sessionId: string): void {
+    if (!/^[\w.:-]{1,128}$/.test(sessionId)) {
+      throw new ValidationError(
+        'Invalid session_id: use 1-128 letters, digits, "_", "-", "." or ":"'
+      );
+    }
+  }
+
+  /**
+   * Estimate token count, counting role/formatting overhead per message
+   */
+  private estimateTokens(text: string): number {
+    return this.tokenEstimator.estimate(text) + 4;
+  }
+}
@@ -0,0 +1,104 @@
+import { Validator, Schema, OutputUnit } from '@cfworker/json-schema';
+import { StructuredOutputResult, ValidationError } from '../types/index.js';
+
+/**
+ * Validates model responses against a caller-supplied JSON Schema
+ */
+export class StructuredOutputValidator {
+  private validator: Validator;
+
+  /**
+   * Maximum number of validation errors reported back to the model
+   */
+  private static readonly MAX_ERRORS = 20;
+
+  constructor(private schema: Record<string, unknown>) {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      throw new ValidationError('Response schema must be a JSON Schema object');
+    }
+
+    try {
+      this.validator = new Validator(schema as Schema, '2020-12', false);
+    } catch (error: any) {
+      throw new ValidationError(`Invalid response schema: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the schema responses are validated against
+   */
+  getSchema(): Record<string, unknown> {
+    return this.schema;
+  }
+
+  /**
+   * Parse a model response as JSON and validate it against the schema
+   */
+  validate(response: string): StructuredOutputResult {
+    let data: unknown;
+    try {
+      data = this.extractJson(response);
+    } catch (error: any) {
+      return { valid: false, errors: [`Response is not valid JSON: ${error.message}`] };
+    }
+
+    const result = this.validator.validate(data);
+    if (result.valid) {
+      return { valid: true, data, errors: [] };
+    }
+
+    return { valid: false, data, errors: this.formatErrors(result.errors) };
+  }
+
+  /**
+   * Build the follow-up message asking the model to fix its previous response
+   */
+  buildRepairPrompt(errors: string[]): string {
+    return [
+      'Your previous response does not conform to the required JSON schema:',
+      ...errors.map(error => `- ${error}`),
+      '',
+      'Respond again with only the corrected JSON document. Do not include explanations, markdown or code fences.',
+    ].join('\n');
+  }
+
+  /**
+   * Parse JSON from a response, tolerating surrounding prose and markdown code fences
+   */
+  private extractJson(response: string): unknown {
+    const trimmed = response.trim();
+    const fenced = trimmed.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1].trim() : trimmed;
+
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      // Fall back to the outermost object or array in the text
+      const start = candidate.search(/[{[]/);
+      const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+      if (start === -1 || end <= start) {
+        throw error;
+      }
+      return JSON.parse(candidate.slice(start, end + 1));
+    }
+  }
+
+  /**
+   * Keep only the most specific errors (the validator also reports every enclosing
+   * "properties"/"items" failure) and format them as "location: message"
+   */
+  private formatErrors(units: OutputUnit[]): string[] {
+    const leaves = units.filter(unit => !units.some(other =>
+      other !== unit &&
+      other.keywordLocation.startsWith(`${unit.keywordLocation}/`) &&
+      other.instanceLocation.startsWith(unit.instanceLocation)
+    ));
+
+    const messages = leaves.map(unit => {
+      const location = unit.instanceLocation.replace(/^#/, '') || '/';
+      return `${location}: ${unit.error}`;
+    });
+
+    return [...new Set(messages)].slice(0, StructuredOutputValidator.MAX_ERRORS);
+  }
+}
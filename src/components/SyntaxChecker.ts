@@ -0,0 +1,185 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { CodeArtifact, CodeCheckConfig, SyntaxCheck } from '../types/index.js';
+
+type TypeScriptApi = typeof import('typescript');
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_PYTHON_COMMAND = 'python3';
+const DEFAULT_PYTHON_TIMEOUT = 10000;
+
+/**
+ * Maximum number of errors reported per code block
+ */
+const MAX_ERRORS = 10;
+
+/**
+ * Fast offline syntax checks of generated code: the TypeScript compiler API for
+ * TypeScript and JavaScript, JSON.parse for JSON and `python -m py_compile` for
+ * Python. Only parsing is checked, not types or imports. Checks that cannot run
+ * (no typescript package, no interpreter) are reported as skipped.
+ */
+export class SyntaxChecker {
+  private typescript?: Promise<TypeScriptApi | undefined>;
+  private pythonMissing = false;
+
+  constructor(private config: CodeCheckConfig = {}) {}
+
+  /**
+   * Check the artifacts one after another, attaching the results
+   */
+  async checkAll(artifacts: CodeArtifact[]): Promise<CodeArtifact[]> {
+    const checked: CodeArtifact[] = [];
+    for (const artifact of artifacts) {
+      checked.push({ ...artifact, check: await this.check(artifact) });
+    }
+    return checked;
+  }
+
+  /**
+   * Check the syntax of one code block
+   */
+  async check(artifact: CodeArtifact): Promise<SyntaxCheck> {
+    switch (artifact.language) {
+      case 'typescript':
+      case 'javascript':
+        return this.checkScript(artifact);
+      case 'json':
+        return this.checkJson(artifact.code);
+      case 'python':
+        return this.checkPython(artifact.code);
+      default:
+        return { status: 'skipped', errors: [], reason: `no checker for ${artifact.language || 'untagged blocks'}` };
+    }
+  }
+
+  /**
+   * Build the follow-up message asking the model to fix the blocks with syntax errors
+   */
+  buildRepairPrompt(artifacts: CodeArtifact[]): string {
+    const failed = artifacts.filter(artifact => artifact.check?.status === 'error');
+    return [
+      'The code in your previous response has syntax errors:',
+      ...failed.flatMap(artifact => [
+        `Block ${artifact.index} (${artifact.filename || artifact.language}):`,
+        ...artifact.check!.errors.map(error => `- ${error}`),
+      ]),
+      '',
+      'Respond again with the complete corrected answer, keeping every code block in a fenced block with its language.',
+    ].join('\n');
+  }
+
+  /**
+   * Parse TypeScript or JavaScript with the compiler's syntactic diagnostics
+   * (`transpileModule`): no type checking or module resolution, so type errors and
+   * missing imports pass. Without a filename, the block is also tried as TSX/JSX
+   * before reporting errors.
+   */
+  private async checkScript(artifact: CodeArtifact): Promise<SyntaxCheck> {
+    const ts = await this.loadTypeScript();
+    if (!ts) {
+      return { status: 'skipped', errors: [], reason: 'typescript package is not installed' };
+    }
+
+    const extension = artifact.language === 'typescript' ? '.ts' : '.js';
+    const fileNames = artifact.filename && /\.[cm]?[jt]sx?$/.test(artifact.filename)
+      ? [path.basename(artifact.filename)]
+      : [`block${extension}`, `block${extension}x`];
+
+    let firstErrors: string[] | undefined;
+    for (const fileName of fileNames) {
+      const output = ts.transpileModule(artifact.code, {
+        fileName,
+        reportDiagnostics: true,
+        compilerOptions: {
+          target: ts.ScriptTarget.ESNext,
+          module: ts.ModuleKind.ESNext,
+          jsx: ts.JsxEmit.Preserve,
+          allowJs: true,
+        },
+      });
+      const errors = (output.diagnostics || [])
+        .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+        .map(diagnostic => {
+          const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ');
+          if (diagnostic.file && diagnostic.start !== undefined) {
+            const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+            return `line ${line + 1}:${character + 1}: ${message}`;
+          }
+          return message;
+        });
+      if (errors.length === 0) {
+        return { status: 'ok', checker: 'typescript', errors: [] };
+      }
+      firstErrors = firstErrors || errors;
+    }
+
+    return { status: 'error', checker: 'typescript', errors: firstErrors!.slice(0, MAX_ERRORS) };
+  }
+
+  private checkJson(code: string): SyntaxCheck {
+    try {
+      JSON.parse(code);
+      return { status: 'ok', checker: 'json', errors: [] };
+    } catch (error: any) {
+      const position = error.message.match(/position (\d+)/);
+      const line = position ? code.substring(0, Number(position[1])).split('\n').length : undefined;
+      return { status: 'error', checker: 'json', errors: [line ? `line ${line}: ${error.message}` : error.message] };
+    }
+  }
+
+  /**
+   * Compile a Python block in a temporary directory with `python -m py_compile`
+   */
+  private async checkPython(code: string): Promise<SyntaxCheck> {
+    const command = this.config.pythonCommand || DEFAULT_PYTHON_COMMAND;
+    if (this.pythonMissing) {
+      return { status: 'skipped', errors: [], reason: `${command} is not available` };
+    }
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mini-swe-py-'));
+    const file = path.join(dir, 'block.py');
+    try {
+      await fs.writeFile(file, code, 'utf-8');
+      await execFileAsync(command, ['-m', 'py_compile', file], {
+        timeout: this.config.timeout ?? DEFAULT_PYTHON_TIMEOUT,
+      });
+      return { status: 'ok', checker: 'py_compile', errors: [] };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        console.error(`[SyntaxChecker.checkPython] ${command} not found, skipping Python checks`);
+        this.pythonMissing = true;
+        return { status: 'skipped', errors: [], reason: `${command} is not available` };
+      }
+      if (error.killed) {
+        return { status: 'skipped', errors: [], reason: `py_compile timed out after ${this.config.timeout ?? DEFAULT_PYTHON_TIMEOUT}ms` };
+      }
+
+      const stderr: string = error.stderr || error.message;
+      const line = stderr.match(/line (\d+)/)?.[1];
+      const message = stderr.trim().split('\n').reverse().find(text => /^\w*(Error|Exception)\b/.test(text.trim()))?.trim() ||
+        stderr.trim().split('\n').pop();
+      return { status: 'error', checker: 'py_compile', errors: [line ? `line ${line}: ${message}` : message!] };
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Import the TypeScript compiler once; it is optional at runtime
+   */
+  private loadTypeScript(): Promise<TypeScriptApi | undefined> {
+    this.typescript ??= import('typescript')
+      // CommonJS package: the API is the default export, or the namespace itself under some loaders
+      .then((module): TypeScriptApi => module.default ?? module)
+      .catch((error) => {
+        console.error(`[SyntaxChecker.loadTypeScript] TypeScript compiler unavailable: ${error.message}`);
+        return undefined;
+      });
+    return this.typescript;
+  }
+}
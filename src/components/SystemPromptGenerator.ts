@@ -1,16 +1,75 @@
-import { SystemPromptConfig, TaskType, TaskDomain } from '../types/index.js';
+import { SystemPromptConfig, TaskType, BuiltInTaskType, TaskDomain } from '../types/index.js';
+import { PromptTemplate } from './PromptTemplate.js';
+
+/**
+ * Number of guideline bullets kept in terse task prompts
+ */
+const TERSE_GUIDELINES = 3;
+
+const TRUNCATED_CONTEXT_MARKER = "\n... [context truncated to fit the model's prompt length limit]";
 
 export class SystemPromptGenerator {
   /**
-   * Generate task-specific system prompt
+   * Generate task-specific system prompt, adapted to the target model's prompt profile
    */
   generateSystemPrompt(config: SystemPromptConfig): string {
-    const basePrompt = this.getBasePrompt();
-    const taskSpecific = this.getTaskSpecificPrompt(config.taskType);
-    const domainGuidance = this.getDomainGuidance(config.domain);
-    const contextInclusion = config.context ? this.formatContext(config.context) : '';
+    const profile = config.profile || {};
+    let prompt = this.compose(config, !!profile.terse, true, config.context);
+
+    if (profile.maxLength && prompt.length > profile.maxLength) {
+      // Shorten the guidance first, then the context
+      prompt = this.compose(config, true, false, config.context);
+      if (prompt.length > profile.maxLength && config.context) {
+        const overflow = prompt.length - profile.maxLength + TRUNCATED_CONTEXT_MARKER.length;
+        const context = overflow < config.context.length
+          ? config.context.substring(0, config.context.length - overflow) + TRUNCATED_CONTEXT_MARKER
+          : '';
+        prompt = this.compose(config, true, false, context);
+      }
+      if (prompt.length > profile.maxLength) {
+        console.error(`[SystemPromptGenerator.generateSystemPrompt] Prompt for ${config.modelName} is ${prompt.length} chars, over its ${profile.maxLength} char limit`);
+      }
+    }
+
+    return prompt;
+  }
 
-    return [basePrompt, taskSpecific, domainGuidance, contextInclusion]
+  /**
+   * Assemble the prompt sections
+   */
+  private compose(config: SystemPromptConfig, terse: boolean, domainGuidance: boolean, context: string | undefined): string {
+    const profile = config.profile || {};
+    const reasoning = profile.reasoning ? `Reasoning: ${profile.reasoning}` : '';
+    const basePrompt = terse ? this.getTerseBasePrompt() : this.getBasePrompt();
+    const template = config.taskTemplate ? new PromptTemplate(config.taskTemplate) : undefined;
+    const taskSpecific = template
+      ? template.render({
+        context: context || '',
+        language: config.language || 'English',
+        model: config.modelName,
+      })
+      : this.getTaskSpecificPrompt(config.taskType, terse);
+    const domain = domainGuidance ? this.getDomainGuidance(config.domain) : '';
+    // A template that places {{context}} itself replaces the CONTEXT section
+    const contextInclusion = context && !template?.uses('context') ? this.formatContext(context) : '';
+    const languageInstruction = config.language ? this.getLanguagePrompt(config.language) : '';
+    const outputFormat = config.responseSchema ? this.getOutputFormatPrompt(config.responseSchema) : '';
+    const agentProtocol = config.agentMode ? this.getAgentPrompt(!!config.responseSchema) : '';
+    const patchFormat = config.patchMode ? this.getPatchPrompt() : '';
+
+    return [
+      reasoning,
+      profile.preamble,
+      basePrompt,
+      taskSpecific,
+      domain,
+      contextInclusion,
+      languageInstruction,
+      outputFormat,
+      agentProtocol,
+      patchFormat,
+      profile.suffix,
+    ]
       .filter(Boolean)
       .join('\n\n');
   }
@@ -22,11 +81,18 @@ export class SystemPromptGenerator {
     return `You are an expert software engineering assistant. Your role is to provide accurate, well-reasoned, and actionable solutions to software engineering tasks. Follow best practices, write clean code, and explain your reasoning when appropriate.`;
   }
 
+  /**
+   * Base prompt for models that prefer short instructions
+   */
+  private getTerseBasePrompt(): string {
+    return 'You are an expert software engineer. Be accurate and concise.';
+  }
+
   /**
    * Get task-type-specific prompt
    */
-  private getTaskSpecificPrompt(taskType: TaskType): string {
-    const prompts: Record<TaskType, string> = {
+  private getTaskSpecificPrompt(taskType: TaskType, terse: boolean = false): string {
+    const prompts: Record<BuiltInTaskType, string> = {
       code_generation: this.getCodeGenerationPrompt(),
       bug_fixing: this.getBugFixingPrompt(),
       code_review: this.getCodeReviewPrompt(),
@@ -36,7 +102,17 @@ export class SystemPromptGenerator {
       general: this.getGeneralPrompt(),
     };
 
-    return prompts[taskType] || prompts.general;
+    const prompt = prompts[taskType as BuiltInTaskType] || prompts.general;
+    return terse ? this.toTerse(prompt) : prompt;
+  }
+
+  /**
+   * Shorten a task prompt to its title and first guidelines
+   */
+  private toTerse(prompt: string): string {
+    const lines = prompt.split('\n');
+    const guidelines = lines.filter(line => line.startsWith('- ')).slice(0, TERSE_GUIDELINES);
+    return [lines[0], ...guidelines].join('\n');
   }
 
   private getCodeGenerationPrompt(): string {
@@ -150,4 +226,53 @@ ${context}
 
 Use the above context to inform your response.`;
   }
+
+  /**
+   * Ask for an answer in the language the task is written in
+   */
+  private getLanguagePrompt(language: string): string {
+    return `LANGUAGE:
+The task is written in ${language}. Write your explanations and code comments in ${language}. Keep code, identifiers, commands, file paths and any required JSON keys or formats unchanged.`;
+  }
+
+  /**
+   * Describe the tools and action format of the agent loop
+   */
+  private getAgentPrompt(structuredAnswer: boolean): string {
+    return `AGENT MODE:
+You work inside a workspace directory and can act on it step by step. Each reply must be exactly one JSON object:
+{"thought": "<your reasoning for this step>", "action": "<tool>", "args": {...}}
+
+Tools (paths are relative to the workspace root):
+- read_file: {"path": string, "start_line"?: number, "end_line"?: number} - read a file with line numbers
+- list_dir: {"path"?: string} - list a directory (default ".")
+- grep: {"pattern": string, "path"?: string} - search files for a regular expression
+- write_file: {"path": string, "content": string} - create or overwrite a file
+- run_command: {"command": string} - run a shell command in the workspace root
+- submit: {"answer": string} - finish the task with your final answer
+
+After each action you receive an OBSERVATION with its result. Inspect before you change things, verify changes by running commands where possible, and submit once the task is done.${structuredAnswer ? '\nThe submitted answer must be the JSON document described in OUTPUT FORMAT, encoded as a string.' : ''}`;
+  }
+
+  /**
+   * Require a JSON response conforming to a schema
+   */
+  private getOutputFormatPrompt(schema: Record<string, unknown>): string {
+    return `OUTPUT FORMAT:
+Respond with a single JSON document that conforms to the following JSON Schema. Do not include explanations, markdown or code fences.
+
+${JSON.stringify(schema, null, 2)}`;
+  }
+
+  /**
+   * Require the change as a unified diff against the workspace files
+   */
+  private getPatchPrompt(): string {
+    return `PATCH FORMAT:
+Return your change as a unified diff in a single \`\`\`diff code block, as produced by \`git diff\`:
+- Use "--- a/<path>" and "+++ b/<path>" headers with paths relative to the workspace root; use /dev/null for created or deleted files
+- Include 3 lines of unchanged context around every change and copy context lines exactly, including indentation
+- Only modify files that appear in the context
+You may explain the change briefly before the code block.`;
+  }
 }
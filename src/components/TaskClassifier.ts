@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import {
+  ModelRequestSettings,
+  TaskClassification,
+  ValidationError,
+} from '../types/index.js';
+import { OllamaClient } from './TaskExecutor.js';
+import { StructuredOutputValidator } from './StructuredOutputValidator.js';
+import { KNOWN_CAPABILITIES } from './ConfigLoader.js';
+
+export interface ClassifyOptions {
+  timeout: number; // ms
+  settings?: ModelRequestSettings;
+}
+
+const DEFAULT_CACHE_SIZE = 500;
+
+/**
+ * JSON Schema of a classification, sent as the response format
+ */
+const CLASSIFICATION_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  required: ['taskType', 'domain', 'complexity', 'capabilities', 'confidence'],
+  properties: {
+    taskType: {
+      enum: ['code_generation', 'bug_fixing', 'code_review', 'test_writing', 'documentation', 'architecture_analysis', 'general'],
+    },
+    domain: { enum: ['code', 'math', 'reasoning', 'multimodal', 'general'] },
+    complexity: { enum: ['simple', 'moderate', 'complex', 'expert'] },
+    capabilities: { type: 'array', items: { enum: KNOWN_CAPABILITIES } },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+  },
+};
+
+const CLASSIFIER_PROMPT = `You classify software engineering requests. Reply with one JSON object and nothing else:
+{"taskType": ..., "domain": ..., "complexity": ..., "capabilities": [...], "confidence": 0-1}
+
+- taskType: what the user wants produced. code_generation (new code), bug_fixing (fix broken behaviour), code_review (assess existing code), test_writing (tests, even when they test a fix), documentation, architecture_analysis, or general
+- domain: code, math, reasoning, multimodal or general
+- complexity: simple, moderate, complex or expert
+- capabilities: the model capabilities the task needs, from: ${KNOWN_CAPABILITIES.join(', ')}
+- confidence: how sure you are of the taskType
+
+The request may be written in any language.`;
+
+/**
+ * Classifies task descriptions with a small model, as an alternative to the
+ * keyword rules of TaskParser. Results are cached by description hash.
+ */
+export class TaskClassifier {
+  private validator = new StructuredOutputValidator(CLASSIFICATION_SCHEMA);
+  private cache = new Map<string, TaskClassification>();
+
+  constructor(
+    private client: OllamaClient,
+    private cacheSize: number = DEFAULT_CACHE_SIZE
+  ) {}
+
+  /**
+   * Get the cached classification of a description, if any
+   */
+  getCached(description: string): TaskClassification | undefined {
+    const key = this.hash(description);
+    const cached = this.cache.get(key);
+    if (cached) {
+      // Refresh recency
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+    }
+    return cached;
+  }
+
+  /**
+   * Classify a description with a model. Throws if the model fails, times out
+   * or returns an invalid classification.
+   */
+  async classify(description: string, model: string, options: ClassifyOptions): Promise<TaskClassification> {
+    const startTime = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const abortController = new AbortController();
+
+    try {
+      const response = await Promise.race([
+        this.client.chat(model, description.trim(), CLASSIFIER_PROMPT, 0, {
+          ...options.settings,
+          format: CLASSIFICATION_SCHEMA,
+          signal: abortController.signal,
+        }),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            const error = new Error(`Classification timed out after ${options.timeout}ms`);
+            abortController.abort(error);
+            reject(error);
+          }, options.timeout);
+        }),
+      ]);
+
+      const result = this.validator.validate(response.content);
+      if (!result.valid) {
+        throw new ValidationError(`Invalid classification: ${result.errors.join('; ')}`);
+      }
+
+      const classification = result.data as TaskClassification;
+      classification.capabilities = [...new Set(classification.capabilities)];
+      classification.model = model;
+      this.store(description, classification);
+
+      console.error(`[TaskClassifier.classify] ${model}: ${classification.taskType}/${classification.domain}/${classification.complexity} (confidence ${classification.confidence}) in ${Date.now() - startTime}ms`);
+      return classification;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Cache a classification, evicting the least recently used entry when full
+   */
+  private store(description: string, classification: TaskClassification): void {
+    if (this.cacheSize <= 0) {
+      return;
+    }
+    this.cache.set(this.hash(description), classification);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  /**
+   * Cache key: hash of the whitespace-normalized description
+   */
+  private hash(description: string): string {
+    return createHash('sha256').update(description.trim().replace(/\s+/g, ' ')).digest('hex');
+  }
+}
@@ -1,28 +1,43 @@
 import {
   ExecutionRequest,
   ExecutionResult,
-  ExecutionError as ExecutionErrorType,
+  FailedAttempt,
+  StreamProgress,
+  ChatRequestOptions,
+  ChatResponse,
+  TimeoutError,
 } from '../types/index.js';
+import { ModelStatsStore } from './ModelStatsStore.js';
+import { TokenEstimator } from './TokenEstimator.js';
+import { RetryPolicy } from './RetryPolicy.js';
 
 /**
  * Interface for Ollama Remote MCP client
  * This will be implemented by integrating with the existing MCP server
  */
 export interface OllamaClient {
-  chat(model: string, message: string, systemPrompt?: string, temperature?: number): Promise<{
-    content: string;
-    tokensUsed?: number;
-    executionTime?: number;
-  }>;
+  chat(model: string, message: string, systemPrompt?: string, temperature?: number, options?: ChatRequestOptions): Promise<ChatResponse>;
+  chatStream?(
+    model: string,
+    message: string,
+    systemPrompt: string | undefined,
+    temperature: number | undefined,
+    onProgress: (progress: StreamProgress) => void,
+    options?: ChatRequestOptions
+  ): Promise<ChatResponse>;
+  listModels?(): Promise<string[]>;
 }
 
 export class TaskExecutor {
   private client: OllamaClient;
   private defaultTimeout: number;
+  private statsStore?: ModelStatsStore;
+  private tokenEstimator = new TokenEstimator();
 
-  constructor(client: OllamaClient, timeout: number = 60000) {
+  constructor(client: OllamaClient, timeout: number = 60000, statsStore?: ModelStatsStore) {
     this.client = client;
     this.defaultTimeout = timeout;
+    this.statsStore = statsStore;
   }
 
   /**
@@ -34,33 +49,74 @@ export class TaskExecutor {
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
     const actualTimeout = timeout || this.defaultTimeout;
+    const statsTaskType = request.statsTaskType ?? request.task.taskType;
 
     console.error(`[TaskExecutor] STEP 1: Starting task execution for model: ${request.modelName}`);
     console.error(`[TaskExecutor] STEP 2: Task type: ${request.task.taskType}, Domain: ${request.task.domain}`);
     console.error(`[TaskExecutor] STEP 3: Timeout set to: ${actualTimeout}ms`);
 
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    // Set once the attempt has finished; a stream still delivering chunks afterwards is ignored
+    let settled = false;
+    // Aborted on timeout so an abandoned generation does not keep running on the server
+    const abortController = new AbortController();
+
     try {
-      // Create timeout promise
+      // Create timeout promise. When streaming, the timer is re-armed on every chunk
+      // so the timeout applies to inactivity rather than total generation time
+      let rejectTimeout: (error: Error) => void = () => {};
       const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
+        rejectTimeout = reject;
+      });
+      const armTimeout = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
           console.error(`[TaskExecutor] TIMEOUT: Execution exceeded ${actualTimeout}ms`);
-          reject(new Error(`Execution timeout after ${actualTimeout}ms`));
+          timedOut = true;
+          const error = new TimeoutError(`Execution timeout after ${actualTimeout}ms`);
+          abortController.abort(error);
+          rejectTimeout(error);
         }, actualTimeout);
-      });
+      };
+      armTimeout();
 
       // Format message
       const formattedMessage = this.formatMessage(request);
       console.error(`[TaskExecutor] STEP 4: Message formatted, length: ${formattedMessage.length} chars`);
       console.error(`[TaskExecutor] STEP 5: System prompt length: ${request.systemPrompt?.length || 0} chars`);
 
-      // Execute the task
-      console.error(`[TaskExecutor] STEP 6: Calling Ollama client.chat() with model: ${request.modelName}`);
-      const executionPromise = this.client.chat(
-        request.modelName,
-        formattedMessage,
-        request.systemPrompt,
-        request.temperature || 0.7
-      );
+      // Execute the task (streamed when the caller wants progress and the client supports it)
+      const streaming = !!(request.onProgress && this.client.chatStream);
+      const chatOptions: ChatRequestOptions = {
+        ...request.modelSettings?.(request.modelName),
+        ...(request.format ? { format: request.format } : {}),
+        history: request.history,
+        signal: abortController.signal,
+      };
+      console.error(`[TaskExecutor] STEP 6: Calling Ollama client.${streaming ? 'chatStream' : 'chat'}() with model: ${request.modelName}`);
+      const executionPromise = streaming
+        ? this.client.chatStream!(
+            request.modelName,
+            formattedMessage,
+            request.systemPrompt,
+            request.temperature || 0.7,
+            (progress) => {
+              if (settled) {
+                return;
+              }
+              armTimeout();
+              request.onProgress!(progress);
+            },
+            chatOptions
+          )
+        : this.client.chat(
+            request.modelName,
+            formattedMessage,
+            request.systemPrompt,
+            request.temperature || 0.7,
+            chatOptions
+          );
 
       // Race between execution and timeout
       console.error(`[TaskExecutor] STEP 7: Waiting for response (timeout: ${actualTimeout}ms)...`);
@@ -70,19 +126,33 @@ export class TaskExecutor {
       console.error(`[TaskExecutor] STEP 8: Response received in ${executionTime}ms`);
       console.error(`[TaskExecutor] STEP 9: Response length: ${result.content.length} chars`);
       console.error(`[TaskExecutor] STEP 10: Tokens used: ${result.tokensUsed || 'unknown'}`);
+      this.statsStore?.record(request.modelName, statsTaskType, 'success', executionTime);
+
+      // Prefer server-reported usage; estimate only the counts the server omitted
+      const tokenSource = result.promptTokens !== undefined && result.completionTokens !== undefined
+        ? 'server'
+        : 'estimated';
+      const promptTokens = result.promptTokens ??
+        this.tokenEstimator.estimate(`${request.systemPrompt || ''}\n${formattedMessage}`);
+      const completionTokens = result.completionTokens ?? this.tokenEstimator.estimate(result.content);
 
       return {
         success: true,
         modelUsed: request.modelName,
         response: result.content,
         executionTime,
-        tokensUsed: result.tokensUsed || this.estimateTokens(result.content),
+        tokensUsed: result.tokensUsed || promptTokens + completionTokens,
+        promptTokens,
+        completionTokens,
         confidence: this.calculateConfidence(result.content, executionTime),
         metadata: {
           taskType: request.task.taskType,
           domain: request.task.domain,
           complexity: request.task.complexity,
           temperature: request.temperature || 0.7,
+          streamed: streaming,
+          backend: chatOptions.backend,
+          tokenSource,
         },
       };
     } catch (error: any) {
@@ -90,6 +160,8 @@ export class TaskExecutor {
       console.error(`[TaskExecutor] ERROR: Task execution failed after ${executionTime}ms`);
       console.error(`[TaskExecutor] ERROR MESSAGE: ${error.message}`);
       console.error(`[TaskExecutor] ERROR STACK: ${error.stack}`);
+      this.statsStore?.record(request.modelName, statsTaskType, timedOut ? 'timeout' : 'failure', executionTime);
+      const { errorClass, status, retryAfterMs } = RetryPolicy.classify(error);
 
       // Return as failed execution result
       return {
@@ -98,26 +170,75 @@ export class TaskExecutor {
         response: '',
         executionTime,
         tokensUsed: 0,
+        promptTokens: 0,
+        completionTokens: 0,
         confidence: 0,
         metadata: {
           error: error.message,
+          errorClass,
+          status,
+          retryAfterMs,
           taskType: request.task.taskType,
           domain: request.task.domain,
           complexity: request.task.complexity,
         },
       };
+    } finally {
+      settled = true;
+      clearTimeout(timer);
     }
   }
 
   /**
-   * Execute task with fallback models
+   * Execute a task on one model, retrying failures as the retry policy of their
+   * error class allows, with jittered exponential backoff honouring Retry-After
+   */
+  async executeWithRetry(
+    request: ExecutionRequest,
+    timeout?: number
+  ): Promise<ExecutionResult> {
+    const policy = new RetryPolicy(request.retry);
+
+    for (let retry = 0; ; retry++) {
+      const result = await this.executeTask(request, timeout);
+      if (retry > 0) {
+        result.metadata.retries = retry;
+      }
+      if (result.success) {
+        return result;
+      }
+
+      const errorClass = result.metadata.errorClass;
+      const delay = policy.delay(errorClass, retry, result.metadata.retryAfterMs);
+      if (delay === undefined) {
+        return result;
+      }
+      console.error(
+        `[TaskExecutor.executeWithRetry] Model "${request.modelName}" failed (${errorClass}), ` +
+        `retry ${retry + 1}/${policy.policyFor(errorClass).retries} in ${delay}ms`
+      );
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Whether a failed result may be retried on another model
+   */
+  allowsFallback(request: ExecutionRequest, result: ExecutionResult): boolean {
+    return new RetryPolicy(request.retry).policyFor(result.metadata?.errorClass).fallback;
+  }
+
+  /**
+   * Execute task with fallback models. Each model gets its retries first; errors
+   * whose class does not allow fallback (authentication, invalid requests) end the
+   * attempt instead of failing the same way on every alternative.
    */
   async executeWithFallback(
     request: ExecutionRequest,
     fallbackModels: string[],
     timeout?: number
-  ): Promise<ExecutionResult | ExecutionErrorType[]> {
-    const errors: ExecutionErrorType[] = [];
+  ): Promise<ExecutionResult | FailedAttempt[]> {
+    const errors: FailedAttempt[] = [];
     const modelsToTry = [request.modelName, ...fallbackModels];
 
     console.error(`[TaskExecutor.executeWithFallback] Starting fallback execution`);
@@ -129,29 +250,31 @@ export class TaskExecutor {
       const model = modelsToTry[i];
       console.error(`[TaskExecutor.executeWithFallback] Attempt ${i + 1}/${modelsToTry.length}: Trying model "${model}"`);
 
-      try {
-        const modifiedRequest = { ...request, modelName: model };
-        const result = await this.executeTask(modifiedRequest, timeout);
-
-        if (result.success) {
-          console.error(`[TaskExecutor.executeWithFallback] SUCCESS: Model "${model}" succeeded`);
-          return result;
-        } else {
-          const errorMsg = result.metadata?.error || 'Execution failed';
-          console.error(`[TaskExecutor.executeWithFallback] FAILED: Model "${model}" failed with error: ${errorMsg}`);
-          errors.push({
-            modelAttempted: model,
-            error: errorMsg,
-            timestamp: Date.now(),
-          });
+      const modifiedRequest = { ...request, modelName: model };
+      const result = await this.executeWithRetry(modifiedRequest, timeout);
+
+      if (result.success) {
+        console.error(`[TaskExecutor.executeWithFallback] SUCCESS: Model "${model}" succeeded`);
+        if (errors.length > 0) {
+          result.metadata.failedAttempts = errors;
         }
-      } catch (error: any) {
-        console.error(`[TaskExecutor.executeWithFallback] EXCEPTION: Model "${model}" threw exception: ${error.message}`);
-        errors.push({
-          modelAttempted: model,
-          error: error.message,
-          timestamp: Date.now(),
-        });
+        return result;
+      }
+
+      const errorMsg = result.metadata?.error || 'Execution failed';
+      console.error(`[TaskExecutor.executeWithFallback] FAILED: Model "${model}" failed with error: ${errorMsg}`);
+      errors.push({
+        modelAttempted: model,
+        error: errorMsg,
+        timestamp: Date.now(),
+        errorClass: result.metadata.errorClass,
+        status: result.metadata.status,
+        retries: result.metadata.retries,
+      });
+
+      if (i < modelsToTry.length - 1 && !this.allowsFallback(request, result)) {
+        console.error(`[TaskExecutor.executeWithFallback] Not falling back: ${result.metadata.errorClass} errors would fail the same way on other models`);
+        break;
       }
     }
 
@@ -167,6 +290,10 @@ export class TaskExecutor {
    * Format task message for model
    */
   private formatMessage(request: ExecutionRequest): string {
+    if (request.message) {
+      return request.message;
+    }
+
     const parts: string[] = [];
 
     parts.push(request.task.description);
@@ -179,14 +306,6 @@ export class TaskExecutor {
     return parts.join('\n\n');
   }
 
-  /**
-   * Estimate token count (rough approximation)
-   */
-  private estimateTokens(text: string): number {
-    // Rough approximation: 1 token ≈ 4 characters
-    return Math.ceil(text.length / 4);
-  }
-
   /**
    * Calculate confidence score based on response characteristics
    */
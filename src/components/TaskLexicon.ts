@@ -0,0 +1,200 @@
+import { Lexicon, LanguageLexicon, LexiconCategory } from '../types/index.js';
+
+/**
+ * Built-in keyword tables. English patterns apply to every task (technical
+ * terms are often written in English whatever the language); the patterns of
+ * the detected language are added to them.
+ */
+const DEFAULT_LEXICON: Lexicon = {
+  en: {
+    name: 'English',
+    taskTypes: {
+      code_generation: ['generate', 'create', 'write code', 'implement'],
+      bug_fixing: ['bug', 'fix', 'error', 'issue', 'debug'],
+      code_review: ['review', 'analyze code', 'check code', 'audit'],
+      test_writing: ['test', 'unit test', 'testing', 'test case'],
+      documentation: ['document', 'documentation', 'readme', 'docs', 'docstring'],
+      architecture_analysis: ['architecture', 'design', 'structure', 'system'],
+    },
+    domains: {
+      math: ['math', 'calculate', 'formula', 'equation', 'proof'],
+      reasoning: ['reason', 'logic', 'deduce', 'infer', 'conclude'],
+      multimodal: ['image', 'video', 'audio', 'visual', 'diagram'],
+      code: ['code', 'function', 'class', 'api', 'program', 'script'],
+    },
+    complexity: {
+      expert: ['complex', 'advanced', 'sophisticated', 'distributed', 'scalable', 'high-performance', 'optimize', 'refactor entire', 'architectural'],
+      complex: ['multiple', 'integrate', 'system', 'framework', 'algorithm', 'design pattern'],
+      moderate: ['implement', 'create', 'build', 'develop', 'function', 'class'],
+    },
+    capabilities: {
+      tool_use: ['tool', 'command', 'terminal', 'cli'],
+      code_analysis: ['analyze', 'review', 'audit'],
+      explanation: ['explain', 'document', 'describe'],
+    },
+  },
+  zh: {
+    name: 'Chinese',
+    taskTypes: {
+      code_generation: ['生成', '创建', '编写代码', '写一个', '实现', '开发', '新增功能', '添加功能'],
+      bug_fixing: ['修复', '修正', '报错', '出错', '错误', '异常', '崩溃', '调试', '故障', '不生效'],
+      code_review: ['审查', '评审', '审核', '检查代码', '分析代码', '代码走查'],
+      test_writing: ['测试', '单元测试', '测试用例', '用例', '覆盖率'],
+      documentation: ['文档', '注释', '说明书', '使用说明'],
+      architecture_analysis: ['架构', '设计', '结构', '系统设计', '模块划分'],
+    },
+    domains: {
+      math: ['数学', '计算', '公式', '方程', '证明'],
+      reasoning: ['推理', '逻辑', '推断', '推导', '结论'],
+      multimodal: ['图片', '图像', '视频', '音频', '视觉', '图表'],
+      code: ['代码', '函数', '方法', '接口', '程序', '脚本', '类型'],
+    },
+    complexity: {
+      expert: ['复杂', '高级', '分布式', '可扩展', '高性能', '优化', '重构整个', '架构级'],
+      complex: ['多个', '集成', '系统', '框架', '算法', '设计模式'],
+      moderate: ['实现', '创建', '构建', '开发', '函数', '方法'],
+    },
+    capabilities: {
+      tool_use: ['工具', '命令', '终端', '命令行'],
+      code_analysis: ['分析', '审查', '审计'],
+      explanation: ['解释', '文档', '说明', '描述'],
+    },
+  },
+};
+
+/**
+ * Scripts that identify a language on their own; checked in order, so kana
+ * (Japanese) wins over the Han characters Japanese text also contains
+ */
+const SCRIPT_LANGUAGES: { language: string; pattern: RegExp }[] = [
+  { language: 'ja', pattern: /[\u3040-\u30ff]/g },
+  { language: 'ko', pattern: /[\uac00-\ud7af]/g },
+  { language: 'zh', pattern: /[\u3400-\u4dbf\u4e00-\u9fff]/g },
+  { language: 'ru', pattern: /[\u0400-\u04ff]/g },
+];
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  ja: 'Japanese',
+  ko: 'Korean',
+  ru: 'Russian',
+};
+
+/**
+ * Han ideographs, kana and hangul: each carries about as much meaning as a short
+ * English word, so it counts as several characters of length
+ */
+const CJK_CHARACTERS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g;
+const CJK_LENGTH_FACTOR = 3;
+
+/**
+ * Share of letters a script needs for its language to be detected
+ */
+const SCRIPT_THRESHOLD = 0.2;
+
+/**
+ * Marker words needed to detect a Latin-script language other than English
+ */
+const MIN_MARKER_HITS = 2;
+
+/**
+ * Per-language keyword tables used by TaskParser, with language detection.
+ * Configured entries extend the built-in tables (patterns are added, not replaced).
+ */
+export class TaskLexicon {
+  private lexicon: Lexicon;
+
+  constructor(extensions: Lexicon = {}) {
+    this.lexicon = this.merge(DEFAULT_LEXICON, extensions);
+  }
+
+  /**
+   * Detect the language of a text: by script for CJK and Cyrillic, by configured
+   * marker words for other Latin-script languages, English otherwise
+   */
+  detectLanguage(text: string): string {
+    const letters = (text.match(/\p{L}/gu) || []).length;
+    if (letters === 0) {
+      return 'en';
+    }
+
+    for (const { language, pattern } of SCRIPT_LANGUAGES) {
+      const count = (text.match(pattern) || []).length;
+      if (count / letters >= SCRIPT_THRESHOLD) {
+        return language;
+      }
+    }
+
+    const lower = ` ${text.toLowerCase().replace(/\s+/g, ' ')} `;
+    let best = 'en';
+    let bestHits = MIN_MARKER_HITS - 1;
+    for (const [language, entry] of Object.entries(this.lexicon)) {
+      const hits = (entry.markers || []).filter(marker => lower.includes(` ${marker.toLowerCase()} `)).length;
+      if (hits > bestHits) {
+        best = language;
+        bestHits = hits;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Length of a text in English-equivalent characters, for length-based heuristics
+   * tuned on English (CJK characters count CJK_LENGTH_FACTOR times)
+   */
+  weightedLength(text: string): number {
+    const cjk = (text.match(CJK_CHARACTERS) || []).length;
+    return text.length + cjk * (CJK_LENGTH_FACTOR - 1);
+  }
+
+  /**
+   * Human-readable name of a language, for prompts
+   */
+  getLanguageName(language: string): string {
+    return this.lexicon[language]?.name || LANGUAGE_NAMES[language] || language;
+  }
+
+  /**
+   * Lowercased patterns of a category entry for a language, English patterns included
+   */
+  getPatterns(language: string, category: LexiconCategory, key: string): string[] {
+    const lookup = (lang: string) => (this.lexicon[lang]?.[category] as Record<string, string[]> | undefined)?.[key] || [];
+    const patterns = language === 'en' ? lookup('en') : [...lookup('en'), ...lookup(language)];
+    return patterns.map(pattern => pattern.toLowerCase());
+  }
+
+  /**
+   * Entry keys of a category for a language, English entries included
+   */
+  getKeys(language: string, category: LexiconCategory): string[] {
+    return [...new Set([
+      ...Object.keys(this.lexicon.en?.[category] || {}),
+      ...Object.keys(this.lexicon[language]?.[category] || {}),
+    ])];
+  }
+
+  /**
+   * Merge configured extensions into the built-in tables
+   */
+  private merge(base: Lexicon, extensions: Lexicon): Lexicon {
+    const merged: Lexicon = structuredClone(base);
+
+    for (const [language, entry] of Object.entries(extensions)) {
+      const target: LanguageLexicon = merged[language] ??= {};
+      if (entry.name) {
+        target.name = entry.name;
+      }
+      if (entry.markers) {
+        target.markers = [...new Set([...(target.markers || []), ...entry.markers])];
+      }
+
+      for (const category of ['taskTypes', 'domains', 'complexity', 'capabilities'] as LexiconCategory[]) {
+        const tables = (target[category] ??= {}) as Record<string, string[]>;
+        for (const [key, patterns] of Object.entries(entry[category] || {}) as [string, string[]][]) {
+          tables[key] = [...new Set([...(tables[key] || []), ...patterns])];
+        }
+      }
+    }
+
+    return merged;
+  }
+}
@@ -4,23 +4,61 @@ import {
   TaskDomain,
   TaskComplexity,
   TaskType,
+  BuiltInTaskType,
+  TaskClassification,
+  TaskTypeConfig,
+  LexiconCategory,
   ValidationError,
 } from '../types/index.js';
+import { TokenEstimator } from './TokenEstimator.js';
+import { TaskLexicon } from './TaskLexicon.js';
+import { BUILT_IN_TASK_TYPES } from './ConfigLoader.js';
+
+/**
+ * Keyword checks run in this order, after config-defined task types; the first match wins.
+ * Types naming what is produced (tests, docs, a review, a fix) come before the generic
+ * create/implement verbs, so "create a test for the bug fix" is test writing.
+ */
+const TASK_TYPE_ORDER: TaskType[] = ['test_writing', 'documentation', 'code_review', 'bug_fixing', 'code_generation', 'architecture_analysis'];
+const DOMAIN_ORDER: TaskDomain[] = ['math', 'reasoning', 'multimodal', 'code'];
 
 export class TaskParser {
+  private tokenEstimator = new TokenEstimator();
+
+  constructor(
+    private lexicon: TaskLexicon = new TaskLexicon(),
+    private taskTypes: Record<string, TaskTypeConfig> = {}
+  ) {}
+
   /**
-   * Parse a task input and extract its characteristics
+   * Get the lexicon used for keyword rules and language detection
    */
-  parseTask(input: TaskParserInput): ParsedTask {
+  getLexicon(): TaskLexicon {
+    return this.lexicon;
+  }
+
+  /**
+   * Parse a task input and extract its characteristics.
+   * A classification from TaskClassifier replaces the keyword rules; an explicit task type still wins.
+   */
+  parseTask(input: TaskParserInput, classification?: TaskClassification): ParsedTask {
     // Validate task description
     this.validateTask(input);
 
     const description = input.description.trim();
-    const taskType = this.detectTaskType(input.taskType, description);
-    const domain = this.detectDomain(description, taskType);
-    const complexity = this.detectComplexity(description);
-    const requiredCapabilities = this.extractCapabilities(description, taskType, domain);
+    const language = this.lexicon.detectLanguage(description);
+    const taskType = this.detectTaskType(input.taskType, description, language, classification);
+    const domain = classification?.domain ?? this.detectDomain(description, language, taskType);
+    const complexity = classification?.complexity ?? this.detectComplexity(description, language);
+    const requiredCapabilities = [...new Set([
+      ...(classification
+        ? [...classification.capabilities, 'reasoning']
+        : this.extractCapabilities(description, language, taskType, domain)),
+      ...(this.taskTypes[taskType]?.capabilities || []),
+    ])];
     const contextSize = this.calculateContextSize(input.context);
+    const estimatedTokens = this.tokenEstimator.estimate(description) +
+      this.tokenEstimator.estimate(input.context || '');
 
     return {
       description,
@@ -28,7 +66,9 @@ export class TaskParser {
       complexity,
       requiredCapabilities,
       contextSize,
+      estimatedTokens,
       taskType,
+      language,
     };
   }
 
@@ -50,37 +90,36 @@ export class TaskParser {
   }
 
   /**
-   * Detect task type from input or description
+   * Detect task type from input, classification or description.
+   * Config-defined task types are more specific than the built-in ones, so their
+   * keywords are checked first and also take precedence over a classification.
    */
-  private detectTaskType(explicitType: string | undefined, description: string): TaskType {
+  private detectTaskType(
+    explicitType: string | undefined,
+    description: string,
+    language: string,
+    classification?: TaskClassification
+  ): TaskType {
     if (explicitType) {
       const normalizedType = this.normalizeTaskType(explicitType);
       if (normalizedType) return normalizedType;
     }
 
-    // Detect from description
     const lowerDesc = description.toLowerCase();
-
-    if (this.matchesPatterns(lowerDesc, ['generate', 'create', 'write code', 'implement'])) {
-      return 'code_generation';
-    }
-    if (this.matchesPatterns(lowerDesc, ['bug', 'fix', 'error', 'issue', 'debug'])) {
-      return 'bug_fixing';
-    }
-    if (this.matchesPatterns(lowerDesc, ['review', 'analyze code', 'check code', 'audit'])) {
-      return 'code_review';
-    }
-    if (this.matchesPatterns(lowerDesc, ['test', 'unit test', 'testing', 'test case'])) {
-      return 'test_writing';
+    const customTypes = Object.keys(this.taskTypes).filter(type => !BUILT_IN_TASK_TYPES.includes(type as BuiltInTaskType));
+    const custom = customTypes.find(type => this.matchesTaskType(lowerDesc, language, type));
+    if (custom) {
+      return custom;
     }
-    if (this.matchesPatterns(lowerDesc, ['document', 'documentation', 'readme', 'doc'])) {
-      return 'documentation';
-    }
-    if (this.matchesPatterns(lowerDesc, ['architecture', 'design', 'structure', 'system'])) {
-      return 'architecture_analysis';
+
+    if (classification) {
+      return classification.taskType;
     }
 
-    return 'general';
+    // Detect from description
+    const detected = TASK_TYPE_ORDER.find(type => this.matchesTaskType(lowerDesc, language, type));
+
+    return detected || 'general';
   }
 
   /**
@@ -106,88 +145,53 @@ export class TaskParser {
       'design': 'architecture_analysis',
     };
 
-    return typeMap[type.toLowerCase()] || null;
+    const lowerType = type.toLowerCase();
+    if (this.taskTypes[lowerType]) {
+      return lowerType;
+    }
+    return typeMap[lowerType] || null;
   }
 
   /**
    * Detect domain from description
    */
-  private detectDomain(description: string, taskType: TaskType): TaskDomain {
+  private detectDomain(description: string, language: string, taskType: TaskType): TaskDomain {
     const lowerDesc = description.toLowerCase();
 
     // Task type hints
+    const configuredDomain = this.taskTypes[taskType]?.domain;
+    if (configuredDomain) {
+      return configuredDomain;
+    }
     if (['code_generation', 'bug_fixing', 'code_review', 'test_writing'].includes(taskType)) {
       return 'code';
     }
 
     // Content-based detection
-    if (this.matchesPatterns(lowerDesc, ['math', 'calculate', 'formula', 'equation', 'proof'])) {
-      return 'math';
-    }
-    if (this.matchesPatterns(lowerDesc, ['reason', 'logic', 'deduce', 'infer', 'conclude'])) {
-      return 'reasoning';
-    }
-    if (this.matchesPatterns(lowerDesc, ['image', 'video', 'audio', 'visual', 'diagram'])) {
-      return 'multimodal';
-    }
-    if (this.matchesPatterns(lowerDesc, ['code', 'function', 'class', 'api', 'program', 'script'])) {
-      return 'code';
-    }
+    const detected = DOMAIN_ORDER.find(domain => this.matchesLexicon(lowerDesc, language, 'domains', domain));
 
-    return 'general';
+    return detected || 'general';
   }
 
   /**
    * Detect complexity level
    */
-  private detectComplexity(description: string): TaskComplexity {
+  private detectComplexity(description: string, language: string): TaskComplexity {
     const lowerDesc = description.toLowerCase();
-    const length = description.length;
+    const length = this.lexicon.weightedLength(description);
 
     // Expert level indicators
-    if (
-      this.matchesPatterns(lowerDesc, [
-        'complex',
-        'advanced',
-        'sophisticated',
-        'distributed',
-        'scalable',
-        'high-performance',
-        'optimize',
-        'refactor entire',
-        'architectural',
-      ])
-    ) {
+    if (this.matchesLexicon(lowerDesc, language, 'complexity', 'expert')) {
       return 'expert';
     }
 
     // Complex level indicators
-    if (
-      this.matchesPatterns(lowerDesc, [
-        'multiple',
-        'integrate',
-        'system',
-        'framework',
-        'algorithm',
-        'design pattern',
-      ]) ||
-      length > 500
-    ) {
+    if (this.matchesLexicon(lowerDesc, language, 'complexity', 'complex') || length > 500) {
       return 'complex';
     }
 
     // Moderate level indicators
-    if (
-      this.matchesPatterns(lowerDesc, [
-        'implement',
-        'create',
-        'build',
-        'develop',
-        'function',
-        'class',
-      ]) ||
-      length > 200
-    ) {
+    if (this.matchesLexicon(lowerDesc, language, 'complexity', 'moderate') || length > 200) {
       return 'moderate';
     }
 
@@ -200,6 +204,7 @@ export class TaskParser {
    */
   private extractCapabilities(
     description: string,
+    language: string,
     taskType: TaskType,
     domain: TaskDomain
   ): string[] {
@@ -229,14 +234,10 @@ export class TaskParser {
     }
 
     // Content-based capabilities
-    if (this.matchesPatterns(lowerDesc, ['tool', 'command', 'terminal', 'cli'])) {
-      capabilities.add('tool_use');
-    }
-    if (this.matchesPatterns(lowerDesc, ['analyze', 'review', 'audit'])) {
-      capabilities.add('code_analysis');
-    }
-    if (this.matchesPatterns(lowerDesc, ['explain', 'document', 'describe'])) {
-      capabilities.add('explanation');
+    for (const capability of this.lexicon.getKeys(language, 'capabilities')) {
+      if (this.matchesLexicon(lowerDesc, language, 'capabilities', capability)) {
+        capabilities.add(capability);
+      }
     }
 
     // Always include reasoning for non-simple tasks
@@ -253,6 +254,21 @@ export class TaskParser {
     return context.length;
   }
 
+  /**
+   * Helper: Check if text matches a task type's lexicon patterns or configured keywords
+   */
+  private matchesTaskType(text: string, language: string, taskType: TaskType): boolean {
+    const keywords = (this.taskTypes[taskType]?.keywords || []).map(keyword => keyword.toLowerCase());
+    return this.matchesLexicon(text, language, 'taskTypes', taskType) || this.matchesPatterns(text, keywords);
+  }
+
+  /**
+   * Helper: Check if text matches any lexicon pattern of a category entry
+   */
+  private matchesLexicon(text: string, language: string, category: LexiconCategory, key: string): boolean {
+    return this.matchesPatterns(text, this.lexicon.getPatterns(language, category, key));
+  }
+
   /**
    * Helper: Check if text matches any pattern
    */
@@ -0,0 +1,181 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeArtifact, TestRunIteration } from '../types/index.js';
+import { CodeBlockExtractor } from './CodeBlockExtractor.js';
+import { WorkspaceTools } from './WorkspaceTools.js';
+
+/**
+ * Directories left out of the scratch copy
+ */
+const SKIPPED_DIRECTORIES = new Set(['.git', 'dist', 'build', '.next', '__pycache__', 'coverage']);
+
+/**
+ * Dependency directories, linked into the scratch copy instead of copied when
+ * `linkDependencies` is set
+ */
+const DEPENDENCY_DIRECTORIES = new Set(['node_modules', '.venv', 'venv']);
+
+const MAX_FAILURES = 20;
+const MAX_OUTPUT_TAIL_CHARS = 4000;
+
+// "12 passed", "1 failing", "3 skip" ... as printed by bun, jest, vitest, mocha and pytest
+const COUNT_PATTERN = /\b(\d+)\s+(pass(?:ed|ing)?|fail(?:ed|ing|ures?)?|skip(?:ped)?|pending|todo)\b/gi;
+// "# pass 12" in TAP summaries (node --test)
+const TAP_COUNT_PATTERN = /^#\s+(pass|fail|skip(?:ped)?|todo)\s+(\d+)\s*$/gim;
+// Lines naming a failing test
+const FAILURE_LINE = /^\s*(?:not ok \d+ |✗|✕|×|\(fail\)|FAIL\b|FAILED\b|\d+\) \S|--- FAIL:)/;
+
+/**
+ * Runs generated tests in a scratch copy of the workspace: writes the test files
+ * of a response, runs the test command through the sandbox policy and parses the
+ * pass/fail summary. Files are only written to the copy; with `linkDependencies`,
+ * the copy shares the workspace's dependency directories and tests can modify them.
+ */
+export class TestRunner {
+  private extractor = new CodeBlockExtractor();
+  private written = new Set<string>();
+
+  constructor(private workspaceRoot: string, private linkDependencies = false) {}
+
+  /**
+   * Copy the workspace to a temporary directory, dependency directories included
+   * so the test command finds installed packages. Symlinks are copied as they are,
+   * keeping relative links inside the copy.
+   */
+  async createScratch(): Promise<string> {
+    const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'mini-swe-tests-'));
+    await fs.cp(this.workspaceRoot, scratch, {
+      recursive: true,
+      verbatimSymlinks: true,
+      filter: async (source) => {
+        const name = path.basename(source);
+        if (source === this.workspaceRoot) {
+          return true;
+        }
+        if (SKIPPED_DIRECTORIES.has(name)) {
+          return false;
+        }
+        if (this.linkDependencies && DEPENDENCY_DIRECTORIES.has(name)) {
+          await fs.symlink(source, path.join(scratch, path.relative(this.workspaceRoot, source)), 'dir');
+          return false;
+        }
+        return true;
+      },
+    });
+    console.error(`[TestRunner.createScratch] Copied ${this.workspaceRoot} to ${scratch}`);
+    return scratch;
+  }
+
+  async removeScratch(scratch: string): Promise<void> {
+    await fs.rm(scratch, { recursive: true, force: true });
+  }
+
+  /**
+   * Write the response's test files into the scratch copy and run the test command.
+   * Files written by an earlier iteration but absent from this response are removed.
+   */
+  async run(tools: WorkspaceTools, response: string, command: string, iteration: number): Promise<TestRunIteration> {
+    const result: TestRunIteration = { iteration, files: [], timedOut: false, success: false, failures: [], output: '' };
+    const files = this.testFiles(this.extractor.extract(response));
+    if (files.length === 0) {
+      return { ...result, error: 'No test code blocks found in the response' };
+    }
+
+    try {
+      for (const stale of [...this.written].filter(file => !files.some(f => f.path === file))) {
+        await fs.rm(await tools.resolvePath(stale), { force: true });
+        this.written.delete(stale);
+      }
+      for (const file of files) {
+        await tools.execute('write_file', { path: file.path, content: file.content });
+        this.written.add(file.path);
+      }
+      result.files = files.map(file => file.path);
+
+      const observation = await tools.execute('run_command', { command });
+      return { ...result, ...this.parseOutput(observation) };
+    } catch (error: any) {
+      return { ...result, error: error.message };
+    }
+  }
+
+  /**
+   * Build the follow-up message returning the failures to the model
+   */
+  buildFixPrompt(command: string, iteration: TestRunIteration): string {
+    const counts = [
+      iteration.failed !== undefined ? `${iteration.failed} failed` : '',
+      iteration.passed !== undefined ? `${iteration.passed} passed` : '',
+    ].filter(Boolean).join(', ');
+    const status = iteration.timedOut ? 'timed out' : `exited with code ${iteration.exitCode}`;
+
+    return [
+      `Running \`${command}\` on your tests ${status}${counts ? ` (${counts})` : ''}.`,
+      ...(iteration.failures.length > 0 ? ['', 'Failing tests:', ...iteration.failures.map(failure => `- ${failure}`)] : []),
+      '',
+      'Output:',
+      '```',
+      iteration.output,
+      '```',
+      '',
+      'Fix the tests and respond again with every test file complete, each in a fenced code block with its file path ' +
+      '(e.g. ```ts src/foo.test.ts). If a failure reveals a bug in the code under test rather than in the test, ' +
+      'keep the test and say so.',
+    ].join('\n');
+  }
+
+  /**
+   * Test files of a response: blocks with a filename, plus untitled TypeScript,
+   * JavaScript and Python blocks under generated names
+   */
+  private testFiles(artifacts: CodeArtifact[]): { path: string; content: string }[] {
+    return artifacts.flatMap((artifact) => {
+      if (artifact.filename) {
+        return [{ path: artifact.filename, content: artifact.code }];
+      }
+      switch (artifact.language) {
+        case 'typescript':
+          return [{ path: `generated-${artifact.index}.test.ts`, content: artifact.code }];
+        case 'javascript':
+          return [{ path: `generated-${artifact.index}.test.js`, content: artifact.code }];
+        case 'python':
+          return [{ path: `test_generated_${artifact.index}.py`, content: artifact.code }];
+        default:
+          return [];
+      }
+    });
+  }
+
+  /**
+   * Parse a run_command observation ("exit code: N" or "timed out ..." followed by the output)
+   */
+  private parseOutput(observation: string): Partial<TestRunIteration> {
+    const [status, ...rest] = observation.split('\n');
+    const output = rest.join('\n');
+    const exitCode = status.match(/^exit code: (\d+)$/)?.[1];
+    const timedOut = status.startsWith('timed out');
+
+    // The last summary wins: jest and vitest print file counts before test counts
+    const counts: Partial<Record<'passed' | 'failed' | 'skipped', number>> = {};
+    const matches = [
+      ...[...output.matchAll(COUNT_PATTERN)].map(match => ({ at: match.index!, kind: match[2], count: match[1] })),
+      ...[...output.matchAll(TAP_COUNT_PATTERN)].map(match => ({ at: match.index!, kind: match[1], count: match[2] })),
+    ].sort((a, b) => a.at - b.at);
+    for (const { kind, count } of matches) {
+      const lower = kind.toLowerCase();
+      const key = lower.startsWith('pass') ? 'passed' : lower.startsWith('fail') ? 'failed' : 'skipped';
+      counts[key] = Number(count);
+    }
+
+    const failures = [...new Set(output.split('\n').filter(line => FAILURE_LINE.test(line)).map(line => line.trim()))];
+    return {
+      exitCode: exitCode !== undefined ? Number(exitCode) : undefined,
+      timedOut,
+      success: exitCode === '0' && !timedOut,
+      ...counts,
+      failures: failures.slice(0, MAX_FAILURES),
+      output: output.length > MAX_OUTPUT_TAIL_CHARS ? `... ${output.slice(-MAX_OUTPUT_TAIL_CHARS)}` : output,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Offline token count estimate for when the server reports no usage.
+ *
+ * Modern tokenizers (Qwen, GPT-OSS, Llama 3) encode most CJK characters as
+ * roughly one token each, while English averages about four characters per
+ * token, so a flat `length / 4` undercounts Chinese text several times over.
+ */
+export class TokenEstimator {
+  // Han ideographs, kana, hangul, and CJK/fullwidth punctuation
+  private static readonly CJK_PATTERN =
+    /[\u3000-\u303F\u3040-\u30FF\u3100-\u312F\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF]/g;
+
+  // Latin words, digit runs, and any other single non-space symbol
+  private static readonly SEGMENT_PATTERN = /[A-Za-z]+|\d+|[^\sA-Za-z\d]/g;
+
+  /**
+   * Estimate the number of tokens in a text
+   */
+  estimate(text: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    const cjkCount = (text.match(TokenEstimator.CJK_PATTERN) || []).length;
+    const rest = text.replace(TokenEstimator.CJK_PATTERN, ' ');
+
+    let tokens = cjkCount;
+    for (const segment of rest.match(TokenEstimator.SEGMENT_PATTERN) || []) {
+      if (/^[A-Za-z]/.test(segment)) {
+        // ~4 characters per token including the preceding space, which is not part of the segment
+        tokens += Math.ceil(segment.length / 5);
+      } else if (/^\d/.test(segment)) {
+        tokens += Math.ceil(segment.length / 3);
+      } else {
+        tokens += 1;
+      }
+    }
+
+    // Whitespace runs (indentation, newlines) are usually merged into few tokens
+    tokens += Math.ceil((text.match(/\n/g) || []).length / 2);
+
+    return tokens;
+  }
+}
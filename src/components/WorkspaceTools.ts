@@ -0,0 +1,312 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { AgentActionName, PolicyViolationError, ValidationError, WorkspaceError } from '../types/index.js';
+import { CommandPolicy } from './CommandPolicy.js';
+
+/**
+ * Directories skipped when listing recursively or searching
+ */
+const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules', 'dist', 'build', '.next', '__pycache__']);
+
+/**
+ * Files larger than this are not searched by grep
+ */
+const MAX_GREP_FILE_SIZE = 1024 * 1024;
+
+const MAX_GREP_MATCHES = 100;
+const MAX_LIST_ENTRIES = 500;
+
+/**
+ * File and command tools available to the agent loop.
+ * Every path is resolved inside the workspace root; paths that escape it
+ * (via `..`, absolute paths or symlinks) are rejected. Commands and writes
+ * go through the sandbox policy.
+ */
+export class WorkspaceTools {
+  private realRoot?: string;
+
+  constructor(private root: string, private policy: CommandPolicy) {}
+
+  /**
+   * Get the workspace root directory
+   */
+  getRoot(): string {
+    return this.root;
+  }
+
+  /**
+   * Run an agent action and return its observation text
+   */
+  async execute(action: Exclude<AgentActionName, 'submit'>, args: Record<string, any>): Promise<string> {
+    switch (action) {
+      case 'read_file':
+        return this.readFile(this.requireString(args, 'path'), args.start_line, args.end_line);
+      case 'list_dir':
+        return this.listDir(typeof args.path === 'string' ? args.path : '.');
+      case 'grep':
+        return this.grep(this.requireString(args, 'pattern'), typeof args.path === 'string' ? args.path : '.');
+      case 'write_file':
+        return this.writeFile(this.requireString(args, 'path'), this.requireString(args, 'content', true));
+      case 'run_command':
+        return this.runCommand(this.requireString(args, 'command'));
+      default:
+        throw new ValidationError(`Unknown action "${action}"`);
+    }
+  }
+
+  /**
+   * Read a file, optionally limited to a 1-based inclusive line range, with line numbers
+   */
+  private async readFile(filePath: string, startLine?: number, endLine?: number): Promise<string> {
+    const resolved = await this.resolvePath(filePath);
+    const content = await fs.readFile(resolved, 'utf-8');
+    const lines = content.split('\n');
+
+    const start = Math.max(1, Number(startLine) || 1);
+    const end = Math.min(lines.length, Number(endLine) || lines.length);
+
+    return lines
+      .slice(start - 1, end)
+      .map((line, index) => `${String(start + index).padStart(5)}  ${line}`)
+      .join('\n');
+  }
+
+  /**
+   * List a directory's entries, directories suffixed with "/"
+   */
+  private async listDir(dirPath: string): Promise<string> {
+    const resolved = await this.resolvePath(dirPath);
+    const entries = await fs.readdir(resolved, { withFileTypes: true });
+
+    const names = entries
+      .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name)
+      .sort();
+
+    if (names.length === 0) {
+      return '(empty directory)';
+    }
+    if (names.length > MAX_LIST_ENTRIES) {
+      return [...names.slice(0, MAX_LIST_ENTRIES), `... ${names.length - MAX_LIST_ENTRIES} more entries`].join('\n');
+    }
+    return names.join('\n');
+  }
+
+  /**
+   * Search files under a path for a regular expression, reporting "file:line: text"
+   */
+  private async grep(pattern: string, searchPath: string): Promise<string> {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern);
+    } catch (error: any) {
+      throw new ValidationError(`Invalid regular expression: ${error.message}`);
+    }
+
+    const resolved = await this.resolvePath(searchPath);
+    const matches: string[] = [];
+
+    for await (const file of this.walkFiles(resolved)) {
+      const stats = await fs.stat(file);
+      if (stats.size > MAX_GREP_FILE_SIZE) continue;
+
+      const content = await fs.readFile(file, 'utf-8');
+      if (content.includes('\0')) continue; // binary
+
+      const lines = content.split('\n');
+      for (let i = 0; i < lines.length; i++) {
+        if (regex.test(lines[i])) {
+          matches.push(`${path.relative(this.root, file)}:${i + 1}: ${lines[i].trim().substring(0, 200)}`);
+          if (matches.length >= MAX_GREP_MATCHES) {
+            matches.push(`... stopped after ${MAX_GREP_MATCHES} matches`);
+            return matches.join('\n');
+          }
+        }
+      }
+    }
+
+    return matches.length > 0 ? matches.join('\n') : 'No matches found';
+  }
+
+  /**
+   * Create or overwrite a file, creating parent directories as needed
+   */
+  private async writeFile(filePath: string, content: string): Promise<string> {
+    let resolved: string;
+    try {
+      resolved = await this.resolvePath(filePath);
+    } catch (error: any) {
+      this.policy.logAction('write_file', filePath, false, error.message);
+      throw error;
+    }
+
+    this.policy.logAction('write_file', filePath, true);
+    if (this.policy.isDryRun()) {
+      return `[dry-run] Would write ${Buffer.byteLength(content)} bytes to ${path.relative(this.root, resolved)}`;
+    }
+
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    await fs.writeFile(resolved, content, 'utf-8');
+    return `Wrote ${Buffer.byteLength(content)} bytes to ${path.relative(this.root, resolved)}`;
+  }
+
+  /**
+   * Run a shell command in the workspace root if the sandbox policy allows it,
+   * with the policy's timeout, output cap and scrubbed environment
+   */
+  private async runCommand(command: string): Promise<string> {
+    const decision = this.policy.evaluate(command, this.root);
+    if (!decision.allowed) {
+      throw new PolicyViolationError(`Command denied by sandbox policy: ${decision.reason}`);
+    }
+    if (decision.dryRun) {
+      return `[dry-run] Command allowed but not executed: ${command}`;
+    }
+
+    const timeout = decision.timeout;
+    const maxOutputChars = this.policy.getMaxOutputChars();
+
+    return new Promise((resolve, reject) => {
+      const child = spawn('sh', ['-c', command], {
+        cwd: this.root,
+        env: this.policy.buildEnv(),
+        detached: true, // own process group, so the whole tree can be killed on timeout
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      let output = '';
+      let truncated = false;
+      const append = (chunk: Buffer) => {
+        if (output.length < maxOutputChars) {
+          output += chunk.toString('utf-8');
+        } else {
+          truncated = true;
+        }
+      };
+      child.stdout.on('data', append);
+      child.stderr.on('data', append);
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          child.kill('SIGKILL');
+        }
+      }, timeout);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        const status = timedOut
+          ? `timed out after ${timeout}ms`
+          : `exit code: ${code ?? signal}`;
+        truncated = truncated || output.length > maxOutputChars;
+        const body = output.substring(0, maxOutputChars) + (truncated ? '\n... [output truncated]' : '');
+        resolve(`${status}\n${body}`.trimEnd());
+      });
+    });
+  }
+
+  /**
+   * Recursively yield regular files under a path (or the path itself when it is a file)
+   */
+  private async *walkFiles(target: string): AsyncGenerator<string> {
+    const stats = await fs.stat(target);
+    if (stats.isFile()) {
+      yield target;
+      return;
+    }
+
+    const entries = await fs.readdir(target, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = path.join(target, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name)) {
+          yield* this.walkFiles(entryPath);
+        }
+      } else if (entry.isFile()) {
+        yield entryPath;
+      }
+    }
+  }
+
+  /**
+   * Delete a file through the sandbox policy (not an agent action; used for patches)
+   */
+  async deleteFile(filePath: string): Promise<string> {
+    let resolved: string;
+    try {
+      resolved = await this.resolvePath(filePath);
+    } catch (error: any) {
+      this.policy.logAction('delete_file', filePath, false, error.message);
+      throw error;
+    }
+
+    this.policy.logAction('delete_file', filePath, true);
+    if (this.policy.isDryRun()) {
+      return `[dry-run] Would delete ${path.relative(this.root, resolved)}`;
+    }
+
+    await fs.unlink(resolved);
+    return `Deleted ${path.relative(this.root, resolved)}`;
+  }
+
+  /**
+   * Resolve a workspace-relative path, rejecting anything outside the root.
+   * Symlinks are resolved through the nearest existing ancestor.
+   */
+  async resolvePath(relativePath: string): Promise<string> {
+    if (!this.realRoot) {
+      this.realRoot = await fs.realpath(this.root);
+    }
+
+    const resolved = path.resolve(this.root, relativePath);
+    if (!this.isInside(path.resolve(this.root), resolved)) {
+      throw new WorkspaceError(`Path "${relativePath}" is outside the workspace`);
+    }
+
+    // Resolve symlinks of the deepest existing ancestor (the target may not exist yet)
+    let existing = resolved;
+    while (true) {
+      try {
+        const real = await fs.realpath(existing);
+        if (!this.isInside(this.realRoot, real)) {
+          throw new WorkspaceError(`Path "${relativePath}" resolves outside the workspace`);
+        }
+        break;
+      } catch (error: any) {
+        if (error.code !== 'ENOENT' || existing === path.dirname(existing)) {
+          throw error;
+        }
+        existing = path.dirname(existing);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Check whether a path equals or is nested inside a directory
+   */
+  private isInside(directory: string, target: string): boolean {
+    const relative = path.relative(directory, target);
+    return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+  }
+
+  /**
+   * Get a required string argument
+   */
+  private requireString(args: Record<string, any>, name: string, allowEmpty: boolean = false): string {
+    const value = args[name];
+    if (typeof value !== 'string' || (!allowEmpty && value.trim() === '')) {
+      throw new ValidationError(`Missing required string argument "${name}"`);
+    }
+    return value;
+  }
+}
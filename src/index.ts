@@ -1,10 +1,17 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { MiniSWEAgent } from "./mini-swe-agent/MiniSWEAgent.js";
 import { OllamaRemoteMCPClient } from "./mini-swe-agent/OllamaRemoteMCPClient.js";
+import { SessionManager } from "./components/SessionManager.js";
+import { ModelRegistry } from "./components/ModelRegistry.js";
+import { StreamProgress, ChatMessage, ChatRequestOptions } from "./types/index.js";
+import * as fs from "fs/promises";
 import * as path from "path";
+import * as os from "os";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
 
@@ -20,6 +27,50 @@ function formatSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
 }
 
+// 工具函数：把流式输出转换为 MCP 进度通知
+// 客户端没有提供 progressToken 时返回 undefined（即不使用流式）
+const PROGRESS_INTERVAL = 250;
+
+function createProgressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ((progress: StreamProgress) => void) | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let lastProgress = 0;
+  let lastSentAt = 0;
+  let pending = '';
+
+  return (progress: StreamProgress) => {
+    pending += progress.delta;
+
+    // 节流：空 delta 表示流结束，强制发送剩余内容
+    const now = Date.now();
+    if (progress.delta && now - lastSentAt < PROGRESS_INTERVAL) {
+      return;
+    }
+
+    // progress 必须单调递增（回退到其他模型时 token 计数会重新开始）
+    lastProgress = Math.max(lastProgress + 1, progress.tokens);
+    lastSentAt = now;
+    const message = pending;
+    pending = '';
+
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: lastProgress,
+        message,
+      },
+    }).catch((error) => {
+      console.error('[MCP] Failed to send progress notification:', error.message);
+    });
+  };
+}
+
 // 1. 获取配置 (优先使用环境变量)
 // 在 Claude Desktop 配置文件中通过 env 传入
 const OLLAMA_BASE_URL = process.env.OLLAMA_BASE_URL || "http://localhost:11434";
@@ -41,8 +92,47 @@ const miniSWEAgent = new MiniSWEAgent({
   ollamaClient,
   logLevel: (process.env.MINI_SWE_LOG_LEVEL as any) || 'INFO',
   timeout: parseInt(process.env.MINI_SWE_TIMEOUT || '60000'),
+  availabilityTTL: parseInt(process.env.MINI_SWE_AVAILABILITY_TTL || '300000'),
+  statsPath: process.env.MINI_SWE_STATS_PATH ||
+    path.join(os.homedir(), '.ollama-remote-mcp', 'model-stats.json'),
+  costPath: process.env.MINI_SWE_COST_PATH ||
+    path.join(os.homedir(), '.ollama-remote-mcp', 'costs.json'),
+  workspaceRoot: process.env.MINI_SWE_WORKSPACE_ROOT,
 });
 
+// 对话会话（保存在服务器内存中）
+const sessionManager = new SessionManager();
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// 直接对话使用的模型配置（上下文窗口、请求参数）单独加载，不依赖 Agent 初始化。
+// 按配置文件的修改时间缓存：文件变化后重新加载，加载失败时使用空注册表（调用方使用默认值），
+// 直到文件再次变化才重试
+let chatRegistry: { mtimeMs: number; registry: Promise<ModelRegistry> } | undefined;
+
+// 工具函数：获取直接对话使用的模型注册表（并发请求共用同一次加载）
+async function getModelRegistry(): Promise<ModelRegistry> {
+  const mtimeMs = await fs.stat(configPath).then(stats => stats.mtimeMs, () => 0);
+  if (chatRegistry?.mtimeMs !== mtimeMs) {
+    const registry = new ModelRegistry();
+    chatRegistry = {
+      mtimeMs,
+      registry: registry.loadProfiles(configPath).then(
+        () => registry,
+        (error: any) => {
+          console.error(`[MCP] Model registry unavailable, using defaults: ${error.message}`);
+          return registry;
+        }
+      ),
+    };
+  }
+  return chatRegistry.registry;
+}
+
+// 工具函数：从模型配置中获取上下文窗口大小，未配置的模型使用默认值
+async function getContextWindow(model: string): Promise<number> {
+  return (await getModelRegistry()).getProfile(model)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+}
+
 // 2. 定义工具：让 Claude 可以调用远程 Ollama 模型
 // 2.1 工具：列出可用的 Ollama 模型
 server.tool(
@@ -169,66 +259,72 @@ server.tool(
     model: z.string().describe("要使用的模型名称，例如 'llama3', 'deepseek-coder'"),
     message: z.string().describe("发送给模型的提示词或问题"),
     system_prompt: z.string().optional().describe("可选的系统级指令"),
-    temperature: z.number().optional().default(0.7).describe("模型温度，0-1之间")
+    temperature: z.number().optional().default(0.7).describe("模型温度，0-1之间"),
+    stream: z.boolean().optional().default(false).describe("是否启用流式输出，通过 MCP 进度通知推送部分结果"),
+    session_id: z.string().optional().describe("可选的会话 ID，同一会话的多轮对话历史由服务器保存并随请求发送"),
+    backend: z.enum(["openai", "chat", "generate"]).optional().describe("API 后端：openai (/v1/chat/completions)、chat (/api/chat)、generate (/api/generate)。默认使用模型配置或 OLLAMA_BACKEND"),
+    options: z.object({
+      num_ctx: z.number().int().positive().optional().describe("上下文窗口大小（token）"),
+      top_p: z.number().min(0).max(1).optional().describe("核采样阈值"),
+      seed: z.number().int().optional().describe("随机种子，用于复现输出"),
+      repeat_penalty: z.number().nonnegative().optional().describe("重复惩罚系数"),
+    }).optional().describe("Ollama 模型参数，覆盖模型配置中的同名参数（num_ctx、repeat_penalty 仅原生后端支持）"),
+    keep_alive: z.union([z.string(), z.number()]).optional().describe("请求结束后模型在内存中保留的时间，例如 '10m'、0（仅原生后端支持）"),
+    format: z.union([z.literal("json"), z.record(z.unknown())]).optional().describe("输出格式：'json' 或 JSON Schema 对象")
   },
-  async ({ model, message, system_prompt, temperature }) => {
+  async ({ model, message, system_prompt, temperature, stream, session_id, backend, options, keep_alive, format }, extra) => {
 
     try {
-      // 构建请求 URL
-      const url = `${OLLAMA_BASE_URL.replace(/\/$/, "")}/v1/chat/completions`;
-
-      // 构建请求头
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
+      // 请求参数：工具参数优先，其次是 models.yaml 中该模型的配置
+      const settings = (await getModelRegistry()).getRequestSettings(model);
+      const requestOptions: ChatRequestOptions = {
+        backend: backend ?? settings.backend,
+        options: { ...settings.options, ...options },
+        keepAlive: keep_alive ?? settings.keepAlive,
+        format: format ?? settings.format,
+        // systemRole: false 的模型由客户端把系统提示合并到用户消息中
+        prompt: settings.prompt,
       };
 
-      // 如果配置了 API Key，添加到 Authorization Header
-      // 适配大多数 Nginx Bearer Auth 或自定义 Auth
-      if (OLLAMA_API_KEY) {
-        headers["Authorization"] = `Bearer ${OLLAMA_API_KEY}`;
-      }
+      // 会话模式：加载历史，并按模型的上下文窗口截断旧的对话轮次
+      let systemPrompt = system_prompt;
+      let history: ChatMessage[] = [];
+      let droppedMessages = 0;
 
-      // 构建请求体
-      const body = {
-        model: model,
-        messages: [
-          ...(system_prompt ? [{ role: "system", content: system_prompt }] : []),
-          { role: "user", content: message }
-        ],
-        stream: false, // MCP 工具通常需要一次性返回结果，关闭流式传输
-        options: {
-          temperature: temperature
+      if (session_id) {
+        const session = sessionManager.getOrCreate(session_id);
+        if (system_prompt) {
+          session.systemPrompt = system_prompt;
         }
-      };
+        session.model = model;
+        systemPrompt = session.systemPrompt;
 
-      // 发送请求
-      const response = await fetch(url, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(body),
-      });
-
-      if (!response.ok) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: Ollama API responded with status ${response.status}: ${response.statusText}`,
-            },
-          ],
-          isError: true,
-        };
+        const contextWindow = await getContextWindow(model);
+        ({ history, droppedMessages } = sessionManager.buildHistory(session, message, contextWindow));
       }
 
-      const data = await response.json() as any;
-      const reply = data.choices?.[0]?.message?.content || "No content returned";
+      // 流式模式：通过进度通知推送部分文本，最后返回完整结果
+      const onProgress = stream ? createProgressReporter(extra) : undefined;
+      const result = onProgress
+        ? await ollamaClient.chatStream(model, message, systemPrompt, temperature, onProgress, { ...requestOptions, history })
+        : await ollamaClient.chat(model, message, systemPrompt, temperature, { ...requestOptions, history });
+
+      const reply = result.content || "No content returned";
       console.error('[MCP DEBUG] Extracted reply:', reply);
 
+      if (session_id) {
+        sessionManager.appendExchange(session_id, message, result.content);
+      }
+
+      const notes = droppedMessages > 0
+        ? `\n\n（会话 ${session_id}：为适应上下文窗口，已省略 ${droppedMessages} 条较早的消息）`
+        : '';
+
       return {
         content: [
           {
             type: "text",
-            text: reply,
+            text: reply + notes,
           },
         ],
       };
@@ -247,6 +343,95 @@ server.tool(
   }
 );
 
+// 2.2.1 工具：列出所有会话
+server.tool(
+  "list_sessions",
+  "列出 chat_with_remote_ollama 的所有对话会话",
+  {},
+  async () => {
+    const sessions = sessionManager.listSessions();
+
+    if (sessions.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "当前没有对话会话。调用 chat_with_remote_ollama 时传入 session_id 即可创建会话。",
+          },
+        ],
+      };
+    }
+
+    const sessionListText = sessions.map((session, index) => {
+      return `${index + 1}. **${session.id}**\n   - 模型: ${session.model || '未知'}\n   - 消息数: ${session.messages.length}\n   - 更新时间: ${new Date(session.updatedAt).toISOString()}`;
+    }).join('\n\n');
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `💬 对话会话列表\n\n总共有 ${sessions.length} 个会话:\n\n${sessionListText}`,
+        },
+      ],
+    };
+  }
+);
+
+// 2.2.2 工具：查看会话历史
+server.tool(
+  "get_session",
+  "查看指定对话会话的完整消息历史",
+  {
+    session_id: z.string().describe("会话 ID"),
+  },
+  async ({ session_id }) => {
+    const session = sessionManager.getSession(session_id);
+
+    if (!session) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `会话不存在: ${session_id}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(session, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+// 2.2.3 工具：清除会话
+server.tool(
+  "clear_session",
+  "清除指定对话会话及其消息历史",
+  {
+    session_id: z.string().describe("会话 ID"),
+  },
+  async ({ session_id }) => {
+    const cleared = sessionManager.clearSession(session_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: cleared ? `已清除会话: ${session_id}` : `会话不存在: ${session_id}`,
+        },
+      ],
+      isError: !cleared,
+    };
+  }
+);
+
 // 2.3 工具:Mini-SWE Agent - 智能任务执行
 server.tool(
   "mini_swe_execute_task",
@@ -254,21 +439,90 @@ server.tool(
   {
     description: z.string().describe("任务描述,至少10个字符,详细说明要完成的任务"),
     context: z.string().optional().describe("可选的上下文信息,如代码片段、错误信息等"),
-    task_type: z.string().optional().describe("可选的任务类型:code_generation, bug_fixing, code_review, test_writing, documentation, architecture_analysis"),
+    context_files: z.array(z.string()).optional().describe("可选,作为上下文读取的文件路径(相对 MINI_SWE_WORKSPACE_ROOT),遵守 .gitignore"),
+    context_globs: z.array(z.string()).optional().describe("可选,作为上下文读取的 glob 模式(如 src/**/*.ts),遵守 .gitignore;文件按与任务描述的相关度排序并按所选模型的上下文窗口截取"),
+    task_type: z.string().optional().describe("可选的任务类型:code_generation, bug_fixing, code_review, test_writing, documentation, architecture_analysis，或 config/models.yaml 的 taskTypes 中定义的类型"),
+    stream: z.boolean().optional().default(false).describe("是否启用流式输出，通过 MCP 进度通知推送部分结果"),
+    strategy: z.enum(["quality", "fastest", "cheapest", "balanced"]).optional().describe("可选的模型选择策略:quality(质量优先), fastest(速度优先), cheapest(成本优先), balanced(均衡,默认)"),
+    model: z.string().optional().describe("可选,固定使用指定模型(须在 models.yaml 中配置),不做自动选择和回退"),
+    session_id: z.string().optional().describe("可选的会话 ID,用于按会话累计成本和预算"),
+    response_schema: z.record(z.unknown()).optional().describe("可选的 JSON Schema。提供时要求模型输出符合该 Schema 的 JSON,校验失败会带着错误信息重新请求,最终返回解析后的 JSON"),
+    max_repair_attempts: z.number().int().min(0).max(5).optional().describe("JSON 校验失败后的最大重试次数,默认 2"),
+    agent: z.boolean().optional().default(false).describe("是否启用 Agent 模式:模型在工作区(MINI_SWE_WORKSPACE_ROOT)内多步读取文件、搜索、写文件和执行命令,直到提交结果"),
+    max_steps: z.number().int().min(1).max(50).optional().describe("Agent 模式的最大步数,默认使用配置中的 agent.maxSteps(15)"),
+    classify: z.boolean().optional().describe("可选,是否用小模型对任务分类(类型、领域、复杂度、所需能力),失败或置信度不足时回退到关键词匹配;默认使用配置中的 classifier.enabled"),
+    ensemble: z.boolean().optional().describe("可选,是否并行运行排名前几的模型并由评审模型挑选或合并答案;默认按配置中的 ensemble.enabled 和 ensemble.taskTypes 决定"),
+    verify: z.boolean().optional().describe("可选,是否用模型按任务类型的评分标准给答案打分(0-1)作为置信度,低于阈值时换下一个备选模型重试;默认使用配置中的 verification.enabled"),
+    repair_code: z.boolean().optional().describe("可选,回答中的 TypeScript/JavaScript/JSON/Python 代码块有语法错误时是否把错误发回模型修复;默认使用配置中的 codeChecks.repair"),
+    run_tests: z.boolean().optional().describe("可选(仅 test_writing 任务):把生成的测试写入工作区(MINI_SWE_WORKSPACE_ROOT)的临时副本并运行测试命令,失败信息发回模型修复,结果附带测试运行报告"),
+    test_command: z.string().optional().describe("可选的测试命令,如 \"bun test\"、\"npx vitest run\";默认使用配置中的 testRun.command"),
+    max_test_iterations: z.number().int().min(0).max(5).optional().describe("测试失败后的最大修复轮数,默认使用配置中的 testRun.maxIterations(2)"),
+    patch_mode: z.enum(["check", "apply"]).optional().describe("可选的补丁模式(仅 bug_fixing 和 code_generation):要求模型输出 unified diff,check 只校验能否应用到工作区,apply 在全部 hunk 可应用时写入文件"),
   },
-  async ({ description, context, task_type }) => {
+  async ({ description, context, context_files, context_globs, task_type, stream, strategy, model, session_id, response_schema, max_repair_attempts, agent, max_steps, classify, ensemble, verify, repair_code, run_tests, test_command, max_test_iterations, patch_mode }, extra) => {
     try {
       // Execute task using Mini-SWE Agent
       const result = await miniSWEAgent.executeTask({
         description,
         context,
         taskType: task_type,
+        contextFiles: context_files,
+        contextGlobs: context_globs,
+      }, {
+        onProgress: stream ? createProgressReporter(extra) : undefined,
+        strategy,
+        pinnedModel: model,
+        sessionId: session_id,
+        responseSchema: response_schema,
+        maxRepairAttempts: max_repair_attempts,
+        agent,
+        maxSteps: max_steps,
+        patchMode: patch_mode,
+        classify,
+        ensemble,
+        verify,
+        repairCode: repair_code,
+        runTests: run_tests,
+        testCommand: test_command,
+        maxTestIterations: max_test_iterations,
       });
 
+      // 结构化输出：返回解析后的 JSON；校验始终失败时返回错误和模型的最后一次输出
+      if (response_schema) {
+        const structured = result.result.metadata?.structuredOutput;
+        if (structured?.valid) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result.result.data, null, 2),
+              },
+            ],
+          };
+        }
+
+        const errors = structured?.errors?.length
+          ? `\n\n校验错误:\n${structured.errors.map((e: string) => `- ${e}`).join('\n')}`
+          : '';
+        return {
+          content: [
+            {
+              type: "text",
+              text: `模型输出不符合 response_schema${structured ? `(共尝试 ${structured.attempts} 次)` : ''}${errors}\n\n${result.result.response || result.result.metadata?.error || ''}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
       // Format result as text for better readability
       const formatter = new (await import('./components/ResultFormatter.js')).ResultFormatter();
       const textResult = formatter.toText(result);
 
+      // 补丁模式：未找到 diff 或存在被拒绝/冲突的 hunk 时标记为错误
+      const patch = result.result.metadata?.patch;
+      const patchFailed = !!patch && (!!patch.error || patch.rejected > 0 || patch.conflicts > 0);
+
       return {
         content: [
           {
@@ -276,6 +530,7 @@ server.tool(
             text: textResult,
           },
         ],
+        ...(patchFailed ? { isError: true } : {}),
       };
     } catch (error: any) {
       return {
@@ -295,9 +550,25 @@ server.tool(
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
+
+  // 监听模型配置文件变化，无需重启即可生效（MINI_SWE_CONFIG_WATCH=false 关闭）
+  if (process.env.MINI_SWE_CONFIG_WATCH !== 'false') {
+    miniSWEAgent.watchConfig();
+  }
   console.error("Remote Ollama MCP Server running on stdio");
 }
 
+// 退出前停止监听配置并写入尚未保存的模型统计数据（写入有防抖，否则最后一段统计会丢失）
+async function shutdown(signal: string) {
+  console.error(`Received ${signal}, shutting down`);
+  await miniSWEAgent.close();
+  process.exit(0);
+}
+process.once('SIGINT', () => void shutdown('SIGINT'));
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
+// stdin 关闭后事件循环结束
+process.once('beforeExit', () => void miniSWEAgent.close());
+
 main().catch((error) => {
   console.error("Fatal error in main():", error);
   process.exit(1);
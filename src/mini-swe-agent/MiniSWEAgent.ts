@@ -1,17 +1,59 @@
+import { watchFile, unwatchFile, Stats } from 'fs';
+import { randomUUID } from 'crypto';
 import { TaskParser } from '../components/TaskParser.js';
+import { TaskLexicon } from '../components/TaskLexicon.js';
 import { ModelRegistry } from '../components/ModelRegistry.js';
 import { ModelSelector } from '../components/ModelSelector.js';
 import { SystemPromptGenerator } from '../components/SystemPromptGenerator.js';
 import { TaskExecutor, OllamaClient } from '../components/TaskExecutor.js';
 import { ResultFormatter } from '../components/ResultFormatter.js';
 import { ExecutionLogger } from '../components/ExecutionLogger.js';
+import { ModelStatsStore } from '../components/ModelStatsStore.js';
+import { CostTracker } from '../components/CostTracker.js';
+import { StructuredOutputValidator } from '../components/StructuredOutputValidator.js';
+import { AgentLoop } from '../components/AgentLoop.js';
+import { WorkspaceTools } from '../components/WorkspaceTools.js';
+import { CommandPolicy } from '../components/CommandPolicy.js';
+import { PatchApplier } from '../components/PatchApplier.js';
+import { ContextCollector, ContextCollection } from '../components/ContextCollector.js';
+import { ContextChunker } from '../components/ContextChunker.js';
+import { MapReduceExecutor } from '../components/MapReduceExecutor.js';
+import { EnsembleExecutor } from '../components/EnsembleExecutor.js';
+import { AnswerVerifier, DEFAULT_RUBRICS } from '../components/AnswerVerifier.js';
+import { CodeBlockExtractor } from '../components/CodeBlockExtractor.js';
+import { SyntaxChecker } from '../components/SyntaxChecker.js';
+import { TestRunner } from '../components/TestRunner.js';
+import { TokenEstimator } from '../components/TokenEstimator.js';
+import { TaskClassifier } from '../components/TaskClassifier.js';
 import {
   TaskParserInput,
   FormattedResult,
   LogLevel,
   ExecutionRequest,
   ExecutionResult,
-  ExecutionError as ExecutionErrorType,
+  FailedAttempt,
+  ExecutionTrace,
+  ParsedTask,
+  SelectionResult,
+  StreamProgress,
+  SelectionOptions,
+  BudgetExceededError,
+  ConfigurationError,
+  ValidationError,
+  PatchMode,
+  PatchResult,
+  TaskType,
+  ContextIngestionResult,
+  ContextChunk,
+  SystemPromptConfig,
+  EnsembleReport,
+  BuiltInTaskType,
+  VerificationAttempt,
+  VerificationReport,
+  CodeArtifact,
+  CodeCheckReport,
+  TestRunIteration,
+  TestRunReport,
 } from '../types/index.js';
 
 export interface MiniSWEAgentConfig {
@@ -19,8 +61,63 @@ export interface MiniSWEAgentConfig {
   ollamaClient: OllamaClient;
   logLevel?: LogLevel;
   timeout?: number;
+  availabilityTTL?: number;
+  statsPath?: string;
+  costPath?: string;
+  workspaceRoot?: string; // directory agent-mode tools operate in; agent mode is disabled without it
 }
 
+export interface ExecuteTaskOptions extends SelectionOptions {
+  onProgress?: (progress: StreamProgress) => void;
+  sessionId?: string;
+  // JSON Schema the response must conform to; the parsed object is returned as result.data
+  responseSchema?: Record<string, unknown>;
+  maxRepairAttempts?: number;
+  // Run a multi-step tool-use loop in the workspace instead of a single chat call
+  agent?: boolean;
+  maxSteps?: number;
+  // Require a unified diff and check it against (or apply it to) the workspace
+  patchMode?: PatchMode;
+  // Classify the task with a model instead of keyword rules (overrides classifier.enabled)
+  classify?: boolean;
+  // Run the top models in parallel and let a judge pick or merge the answers (overrides ensemble.enabled)
+  ensemble?: boolean;
+  // Grade the answer with a model and retry on the next alternative below the threshold (overrides verification.enabled)
+  verify?: boolean;
+  // Send code blocks with syntax errors back to the model for a fix (overrides codeChecks.repair)
+  repairCode?: boolean;
+  // Run generated tests in a scratch copy of the workspace and feed failures back (test_writing tasks only)
+  runTests?: boolean;
+  testCommand?: string; // overrides testRun.command
+  maxTestIterations?: number; // overrides testRun.maxIterations
+}
+
+const DEFAULT_AVAILABILITY_TTL = 5 * 60 * 1000;
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+const DEFAULT_AGENT_MAX_STEPS = 15;
+const DEFAULT_COMMAND_TIMEOUT = 30000;
+const DEFAULT_MAX_OBSERVATION_CHARS = 8000;
+const PATCH_TASK_TYPES: TaskType[] = ['bug_fixing', 'code_generation'];
+// Share of the selected model's context window available to context files
+const CONTEXT_FILES_BUDGET_RATIO = 0.5;
+// Share of the context window a request may fill before switching to map-reduce (the rest is left for the answer)
+const MAP_REDUCE_WINDOW_RATIO = 0.75;
+// Allowance for the map-step instructions added to the task description
+const MAP_INSTRUCTION_TOKENS = 150;
+const MIN_CHUNK_TOKENS = 512;
+const DEFAULT_CLASSIFIER_TIMEOUT = 15000;
+const DEFAULT_CLASSIFIER_MIN_CONFIDENCE = 0.6;
+const DEFAULT_ENSEMBLE_SIZE = 3;
+const DEFAULT_ENSEMBLE_TASK_TYPES: TaskType[] = ['code_review', 'architecture_analysis'];
+// Share of the judge's context window available to the task context and the answers
+const ENSEMBLE_JUDGE_WINDOW_RATIO = 0.5;
+const DEFAULT_VERIFICATION_THRESHOLD = 0.6;
+const DEFAULT_VERIFICATION_MAX_RETRIES = 1;
+// Share of the verifier's context window available to the task context and the answer
+const VERIFIER_WINDOW_RATIO = 0.5;
+const DEFAULT_CODE_REPAIR_ATTEMPTS = 1;
+const DEFAULT_TEST_FIX_ITERATIONS = 2;
+
 export class MiniSWEAgent {
   private taskParser: TaskParser;
   private modelRegistry: ModelRegistry;
@@ -29,14 +126,25 @@ export class MiniSWEAgent {
   private taskExecutor: TaskExecutor;
   private resultFormatter: ResultFormatter;
   private logger: ExecutionLogger;
+  private statsStore: ModelStatsStore;
+  private costTracker: CostTracker;
   private initialized: boolean = false;
+  private watching: boolean = false;
+  private reloadTimer?: ReturnType<typeof setTimeout>;
+  private reloadQueue: Promise<void> = Promise.resolve();
+  private lastTrace?: ExecutionTrace;
+  private tokenEstimator = new TokenEstimator();
+  private taskClassifier: TaskClassifier;
 
   constructor(private config: MiniSWEAgentConfig) {
     this.taskParser = new TaskParser();
+    this.statsStore = new ModelStatsStore(config.statsPath);
+    this.costTracker = new CostTracker(config.costPath);
     this.modelRegistry = new ModelRegistry();
-    this.modelSelector = new ModelSelector(this.modelRegistry);
+    this.modelSelector = new ModelSelector(this.modelRegistry, this.statsStore);
     this.promptGenerator = new SystemPromptGenerator();
-    this.taskExecutor = new TaskExecutor(config.ollamaClient, config.timeout);
+    this.taskExecutor = new TaskExecutor(config.ollamaClient, config.timeout, this.statsStore);
+    this.taskClassifier = new TaskClassifier(config.ollamaClient);
     this.resultFormatter = new ResultFormatter();
     this.logger = new ExecutionLogger(config.logLevel || 'INFO');
   }
@@ -56,15 +164,21 @@ export class MiniSWEAgent {
     try {
       // Load model profiles
       await this.modelRegistry.loadProfiles(this.config.configPath);
+      this.taskParser = new TaskParser(
+        new TaskLexicon(this.modelRegistry.getLexiconConfig()),
+        this.modelRegistry.getTaskTypeConfigs()
+      );
       this.logger.info('Model profiles loaded successfully');
+      for (const warning of this.modelRegistry.getWarnings()) {
+        this.logger.warn('Configuration warning', { warning });
+      }
 
-      // Verify model availability
-      // This would need to be implemented with actual Ollama API call
-      // For now, we'll mark all models as available
-      const allProfiles = this.modelRegistry.getAllProfiles();
-      await this.modelRegistry.verifyAvailability(
-        allProfiles.map(p => p.name)
-      );
+      // Load measured model performance and spending so far
+      await this.statsStore.load();
+      await this.costTracker.load();
+
+      // Verify model availability against the server's /api/tags
+      await this.refreshAvailability();
 
       this.initialized = true;
       this.logger.info('Mini-SWE Agent initialized successfully');
@@ -76,15 +190,151 @@ export class MiniSWEAgent {
     }
   }
 
+  /**
+   * Cross-check configured profiles against the models installed on the Ollama server
+   */
+  async refreshAvailability(registry: ModelRegistry = this.modelRegistry, previous?: ModelRegistry): Promise<void> {
+    const allProfiles = registry.getAllProfiles();
+
+    if (!this.config.ollamaClient.listModels) {
+      this.logger.warn('Ollama client cannot list models, assuming all configured models are available');
+      await registry.verifyAvailability(allProfiles.map(p => p.name));
+      return;
+    }
+
+    const serverModels = await this.config.ollamaClient.listModels();
+
+    if (serverModels.length === 0) {
+      // listModels() returns an empty list when the server is unreachable; don't lock
+      // every model out on a transient failure, keep the previous state (the replaced
+      // registry's on a reload, or all on first run)
+      this.logger.warn('Ollama server returned no models, keeping previous availability');
+      if (previous) {
+        registry.copyAvailability(previous);
+      } else if (registry.getAvailableProfiles().length === 0) {
+        await registry.verifyAvailability(allProfiles.map(p => p.name));
+      }
+      return;
+    }
+
+    await registry.verifyAvailability(serverModels);
+
+    const unavailable = allProfiles.filter(p => !p.available).map(p => p.name);
+    this.logger.info('Model availability refreshed', {
+      available: registry.getAvailableProfiles().map(p => p.name),
+      unavailable,
+    });
+  }
+
+  /**
+   * Watch the configuration file and hot-reload it on change
+   */
+  watchConfig(interval: number = 1000): void {
+    if (this.watching) {
+      return;
+    }
+
+    const watcher = watchFile(this.config.configPath, { interval }, (curr: Stats, prev: Stats) => {
+      if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) {
+        return;
+      }
+      // Editors often write in several steps; wait for the file to settle
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.reloadQueue = this.reloadQueue.then(async () => {
+          await this.reloadConfig();
+        });
+      }, 200);
+    });
+    watcher.unref();
+
+    this.watching = true;
+    this.logger.info('Watching configuration for changes', {
+      configPath: this.config.configPath,
+    });
+  }
+
+  /**
+   * Stop watching the configuration and write pending model stats to disk
+   */
+  async close(): Promise<void> {
+    this.unwatchConfig();
+    await this.statsStore.flush();
+  }
+
+  /**
+   * Stop watching the configuration file
+   */
+  unwatchConfig(): void {
+    if (!this.watching) {
+      return;
+    }
+    clearTimeout(this.reloadTimer);
+    unwatchFile(this.config.configPath);
+    this.watching = false;
+  }
+
+  /**
+   * Reload the configuration into a fresh registry and swap it in atomically.
+   * Tasks already running keep the registry snapshot they started with.
+   * If the new file is invalid, the last good configuration stays active.
+   */
+  async reloadConfig(): Promise<boolean> {
+    if (!this.initialized) {
+      // Nothing loaded yet; initialize() will read the current file
+      return false;
+    }
+
+    this.logger.info('Reloading configuration', {
+      configPath: this.config.configPath,
+    });
+
+    const nextRegistry = new ModelRegistry();
+    try {
+      await nextRegistry.loadProfiles(this.config.configPath);
+      await this.refreshAvailability(nextRegistry, this.modelRegistry);
+    } catch (error: any) {
+      console.error(`[MiniSWEAgent] Configuration reload failed, keeping last good config: ${error.message}`);
+      this.logger.error('Configuration reload failed, keeping last good configuration', {
+        error: error.message,
+      });
+      return false;
+    }
+
+    for (const warning of nextRegistry.getWarnings()) {
+      this.logger.warn('Configuration warning', { warning });
+    }
+
+    this.modelRegistry = nextRegistry;
+    this.modelSelector = new ModelSelector(nextRegistry, this.statsStore);
+    this.taskParser = new TaskParser(new TaskLexicon(nextRegistry.getLexiconConfig()), nextRegistry.getTaskTypeConfigs());
+
+    this.logger.info('Configuration reloaded', {
+      models: nextRegistry.getAllProfiles().map(p => p.name),
+    });
+    return true;
+  }
+
   /**
    * Execute a task
    */
-  async executeTask(input: TaskParserInput): Promise<FormattedResult> {
+  async executeTask(input: TaskParserInput, options: ExecuteTaskOptions = {}): Promise<FormattedResult> {
     if (!this.initialized) {
       console.error('[MiniSWEAgent] Not initialized, initializing now...');
       await this.initialize();
     }
 
+    if (this.modelRegistry.isAvailabilityStale(this.config.availabilityTTL ?? DEFAULT_AVAILABILITY_TTL)) {
+      console.error('[MiniSWEAgent] Model availability is stale, refreshing...');
+      await this.refreshAvailability();
+    }
+
+    // Snapshot the current configuration so a hot reload doesn't affect this task
+    const modelRegistry = this.modelRegistry;
+    const modelSelector = this.modelSelector;
+    const taskParser = this.taskParser;
+    const sessionId = options.sessionId || 'default';
+
     this.logger.clear(); // Clear previous logs
     console.error('[MiniSWEAgent] ========== TASK EXECUTION START ==========');
     console.error(`[MiniSWEAgent] Task description: ${input.description}`);
@@ -96,7 +346,66 @@ export class MiniSWEAgent {
       // 1. Parse task
       console.error('[MiniSWEAgent] STEP 1: Parsing task...');
       this.logger.debug('Parsing task');
-      const parsedTask = this.taskParser.parseTask(input);
+      const parsedTask = await this.parseTask(modelRegistry, taskParser, input, options.classify);
+      const outputValidator = options.responseSchema
+        ? new StructuredOutputValidator(options.responseSchema)
+        : undefined;
+      if (options.agent) {
+        if (!this.config.workspaceRoot) {
+          throw new ConfigurationError('Agent mode requires a workspace root (set MINI_SWE_WORKSPACE_ROOT)');
+        }
+        if (!parsedTask.requiredCapabilities.includes('tool_use')) {
+          parsedTask.requiredCapabilities.push('tool_use');
+        }
+      }
+      if (options.patchMode) {
+        if (!this.config.workspaceRoot) {
+          throw new ConfigurationError('Patch mode requires a workspace root (set MINI_SWE_WORKSPACE_ROOT)');
+        }
+        if (!PATCH_TASK_TYPES.includes(parsedTask.taskType)) {
+          throw new ValidationError(`Patch mode is only supported for ${PATCH_TASK_TYPES.join(' and ')} tasks, got ${parsedTask.taskType}`);
+        }
+        if (options.agent || options.responseSchema) {
+          throw new ValidationError('Patch mode cannot be combined with agent mode or a response schema');
+        }
+      }
+      if (options.ensemble && (options.agent || options.patchMode || options.responseSchema)) {
+        throw new ValidationError('Ensemble mode cannot be combined with agent mode, patch mode or a response schema');
+      }
+      const testCommand = options.testCommand || modelRegistry.getTestRunConfig().command;
+      if (options.runTests) {
+        if (!this.config.workspaceRoot) {
+          throw new ConfigurationError('Test runs require a workspace root (set MINI_SWE_WORKSPACE_ROOT)');
+        }
+        if (parsedTask.taskType !== 'test_writing') {
+          throw new ValidationError(`Test runs are only supported for test_writing tasks, got ${parsedTask.taskType}`);
+        }
+        if (!testCommand) {
+          throw new ConfigurationError('Test runs require a test command (set testRun.command or pass a test command)');
+        }
+        if (options.agent || options.patchMode || options.responseSchema || options.ensemble) {
+          throw new ValidationError('Test runs cannot be combined with agent mode, patch mode, a response schema or ensemble mode');
+        }
+      }
+
+      // Read context files up front so model selection sees their size; they are fitted to the selected model later
+      let contextCollector: ContextCollector | undefined;
+      let contextCollection: ContextCollection | undefined;
+      const baseTokens = parsedTask.estimatedTokens;
+      if (input.contextFiles?.length || input.contextGlobs?.length) {
+        if (!this.config.workspaceRoot) {
+          throw new ConfigurationError('Context files require a workspace root (set MINI_SWE_WORKSPACE_ROOT)');
+        }
+        contextCollector = new ContextCollector(this.createWorkspaceTools(modelRegistry));
+        contextCollection = await contextCollector.collect(input.contextFiles || [], input.contextGlobs || [], parsedTask.description);
+        parsedTask.contextSize += contextCollection.files.reduce((sum, file) => sum + file.content.length, 0);
+        parsedTask.estimatedTokens += contextCollection.totalTokens;
+        this.logger.info('Context files collected', {
+          files: contextCollection.files.map(file => file.path),
+          skipped: contextCollection.skipped,
+          totalTokens: contextCollection.totalTokens,
+        });
+      }
       console.error(`[MiniSWEAgent] STEP 1 RESULT: domain=${parsedTask.domain}, complexity=${parsedTask.complexity}, taskType=${parsedTask.taskType}`);
       this.logger.info('Task parsed', {
         domain: parsedTask.domain,
@@ -104,28 +413,76 @@ export class MiniSWEAgent {
         taskType: parsedTask.taskType,
       });
 
-      // 2. Select model
+      // 2. Check budget, then select model
+      const budget = this.costTracker.getBudgetStatus(sessionId, modelRegistry.getBudgetConfig());
+      if (budget.exhausted) {
+        throw new BudgetExceededError(
+          `Cost budget exhausted (session: ${budget.sessionSpent.toFixed(6)}` +
+          `${budget.sessionLimit !== undefined ? `/${budget.sessionLimit}` : ''}, ` +
+          `today: ${budget.dailySpent.toFixed(6)}${budget.dailyLimit !== undefined ? `/${budget.dailyLimit}` : ''})`
+        );
+      }
+
       console.error('[MiniSWEAgent] STEP 2: Selecting best model...');
-      this.logger.debug('Selecting model');
-      const selection = this.modelSelector.selectModel(parsedTask);
+      this.logger.debug('Selecting model', { budgetPressure: budget.pressure });
+      const selection = modelSelector.selectModel(parsedTask, {
+        strategy: options.strategy,
+        pinnedModel: options.pinnedModel,
+        budgetPressure: budget.pressure,
+      });
       console.error(`[MiniSWEAgent] STEP 2 RESULT: selectedModel=${selection.selectedModel}, score=${selection.score.score}`);
       console.error(`[MiniSWEAgent] STEP 2 ALTERNATIVES: ${selection.alternatives.map(a => `${a.modelName}(${a.score})`).join(', ')}`);
       this.logger.info('Model selected', {
         model: selection.selectedModel,
         score: selection.score.score,
+        strategy: selection.strategy,
+        pinned: !!options.pinnedModel,
       });
 
+      let contextIngestion: ContextIngestionResult | undefined;
+      let context = input.context;
+      if (contextCollector && contextCollection) {
+        const contextWindow = modelRegistry.getProfile(selection.selectedModel)?.contextWindow ?? 0;
+        const tokenBudget = Math.max(0, Math.floor(contextWindow * CONTEXT_FILES_BUDGET_RATIO) - baseTokens);
+        contextIngestion = contextCollector.fit(contextCollection, tokenBudget, parsedTask.description);
+        context = [input.context, contextIngestion.text].filter(Boolean).join('\n\n');
+        parsedTask.contextSize = context.length;
+        parsedTask.estimatedTokens = baseTokens + contextIngestion.tokensUsed;
+        this.logger.info('Context files fitted', {
+          model: selection.selectedModel,
+          tokenBudget,
+          tokensUsed: contextIngestion.tokensUsed,
+          included: contextIngestion.snippets.map(snippet => `${snippet.path}:${snippet.startLine}-${snippet.endLine}`),
+          omitted: contextIngestion.omitted,
+        });
+      }
+
       // 3. Generate system prompt
       console.error('[MiniSWEAgent] STEP 3: Generating system prompt...');
       this.logger.debug('Generating system prompt');
-      const systemPrompt = this.promptGenerator.generateSystemPrompt({
+      const promptConfig: SystemPromptConfig = {
         taskType: parsedTask.taskType,
         modelName: selection.selectedModel,
         domain: parsedTask.domain,
-        context: input.context,
-      });
+        context,
+        responseSchema: options.responseSchema,
+        agentMode: options.agent,
+        patchMode: !!options.patchMode,
+        language: parsedTask.language !== 'en' ? taskParser.getLexicon().getLanguageName(parsedTask.language) : undefined,
+        taskTemplate: modelRegistry.getTaskTemplate(parsedTask.taskType, selection.selectedModel),
+        profile: modelRegistry.getProfile(selection.selectedModel)?.prompt,
+      };
+      let systemPrompt = this.promptGenerator.generateSystemPrompt(promptConfig);
       console.error(`[MiniSWEAgent] STEP 3 RESULT: systemPrompt length=${systemPrompt.length} chars`);
 
+      // Context too large for the selected model: split it and map-reduce (agent mode reads files itself)
+      const chunks = !options.agent && context
+        ? this.planChunks(modelRegistry, selection.selectedModel, promptConfig, parsedTask.description, systemPrompt)
+        : undefined;
+      if (chunks) {
+        systemPrompt = this.promptGenerator.generateSystemPrompt({ ...promptConfig, context: undefined });
+      }
+
       // 4. Create execution request
       console.error('[MiniSWEAgent] STEP 4: Creating execution request...');
       const executionRequest: ExecutionRequest = {
@@ -133,6 +490,10 @@ export class MiniSWEAgent {
         modelName: selection.selectedModel,
         systemPrompt,
         temperature: 0.7,
+        onProgress: options.onProgress,
+        modelSettings: (modelName) => modelRegistry.getRequestSettings(modelName),
+        format: options.responseSchema,
+        retry: modelRegistry.getRetryConfig(),
       };
       console.error(`[MiniSWEAgent] STEP 4 RESULT: request created for model=${executionRequest.modelName}`);
 
@@ -142,18 +503,37 @@ export class MiniSWEAgent {
       const fallbackModels = selection.alternatives.map(alt => alt.modelName);
       console.error(`[MiniSWEAgent] STEP 5: Primary model: ${selection.selectedModel}`);
       console.error(`[MiniSWEAgent] STEP 5: Fallback models: ${fallbackModels.join(', ')}`);
-      const executionResult = await this.taskExecutor.executeWithFallback(
-        executionRequest,
-        fallbackModels
-      );
+      const ensembleModels = this.planEnsemble(modelRegistry, parsedTask.taskType, options, !!chunks, [selection.selectedModel, ...fallbackModels]);
+      const executionStart = Date.now();
+      const executionResult = options.agent
+        ? await this.createAgentLoop(modelRegistry, options.maxSteps).run(executionRequest, fallbackModels)
+        : ensembleModels
+          ? await this.runEnsemble(modelRegistry, executionRequest, ensembleModels, context)
+          : chunks
+            ? await new MapReduceExecutor(this.taskExecutor, this.logger).run(executionRequest, chunks.chunks, fallbackModels, {
+              systemPromptFor: (chunkContext) => this.promptGenerator.generateSystemPrompt({
+                ...promptConfig,
+                context: chunkContext,
+                responseSchema: undefined,
+                patchMode: false,
+              }),
+              contextTokens: chunks.contextTokens,
+              chunkTokenBudget: chunks.chunkTokenBudget,
+            })
+            : await this.taskExecutor.executeWithFallback(executionRequest, fallbackModels);
       console.error(`[MiniSWEAgent] STEP 5 RESULT: execution completed, result type=${Array.isArray(executionResult) ? 'error array' : 'success'}`);
 
       // 6. Check if execution succeeded or failed
       let finalResult: ExecutionResult;
 
+      const attemptErrors: FailedAttempt[] = Array.isArray(executionResult)
+        ? executionResult
+        : executionResult.metadata.failedAttempts || [];
+      await this.handleMissingModels(modelRegistry, attemptErrors);
+
       if (Array.isArray(executionResult)) {
         // All models failed
-        const errors = executionResult as ExecutionErrorType[];
+        const errors = executionResult as FailedAttempt[];
         console.error(`[MiniSWEAgent] STEP 6: ALL MODELS FAILED`);
         console.error(`[MiniSWEAgent] STEP 6: Failed models: ${errors.map(e => e.modelAttempted).join(', ')}`);
         errors.forEach((err, idx) => {
@@ -166,7 +546,8 @@ export class MiniSWEAgent {
         return this.resultFormatter.formatError(
           parsedTask,
           `All models failed: ${errors.map(e => `${e.modelAttempted}: ${e.error}`).join('; ')}`,
-          this.logger.getLogs()
+          this.logger.getLogs(),
+          budget
         );
       } else {
         // Execution succeeded
@@ -182,14 +563,98 @@ export class MiniSWEAgent {
         });
       }
 
+      if (outputValidator) {
+        finalResult = await this.enforceResponseSchema(
+          executionRequest,
+          finalResult,
+          outputValidator,
+          options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS
+        );
+      }
+
+      const codeChecks = modelRegistry.getCodeCheckConfig();
+      if (codeChecks.enabled !== false) {
+        const repair = options.repairCode ?? !!codeChecks.repair;
+        if (repair && (options.agent || chunks || finalResult.metadata.ensemble || outputValidator)) {
+          this.logger.warn('Code repair skipped: not supported for agent, map-reduce, ensemble or structured output runs');
+        }
+        finalResult = await this.checkCode(
+          modelRegistry,
+          executionRequest,
+          finalResult,
+          repair && !options.agent && !chunks && !finalResult.metadata.ensemble && !outputValidator
+        );
+      }
+
+      const checkedResult = finalResult;
+      const checkedResponse = finalResult.response;
+      if (options.verify ?? modelRegistry.getVerificationConfig().enabled) {
+        if (options.agent || chunks || finalResult.metadata.ensemble || options.runTests) {
+          this.logger.warn('Verification skipped: not supported for agent, map-reduce, ensemble or test runs');
+        } else {
+          finalResult = await this.verifyAnswer(
+            modelRegistry,
+            executionRequest,
+            finalResult,
+            fallbackModels,
+            context,
+            outputValidator,
+            options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS
+          );
+        }
+      }
+
+      if (options.runTests) {
+        finalResult = await this.runGeneratedTests(
+          modelRegistry,
+          executionRequest,
+          finalResult,
+          testCommand!,
+          options.maxTestIterations ?? modelRegistry.getTestRunConfig().maxIterations ?? DEFAULT_TEST_FIX_ITERATIONS
+        );
+      }
+
+      // A retried or fixed answer replaced the checked one
+      if (codeChecks.enabled !== false && (finalResult !== checkedResult || finalResult.response !== checkedResponse)) {
+        finalResult = await this.checkCode(modelRegistry, executionRequest, finalResult, false);
+      }
+
+      if (contextIngestion) {
+        const { text, ...summary } = contextIngestion;
+        finalResult.metadata.contextFiles = summary;
+      }
+      if (options.patchMode) {
+        finalResult.metadata.patch = await this.applyPatch(modelRegistry, finalResult.response, options.patchMode, context);
+      }
+
+      // Account for the cost of this execution
+      const ensemble: EnsembleReport | undefined = finalResult.metadata.ensemble;
+      const costPerToken = modelRegistry.getProfile(finalResult.modelUsed)?.costPerToken || 0;
+      const verification: VerificationReport | undefined = finalResult.metadata.verification;
+      finalResult.cost = ensemble
+        ? this.calculateEnsembleCost(modelRegistry, ensemble)
+        : this.costTracker.calculateCost(finalResult.tokensUsed, costPerToken);
+      if (verification) {
+        finalResult.cost += this.calculateVerificationCost(modelRegistry, verification);
+      }
+      await this.costTracker.record(sessionId, finalResult.cost);
+      const budgetAfter = this.costTracker.getBudgetStatus(sessionId, modelRegistry.getBudgetConfig());
+      this.logger.info('Execution cost recorded', {
+        cost: finalResult.cost,
+        sessionCost: budgetAfter.sessionSpent,
+        dailyCost: budgetAfter.dailySpent,
+      });
+
       // 7. Format and return result
       console.error('[MiniSWEAgent] STEP 7: Formatting result...');
       const formattedResult = this.resultFormatter.formatResult(
         parsedTask,
         selection,
         finalResult,
-        this.logger.getLogs()
+        this.logger.getLogs(),
+        budgetAfter
       );
+      this.lastTrace = this.buildTrace(parsedTask, selection, finalResult, executionStart, attemptErrors);
       console.error('[MiniSWEAgent] ========== TASK EXECUTION END (SUCCESS) ==========');
 
       return formattedResult;
@@ -200,13 +665,695 @@ export class MiniSWEAgent {
       this.logger.error('Task execution failed', { error: error.message });
 
       // Return error result
-      const parsedTask = this.taskParser.parseTask(input);
+      const parsedTask = taskParser.parseTask(input);
       return this.resultFormatter.formatError(
         parsedTask,
         error.message,
-        this.logger.getLogs()
+        this.logger.getLogs(),
+        this.costTracker.getBudgetStatus(sessionId, modelRegistry.getBudgetConfig())
+      );
+    }
+  }
+
+  /**
+   * Parse a task, classifying it with a model when the classifier is enabled.
+   * Falls back to the keyword rules when no model is available, the call fails
+   * or the classification is not confident enough.
+   */
+  private async parseTask(
+    registry: ModelRegistry,
+    taskParser: TaskParser,
+    input: TaskParserInput,
+    classify?: boolean
+  ): Promise<ParsedTask> {
+    const keywordTask = taskParser.parseTask(input); // also validates the input
+    const config = registry.getClassifierConfig();
+    if (!(classify ?? config.enabled)) {
+      return keywordTask;
+    }
+
+    const fallback = (reason: string): ParsedTask => {
+      this.logger.warn('Task classification fell back to keywords', { reason });
+      keywordTask.classification = { source: 'keywords', fallbackReason: reason };
+      return keywordTask;
+    };
+
+    let classification = this.taskClassifier.getCached(input.description);
+    const cached = !!classification;
+    if (!classification) {
+      const model = this.pickClassifierModel(registry);
+      if (!model) {
+        return fallback('no classifier model available');
+      }
+      try {
+        classification = await this.taskClassifier.classify(input.description, model, {
+          timeout: config.timeout ?? DEFAULT_CLASSIFIER_TIMEOUT,
+          settings: registry.getRequestSettings(model),
+        });
+      } catch (error: any) {
+        return fallback(`${model}: ${error.message}`);
+      }
+    }
+
+    const minConfidence = config.minConfidence ?? DEFAULT_CLASSIFIER_MIN_CONFIDENCE;
+    if (classification.confidence < minConfidence) {
+      return fallback(`confidence ${classification.confidence} is below ${minConfidence}`);
+    }
+
+    const parsedTask = taskParser.parseTask(input, classification);
+    parsedTask.classification = {
+      source: 'llm',
+      model: classification.model,
+      confidence: classification.confidence,
+      cached,
+    };
+    this.logger.info('Task classified', {
+      model: classification.model,
+      confidence: classification.confidence,
+      cached,
+      keywordTaskType: keywordTask.taskType,
+    });
+    return parsedTask;
+  }
+
+  /**
+   * Classifier model: the configured one if available, otherwise the fastest (then cheapest) available model
+   */
+  private pickClassifierModel(registry: ModelRegistry): string | undefined {
+    const configured = registry.getClassifierConfig().model;
+    const available = registry.getAvailableProfiles();
+    if (configured && available.some(profile => profile.name === configured)) {
+      return configured;
+    }
+
+    return [...available]
+      .sort((a, b) => a.estimatedLatency - b.estimatedLatency || a.costPerToken - b.costPerToken)[0]?.name;
+  }
+
+  /**
+   * Create an agent loop over the workspace, using the agent settings of a registry snapshot
+   */
+  private createAgentLoop(registry: ModelRegistry, maxSteps?: number): AgentLoop {
+    const agentConfig = registry.getAgentConfig();
+    const maxObservationChars = agentConfig.maxObservationChars ?? DEFAULT_MAX_OBSERVATION_CHARS;
+
+    return new AgentLoop(this.taskExecutor, this.createWorkspaceTools(registry), this.logger, {
+      maxSteps: maxSteps ?? agentConfig.maxSteps ?? DEFAULT_AGENT_MAX_STEPS,
+      maxObservationChars,
+    });
+  }
+
+  /**
+   * Split the context into chunks when the request doesn't fit the model's context window.
+   * Returns undefined when it fits.
+   */
+  private planChunks(
+    registry: ModelRegistry,
+    modelName: string,
+    promptConfig: SystemPromptConfig,
+    description: string,
+    systemPrompt: string
+  ): { chunks: ContextChunk[]; contextTokens: number; chunkTokenBudget: number } | undefined {
+    const contextWindow = registry.getProfile(modelName)?.contextWindow;
+    if (!contextWindow) {
+      return undefined;
+    }
+
+    const windowTokens = Math.floor(contextWindow * MAP_REDUCE_WINDOW_RATIO);
+    const requestTokens = this.tokenEstimator.estimate(systemPrompt) + this.tokenEstimator.estimate(description);
+    if (requestTokens <= windowTokens) {
+      return undefined;
+    }
+
+    const mapPrompt = this.promptGenerator.generateSystemPrompt({
+      ...promptConfig,
+      context: '',
+      responseSchema: undefined,
+      patchMode: false,
+    });
+    const overhead = this.tokenEstimator.estimate(mapPrompt) + this.tokenEstimator.estimate(description) + MAP_INSTRUCTION_TOKENS;
+    const chunkTokenBudget = windowTokens - overhead;
+    if (chunkTokenBudget < MIN_CHUNK_TOKENS) {
+      throw new ValidationError(
+        `Task description and prompt leave too little room for context in ${modelName}'s ${contextWindow} token window`
       );
     }
+
+    const contextTokens = this.tokenEstimator.estimate(promptConfig.context || '');
+    const chunks = new ContextChunker().split(promptConfig.context || '', chunkTokenBudget);
+    this.logger.info('Context exceeds the model context window, using map-reduce', {
+      model: modelName,
+      contextWindow,
+      requestTokens,
+      contextTokens,
+      chunkTokenBudget,
+      chunks: chunks.map(chunk => `${chunk.startLine}-${chunk.endLine} (${chunk.tokens} tokens, ${chunk.boundary})`),
+    });
+
+    return { chunks, contextTokens, chunkTokenBudget };
+  }
+
+  /**
+   * Pick the models of an ensemble run, or undefined to run the task normally.
+   * The ensemble option forces it on or off; otherwise the config decides by task type.
+   */
+  private planEnsemble(
+    registry: ModelRegistry,
+    taskType: TaskType,
+    options: ExecuteTaskOptions,
+    mapReduce: boolean,
+    rankedModels: string[]
+  ): string[] | undefined {
+    const config = registry.getEnsembleConfig();
+    const wanted = options.ensemble ??
+      (!!config.enabled && (config.taskTypes ?? DEFAULT_ENSEMBLE_TASK_TYPES).includes(taskType));
+    if (!wanted || options.agent || options.patchMode || options.responseSchema) {
+      return undefined;
+    }
+    if (mapReduce) {
+      this.logger.warn('Ensemble skipped: the context needs map-reduce');
+      return undefined;
+    }
+
+    const models = rankedModels.slice(0, config.size ?? DEFAULT_ENSEMBLE_SIZE);
+    if (models.length < 2) {
+      this.logger.warn('Ensemble skipped: only one model is available', { models });
+      return undefined;
+    }
+    return models;
+  }
+
+  /**
+   * Run an ensemble; the configured judge model is used when available, else the selected model
+   */
+  private async runEnsemble(
+    registry: ModelRegistry,
+    request: ExecutionRequest,
+    models: string[],
+    context: string | undefined
+  ): Promise<ExecutionResult | FailedAttempt[]> {
+    const configuredJudge = registry.getEnsembleConfig().judge;
+    const judgeModel = configuredJudge && registry.getProfile(configuredJudge)?.available
+      ? configuredJudge
+      : models[0];
+    const contextWindow = registry.getProfile(judgeModel)?.contextWindow ?? 0;
+
+    this.logger.info('Running ensemble', { models, judge: judgeModel });
+    return new EnsembleExecutor(this.taskExecutor, this.logger).run(request, models, {
+      judgeModel,
+      judgeFallbackModels: models.filter(model => model !== judgeModel),
+      context,
+      tokenBudget: Math.floor(contextWindow * ENSEMBLE_JUDGE_WINDOW_RATIO),
+    });
+  }
+
+  /**
+   * Cost of an ensemble run: every member and the judge at their own price
+   */
+  private calculateEnsembleCost(registry: ModelRegistry, ensemble: EnsembleReport): number {
+    const costOf = (model: string | undefined, tokens: number) =>
+      this.costTracker.calculateCost(tokens, (model && registry.getProfile(model)?.costPerToken) || 0);
+
+    return ensemble.members.reduce((sum, member) => sum + costOf(member.model, member.tokensUsed), 0) +
+      costOf(ensemble.judgeModel, ensemble.judgeTokensUsed || 0);
+  }
+
+  /**
+   * Grade an answer on the task type's rubric. Below the threshold, the task is retried
+   * on the next untried alternative model (up to verification.maxRetries) and the
+   * best-scoring answer is returned, with the score as its confidence.
+   */
+  private async verifyAnswer(
+    registry: ModelRegistry,
+    request: ExecutionRequest,
+    result: ExecutionResult,
+    fallbackModels: string[],
+    context: string | undefined,
+    validator: StructuredOutputValidator | undefined,
+    maxRepairAttempts: number
+  ): Promise<ExecutionResult> {
+    const config = registry.getVerificationConfig();
+    const threshold = config.threshold ?? DEFAULT_VERIFICATION_THRESHOLD;
+    const maxRetries = config.maxRetries ?? DEFAULT_VERIFICATION_MAX_RETRIES;
+    const taskType = request.task.taskType;
+    const rubric = registry.getTaskTypeConfigs()[taskType]?.rubric ??
+      DEFAULT_RUBRICS[taskType as BuiltInTaskType] ?? DEFAULT_RUBRICS.general;
+    const verifier = new AnswerVerifier(this.taskExecutor);
+
+    const verify = (answer: ExecutionResult): Promise<VerificationAttempt> => {
+      const verifierModel = config.model && registry.getProfile(config.model)?.available ? config.model : answer.modelUsed;
+      const contextWindow = registry.getProfile(verifierModel)?.contextWindow ?? 0;
+      return verifier.verify(request, answer, {
+        verifierModel,
+        rubric,
+        context,
+        tokenBudget: Math.floor(contextWindow * VERIFIER_WINDOW_RATIO),
+      });
+    };
+
+    const tried = new Set([result.modelUsed, ...(result.metadata.failedAttempts || []).map((e: FailedAttempt) => e.modelAttempted)]);
+    let best = result;
+    let bestAttempt = await verify(result);
+    const attempts: VerificationAttempt[] = [bestAttempt];
+
+    for (let retries = 0; bestAttempt.score !== undefined && bestAttempt.score < threshold && retries < maxRetries; retries++) {
+      const nextModel = fallbackModels.find(model => !tried.has(model));
+      if (!nextModel) {
+        break;
+      }
+      tried.add(nextModel);
+      this.logger.warn('Answer below verification threshold, retrying on the next model', {
+        model: best.modelUsed,
+        score: bestAttempt.score,
+        threshold,
+        retryModel: nextModel,
+      });
+
+      let retry = await this.taskExecutor.executeTask({ ...request, modelName: nextModel });
+      if (!retry.success) {
+        attempts.push({
+          model: nextModel,
+          tokensUsed: retry.tokensUsed,
+          verifierTokensUsed: 0,
+          rationale: '',
+          criteria: [],
+          chosen: false,
+          error: retry.metadata.error,
+        });
+        continue;
+      }
+      if (validator) {
+        retry = await this.enforceResponseSchema(request, retry, validator, maxRepairAttempts);
+      }
+
+      const attempt = await verify(retry);
+      attempts.push(attempt);
+      if (attempt.score !== undefined && attempt.score > bestAttempt.score) {
+        best = retry;
+        bestAttempt = attempt;
+      }
+    }
+
+    bestAttempt.chosen = true;
+    const report: VerificationReport = {
+      threshold,
+      passed: bestAttempt.score !== undefined && bestAttempt.score >= threshold,
+      score: bestAttempt.score,
+      rationale: bestAttempt.error || bestAttempt.rationale,
+      criteria: bestAttempt.criteria,
+      verifierModel: bestAttempt.verifierModel,
+      chosenModel: best.modelUsed,
+      attempts,
+    };
+    best.metadata.verification = report;
+    if (bestAttempt.score !== undefined) {
+      best.confidence = Math.round(bestAttempt.score * 100);
+    }
+
+    if (bestAttempt.score === undefined) {
+      this.logger.warn('Answer verification failed', { error: bestAttempt.error });
+    } else {
+      this.logger.info('Answer verified', {
+        model: best.modelUsed,
+        verifier: bestAttempt.verifierModel,
+        score: bestAttempt.score,
+        passed: report.passed,
+        attempts: attempts.length,
+      });
+    }
+    return best;
+  }
+
+  /**
+   * Syntax-check the code blocks of a response. With repair, blocks with errors are
+   * sent back to the model that wrote them; a repaired response is kept only if it
+   * has fewer broken blocks.
+   */
+  private async checkCode(
+    registry: ModelRegistry,
+    request: ExecutionRequest,
+    result: ExecutionResult,
+    repair: boolean
+  ): Promise<ExecutionResult> {
+    const config = registry.getCodeCheckConfig();
+    const extractor = new CodeBlockExtractor();
+    const checker = new SyntaxChecker(config);
+    const failing = (artifacts: CodeArtifact[]) => artifacts.filter(artifact => artifact.check?.status === 'error');
+
+    let artifacts = await checker.checkAll(extractor.extract(result.response));
+    if (artifacts.length === 0) {
+      return result;
+    }
+
+    const maxRepairAttempts = repair ? config.maxRepairAttempts ?? DEFAULT_CODE_REPAIR_ATTEMPTS : 0;
+    let repairAttempts = 0;
+    const history = [
+      { role: 'user' as const, content: request.task.description },
+      { role: 'assistant' as const, content: result.response },
+    ];
+
+    while (failing(artifacts).length > 0 && repairAttempts < maxRepairAttempts) {
+      repairAttempts++;
+      this.logger.warn('Syntax errors in generated code, requesting repair', {
+        model: result.modelUsed,
+        attempt: repairAttempts,
+        blocks: failing(artifacts).map(artifact => `${artifact.index}: ${artifact.check!.errors[0]}`),
+      });
+
+      const message = checker.buildRepairPrompt(artifacts);
+      const repaired = await this.taskExecutor.executeTask({
+        ...request,
+        modelName: result.modelUsed,
+        history: [...history],
+        message,
+        statsTaskType: 'repair',
+      });
+
+      result.executionTime += repaired.executionTime;
+      result.tokensUsed += repaired.tokensUsed;
+      result.promptTokens += repaired.promptTokens;
+      result.completionTokens += repaired.completionTokens;
+
+      if (!repaired.success) {
+        this.logger.warn('Code repair failed', { error: repaired.metadata.error });
+        break;
+      }
+
+      const repairedArtifacts = await checker.checkAll(extractor.extract(repaired.response));
+      if (repairedArtifacts.length === 0 || failing(repairedArtifacts).length >= failing(artifacts).length) {
+        this.logger.warn('Code repair did not reduce syntax errors, keeping the previous response', {
+          blocksWithErrors: failing(repairedArtifacts).length,
+        });
+        break;
+      }
+
+      history.push({ role: 'user', content: message }, { role: 'assistant', content: repaired.response });
+      result.response = repaired.response;
+      artifacts = repairedArtifacts;
+    }
+
+    const report: CodeCheckReport = { artifacts, errors: failing(artifacts).length, repairAttempts };
+    result.metadata.codeChecks = report;
+    if (report.errors > 0) {
+      this.logger.warn('Syntax errors in generated code', {
+        blocks: failing(artifacts).map(artifact => `${artifact.index}: ${artifact.check!.errors.join('; ')}`),
+        repairAttempts,
+      });
+    } else {
+      this.logger.info('Code blocks checked', {
+        blocks: artifacts.length,
+        checked: artifacts.filter(artifact => artifact.check?.status === 'ok').length,
+        repairAttempts,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Run the generated tests in a scratch copy of the workspace. Failures go back
+   * to the model for up to maxIterations fix rounds; the last response and every
+   * run are returned.
+   */
+  private async runGeneratedTests(
+    registry: ModelRegistry,
+    request: ExecutionRequest,
+    result: ExecutionResult,
+    command: string,
+    maxIterations: number
+  ): Promise<ExecutionResult> {
+    const testRun = registry.getTestRunConfig();
+    if (registry.getAgentConfig().sandbox?.dryRun) {
+      this.logger.warn('Test run skipped: the sandbox is in dry-run mode', { command });
+      return result;
+    }
+
+    const runner = new TestRunner(this.config.workspaceRoot!, testRun.linkDependencies);
+    const scratch = await runner.createScratch();
+    try {
+      const tools = this.createWorkspaceTools(registry, scratch, testRun.timeout);
+      const history = [
+        { role: 'user' as const, content: request.task.description },
+        { role: 'assistant' as const, content: result.response },
+      ];
+      const iterations: TestRunIteration[] = [await runner.run(tools, result.response, command, 1)];
+      let last = iterations[0];
+
+      while (!last.success && !last.error && iterations.length <= maxIterations) {
+        this.logger.warn('Generated tests failed, requesting a fix', {
+          iteration: last.iteration,
+          exitCode: last.exitCode,
+          timedOut: last.timedOut,
+          failed: last.failed,
+          failures: last.failures,
+        });
+
+        const message = runner.buildFixPrompt(command, last);
+        const fix = await this.taskExecutor.executeTask({
+          ...request,
+          modelName: result.modelUsed,
+          history: [...history],
+          message,
+          statsTaskType: 'repair',
+        });
+
+        result.executionTime += fix.executionTime;
+        result.tokensUsed += fix.tokensUsed;
+        result.promptTokens += fix.promptTokens;
+        result.completionTokens += fix.completionTokens;
+
+        if (!fix.success) {
+          this.logger.warn('Test fix request failed', { error: fix.metadata.error });
+          break;
+        }
+
+        history.push({ role: 'user', content: message }, { role: 'assistant', content: fix.response });
+        result.response = fix.response;
+        last = await runner.run(tools, fix.response, command, iterations.length + 1);
+        iterations.push(last);
+      }
+
+      const report: TestRunReport = {
+        command,
+        workspace: this.config.workspaceRoot!,
+        success: last.success,
+        iterations,
+      };
+      result.metadata.testRun = report;
+      if (last.success) {
+        this.logger.info('Generated tests passed', { command, iterations: iterations.length, passed: last.passed });
+      } else {
+        this.logger.warn('Generated tests still failing', {
+          command,
+          iterations: iterations.length,
+          failed: last.failed,
+          error: last.error,
+        });
+      }
+      return result;
+    } finally {
+      await runner.removeScratch(scratch);
+    }
+  }
+
+  /**
+   * Extra cost of verification: verifier calls and retried answers that were not returned
+   */
+  private calculateVerificationCost(registry: ModelRegistry, verification: VerificationReport): number {
+    const costOf = (model: string | undefined, tokens: number) =>
+      this.costTracker.calculateCost(tokens, (model && registry.getProfile(model)?.costPerToken) || 0);
+
+    return verification.attempts.reduce((sum, attempt) =>
+      sum + costOf(attempt.verifierModel, attempt.verifierTokensUsed) + (attempt.chosen ? 0 : costOf(attempt.model, attempt.tokensUsed)),
+    0);
+  }
+
+  /**
+   * Create workspace tools governed by the sandbox settings of a registry snapshot,
+   * on the workspace root or another directory (such as a scratch copy)
+   */
+  private createWorkspaceTools(
+    registry: ModelRegistry,
+    root: string = this.config.workspaceRoot!,
+    commandTimeout?: number
+  ): WorkspaceTools {
+    const agentConfig = registry.getAgentConfig();
+    const policy = new CommandPolicy(
+      { maxOutputChars: agentConfig.maxObservationChars ?? DEFAULT_MAX_OBSERVATION_CHARS, ...agentConfig.sandbox },
+      commandTimeout ?? agentConfig.commandTimeout ?? DEFAULT_COMMAND_TIMEOUT,
+      this.logger
+    );
+    return new WorkspaceTools(root, policy);
+  }
+
+  /**
+   * Extract the unified diff from a response and check or apply it in the workspace.
+   * A sandbox in dry-run mode downgrades apply to check.
+   */
+  private async applyPatch(
+    registry: ModelRegistry,
+    response: string,
+    mode: PatchMode,
+    context?: string
+  ): Promise<PatchResult> {
+    const tools = this.createWorkspaceTools(registry);
+    const applier = new PatchApplier(tools);
+    const effectiveMode: PatchMode = mode === 'apply' && registry.getAgentConfig().sandbox?.dryRun ? 'check' : mode;
+
+    const diff = applier.extractDiff(response);
+    if (!diff) {
+      this.logger.warn('No unified diff found in response', { mode: effectiveMode });
+      return {
+        mode: effectiveMode,
+        written: false,
+        files: [],
+        hunks: [],
+        applied: 0,
+        rejected: 0,
+        conflicts: 0,
+        filesOutsideContext: [],
+        error: 'No unified diff found in the response',
+      };
+    }
+
+    const patch = await applier.apply(diff, effectiveMode, context);
+    const logData = {
+      mode: patch.mode,
+      written: patch.written,
+      files: patch.files,
+      applied: patch.applied,
+      rejected: patch.rejected,
+      conflicts: patch.conflicts,
+      filesOutsideContext: patch.filesOutsideContext,
+    };
+    if (patch.error || patch.rejected > 0 || patch.conflicts > 0) {
+      this.logger.warn('Patch did not apply cleanly', { ...logData, error: patch.error });
+    } else {
+      this.logger.info(patch.written ? 'Patch applied' : 'Patch checked', logData);
+    }
+    return patch;
+  }
+
+  /**
+   * Record the trace of a completed execution, including agent steps
+   */
+  private buildTrace(
+    task: ParsedTask,
+    selection: SelectionResult,
+    result: ExecutionResult,
+    startTime: number,
+    errors: FailedAttempt[]
+  ): ExecutionTrace {
+    const endTime = Date.now();
+    return {
+      taskId: randomUUID(),
+      taskDescription: task.description,
+      taskCharacteristics: task,
+      modelSelection: {
+        selectedModel: selection.selectedModel,
+        scores: [selection.score, ...selection.alternatives],
+        reasoning: selection.reasoning,
+      },
+      execution: {
+        modelUsed: result.modelUsed,
+        startTime,
+        endTime,
+        duration: endTime - startTime,
+        tokensUsed: result.tokensUsed,
+        success: result.success,
+        response: result.response,
+        errors: errors.length > 0 ? errors : undefined,
+      },
+      steps: result.metadata.agent?.steps,
+      logs: this.logger.getLogs(),
+    };
+  }
+
+  /**
+   * Validate a response against the requested schema, re-prompting the same model
+   * with the validation errors until it conforms or the repair attempts run out.
+   * Token usage and time of repair attempts are added to the result.
+   */
+  private async enforceResponseSchema(
+    request: ExecutionRequest,
+    result: ExecutionResult,
+    validator: StructuredOutputValidator,
+    maxRepairAttempts: number
+  ): Promise<ExecutionResult> {
+    let validation = validator.validate(result.response);
+    let attempts = 1;
+    const history = [
+      { role: 'user' as const, content: request.task.description },
+      { role: 'assistant' as const, content: result.response },
+    ];
+
+    while (!validation.valid && attempts <= maxRepairAttempts) {
+      console.error(`[MiniSWEAgent] Response does not match schema (${validation.errors.length} errors), repair attempt ${attempts}/${maxRepairAttempts}`);
+      this.logger.warn('Structured output invalid, requesting repair', {
+        model: result.modelUsed,
+        attempt: attempts,
+        errors: validation.errors,
+      });
+
+      const message = validator.buildRepairPrompt(validation.errors);
+      const repair = await this.taskExecutor.executeTask({
+        ...request,
+        modelName: result.modelUsed,
+        history: [...history],
+        message,
+        statsTaskType: 'repair',
+      });
+      attempts++;
+
+      result.executionTime += repair.executionTime;
+      result.tokensUsed += repair.tokensUsed;
+      result.promptTokens += repair.promptTokens;
+      result.completionTokens += repair.completionTokens;
+
+      if (!repair.success) {
+        this.logger.warn('Structured output repair failed', { error: repair.metadata.error });
+        break;
+      }
+
+      history.push({ role: 'user', content: message }, { role: 'assistant', content: repair.response });
+      result.response = repair.response;
+      validation = validator.validate(repair.response);
+    }
+
+    result.data = validation.valid ? validation.data : undefined;
+    result.metadata.structuredOutput = {
+      valid: validation.valid,
+      attempts,
+      errors: validation.errors,
+    };
+
+    if (validation.valid) {
+      this.logger.info('Structured output validated', { attempts });
+    } else {
+      this.logger.error('Structured output invalid after repair attempts', { attempts, errors: validation.errors });
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark models the server reported as missing and re-sync availability
+   */
+  private async handleMissingModels(registry: ModelRegistry, errors: FailedAttempt[]): Promise<void> {
+    const missing = errors.filter(e => e.errorClass === 'model_not_found');
+    if (missing.length === 0) {
+      return;
+    }
+
+    this.logger.warn('Models not found on server', {
+      models: missing.map(e => e.modelAttempted),
+    });
+    await this.refreshAvailability(registry);
+
+    // Keep them out of selection until the next TTL refresh even if /api/tags still lists them
+    for (const err of missing) {
+      console.error(`[MiniSWEAgent] Model "${err.modelAttempted}" not found on server, marking unavailable`);
+      registry.markUnavailable(err.modelAttempted);
+    }
   }
 
   /**
@@ -216,6 +1363,13 @@ export class MiniSWEAgent {
     return this.logger.exportLogs();
   }
 
+  /**
+   * Get the trace of the most recent successful execution
+   */
+  getLastTrace(): ExecutionTrace | undefined {
+    return this.lastTrace;
+  }
+
   /**
    * Get model registry
    */
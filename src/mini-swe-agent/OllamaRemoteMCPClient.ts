@@ -1,4 +1,17 @@
 import { OllamaClient } from '../components/TaskExecutor.js';
+import { RetryPolicy } from '../components/RetryPolicy.js';
+import { TokenEstimator } from '../components/TokenEstimator.js';
+import {
+  StreamProgress,
+  ChatRequestOptions,
+  ChatMessage,
+  ChatResponse,
+  TokenUsage,
+  OllamaBackend,
+  ResponseFormat,
+} from '../types/index.js';
+
+const BACKENDS: OllamaBackend[] = ['openai', 'chat', 'generate'];
 
 /**
  * Ollama Remote MCP Client implementation
@@ -7,10 +20,21 @@ import { OllamaClient } from '../components/TaskExecutor.js';
 export class OllamaRemoteMCPClient implements OllamaClient {
   private baseUrl: string;
   private apiKey: string;
+  private backend: OllamaBackend;
+  private tokenEstimator = new TokenEstimator();
 
-  constructor(baseUrl?: string, apiKey?: string) {
+  /**
+   * @param backend Default API for requests that don't choose one (OLLAMA_BACKEND, else 'openai')
+   */
+  constructor(baseUrl?: string, apiKey?: string, backend?: OllamaBackend) {
     this.baseUrl = baseUrl || process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
     this.apiKey = apiKey || process.env.OLLAMA_API_KEY || '';
+
+    const envBackend = process.env.OLLAMA_BACKEND as OllamaBackend | undefined;
+    if (envBackend && !BACKENDS.includes(envBackend)) {
+      console.error(`[OllamaRemoteMCPClient] Ignoring unknown OLLAMA_BACKEND "${envBackend}" (expected one of: ${BACKENDS.join(', ')})`);
+    }
+    this.backend = backend || (envBackend && BACKENDS.includes(envBackend) ? envBackend : 'openai');
   }
 
   /**
@@ -63,22 +87,22 @@ export class OllamaRemoteMCPClient implements OllamaClient {
     model: string,
     message: string,
     systemPrompt?: string,
-    temperature?: number
-  ): Promise<{
-    content: string;
-    tokensUsed?: number;
-    executionTime?: number;
-  }> {
+    temperature?: number,
+    options: ChatRequestOptions = {}
+  ): Promise<ChatResponse> {
     const startTime = Date.now();
+    const backend = options.backend || this.backend;
     console.error(`[OllamaRemoteMCPClient.chat] ========== NETWORK REQUEST START ==========`);
     console.error(`[OllamaRemoteMCPClient.chat] Model: ${model}`);
     console.error(`[OllamaRemoteMCPClient.chat] Base URL: ${this.baseUrl}`);
+    console.error(`[OllamaRemoteMCPClient.chat] Backend: ${backend}`);
     console.error(`[OllamaRemoteMCPClient.chat] Message length: ${message.length} chars`);
     console.error(`[OllamaRemoteMCPClient.chat] System prompt: ${systemPrompt ? 'yes' : 'no'}`);
-    console.error(`[OllamaRemoteMCPClient.chat] Temperature: ${temperature || 0.7}`);
+    console.error(`[OllamaRemoteMCPClient.chat] History messages: ${options.history?.length || 0}`);
+    console.error(`[OllamaRemoteMCPClient.chat] Temperature: ${temperature ?? 0.7}`);
 
     try {
-      const url = `${this.baseUrl.replace(/\/$/, '')}/v1/chat/completions`;
+      const { url, body } = this.buildRequest(backend, model, message, systemPrompt, temperature, options, false);
       console.error(`[OllamaRemoteMCPClient.chat] URL: ${url}`);
 
       const headers: Record<string, string> = {
@@ -92,18 +116,6 @@ export class OllamaRemoteMCPClient implements OllamaClient {
         console.error(`[OllamaRemoteMCPClient.chat] API Key: not configured`);
       }
 
-      const body = {
-        model: model,
-        messages: [
-          ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
-          { role: 'user', content: message },
-        ],
-        stream: false,
-        options: {
-          temperature: temperature || 0.7,
-        },
-      };
-
       console.error(`[OllamaRemoteMCPClient.chat] Request body size: ${JSON.stringify(body).length} bytes`);
       console.error(`[OllamaRemoteMCPClient.chat] Sending POST request...`);
 
@@ -111,6 +123,7 @@ export class OllamaRemoteMCPClient implements OllamaClient {
         method: 'POST',
         headers,
         body: JSON.stringify(body),
+        signal: options.signal,
       });
 
       const elapsedTime = Date.now() - startTime;
@@ -121,7 +134,11 @@ export class OllamaRemoteMCPClient implements OllamaClient {
       if (!response.ok) {
         const errorText = await response.text();
         console.error(`[OllamaRemoteMCPClient.chat] ERROR RESPONSE BODY: ${errorText.substring(0, 500)}`);
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+        throw RetryPolicy.httpError(
+          response.status,
+          `Ollama API error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText.substring(0, 200)}` : ''}`,
+          response.headers.get('retry-after')
+        );
       }
 
       console.error(`[OllamaRemoteMCPClient.chat] Parsing response JSON...`);
@@ -129,11 +146,11 @@ export class OllamaRemoteMCPClient implements OllamaClient {
       console.error(`[OllamaRemoteMCPClient.chat] Response parsed successfully`);
       console.error(`[OllamaRemoteMCPClient.chat] Response keys: ${Object.keys(data).join(', ')}`);
 
-      const content = data.choices?.[0]?.message?.content || '';
-      const tokensUsed = data.usage?.total_tokens;
+      const content = this.extractContent(backend, data, false);
+      const usage = this.parseUsage(data);
 
       console.error(`[OllamaRemoteMCPClient.chat] Content length: ${content.length} chars`);
-      console.error(`[OllamaRemoteMCPClient.chat] Tokens used: ${tokensUsed || 'unknown'}`);
+      console.error(`[OllamaRemoteMCPClient.chat] Tokens used: ${usage.tokensUsed || 'unknown'} (prompt: ${usage.promptTokens ?? 'unknown'}, completion: ${usage.completionTokens ?? 'unknown'})`);
 
       const executionTime = Date.now() - startTime;
       console.error(`[OllamaRemoteMCPClient.chat] Total execution time: ${executionTime}ms`);
@@ -141,7 +158,7 @@ export class OllamaRemoteMCPClient implements OllamaClient {
 
       return {
         content,
-        tokensUsed,
+        ...usage,
         executionTime,
       };
     } catch (error: any) {
@@ -149,7 +166,306 @@ export class OllamaRemoteMCPClient implements OllamaClient {
       console.error(`[OllamaRemoteMCPClient.chat] ========== NETWORK REQUEST END (ERROR) ==========`);
       console.error(`[OllamaRemoteMCPClient.chat] Error after ${elapsedTime}ms: ${error.message}`);
       console.error(`[OllamaRemoteMCPClient.chat] Error stack: ${error.stack}`);
-      throw new Error(`Failed to chat with model ${model}: ${error.message}`);
+      throw RetryPolicy.withContext(error, `Failed to chat with model ${model}`);
+    }
+  }
+
+  /**
+   * Chat with a model, streaming partial output through onProgress.
+   * Reads SSE chunks (openai backend) or NDJSON lines (native backends)
+   * and returns the assembled text.
+   */
+  async chatStream(
+    model: string,
+    message: string,
+    systemPrompt: string | undefined,
+    temperature: number | undefined,
+    onProgress: (progress: StreamProgress) => void,
+    options: ChatRequestOptions = {}
+  ): Promise<ChatResponse> {
+    const startTime = Date.now();
+    const backend = options.backend || this.backend;
+    console.error(`[OllamaRemoteMCPClient.chatStream] ========== STREAM REQUEST START ==========`);
+    console.error(`[OllamaRemoteMCPClient.chatStream] Model: ${model}`);
+    console.error(`[OllamaRemoteMCPClient.chatStream] Backend: ${backend}`);
+    console.error(`[OllamaRemoteMCPClient.chatStream] Message length: ${message.length} chars`);
+
+    try {
+      const { url, body } = this.buildRequest(backend, model, message, systemPrompt, temperature, options, true);
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Accept': backend === 'openai' ? 'text/event-stream' : 'application/x-ndjson',
+      };
+
+      if (this.apiKey) {
+        headers['Authorization'] = `Bearer ${this.apiKey}`;
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: options.signal,
+      });
+
+      console.error(`[OllamaRemoteMCPClient.chatStream] Response status: ${response.status} ${response.statusText}`);
+
+      if (!response.ok || !response.body) {
+        const errorText = await response.text();
+        console.error(`[OllamaRemoteMCPClient.chatStream] ERROR RESPONSE BODY: ${errorText.substring(0, 500)}`);
+        throw RetryPolicy.httpError(
+          response.status,
+          `Ollama API error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText.substring(0, 200)}` : ''}`,
+          response.headers.get('retry-after')
+        );
+      }
+
+      let content = '';
+      let chunkCount = 0;
+      let estimatedTokens = 0;
+      let usage: TokenUsage = {};
+
+      for await (const chunk of this.readStreamChunks(backend, response.body)) {
+        // Chunks already buffered when the caller aborted are not forwarded
+        options.signal?.throwIfAborted();
+        if (chunk.error) {
+          throw new Error(chunk.error.message || String(chunk.error));
+        }
+        const chunkUsage = this.parseUsage(chunk);
+        if (chunkUsage.tokensUsed !== undefined) {
+          usage = chunkUsage;
+        }
+
+        // Servers report completion tokens (usage / eval_count) only with the last
+        // chunks; until then the count is estimated from the text received so far
+        const delta = this.extractContent(backend, chunk, true);
+        if (delta) {
+          content += delta;
+          chunkCount++;
+          estimatedTokens += this.tokenEstimator.estimate(delta);
+          onProgress({ delta, content, tokens: usage.completionTokens ?? estimatedTokens });
+        }
+      }
+
+      // Final notification with no delta so listeners can flush buffered text
+      onProgress({ delta: '', content, tokens: usage.completionTokens ?? estimatedTokens });
+
+      const executionTime = Date.now() - startTime;
+      console.error(`[OllamaRemoteMCPClient.chatStream] Received ${chunkCount} chunks, ${content.length} chars in ${executionTime}ms`);
+      console.error(`[OllamaRemoteMCPClient.chatStream] ========== STREAM REQUEST END (SUCCESS) ==========`);
+
+      return {
+        content,
+        ...usage,
+        executionTime,
+      };
+    } catch (error: any) {
+      const elapsedTime = Date.now() - startTime;
+      console.error(`[OllamaRemoteMCPClient.chatStream] ========== STREAM REQUEST END (ERROR) ==========`);
+      console.error(`[OllamaRemoteMCPClient.chatStream] Error after ${elapsedTime}ms: ${error.message}`);
+      throw RetryPolicy.withContext(error, `Failed to chat with model ${model}`);
+    }
+  }
+
+  /**
+   * Build the endpoint URL and request body for a backend.
+   * Native backends take sampling parameters in `options`; the OpenAI-compatible
+   * endpoint only honours top-level fields and ignores `options` entirely.
+   */
+  private buildRequest(
+    backend: OllamaBackend,
+    model: string,
+    message: string,
+    systemPrompt: string | undefined,
+    temperature: number | undefined,
+    options: ChatRequestOptions,
+    stream: boolean
+  ): { url: string; body: Record<string, unknown> } {
+    const baseUrl = this.baseUrl.replace(/\/$/, '');
+    const modelOptions = { ...options.options, temperature: temperature ?? 0.7 };
+
+    if (systemPrompt && options.prompt?.systemRole === false) {
+      message = this.mergeSystemPrompt(systemPrompt, message);
+      systemPrompt = undefined;
+    }
+
+    if (backend === 'chat') {
+      return {
+        url: `${baseUrl}/api/chat`,
+        body: {
+          model,
+          messages: this.buildMessages(message, systemPrompt, options.history),
+          stream,
+          options: modelOptions,
+          keep_alive: options.keepAlive,
+          format: options.format,
+        },
+      };
+    }
+
+    if (backend === 'generate') {
+      return {
+        url: `${baseUrl}/api/generate`,
+        body: {
+          model,
+          prompt: this.buildPrompt(message, options.history),
+          system: systemPrompt,
+          stream,
+          options: modelOptions,
+          keep_alive: options.keepAlive,
+          format: options.format,
+        },
+      };
+    }
+
+    const { num_ctx, repeat_penalty, top_k, min_p, repeat_last_n } = modelOptions;
+    const unsupported = Object.entries({ num_ctx, repeat_penalty, top_k, min_p, repeat_last_n, keep_alive: options.keepAlive })
+      .filter(([, value]) => value !== undefined)
+      .map(([key]) => key);
+    if (unsupported.length > 0) {
+      console.error(`[OllamaRemoteMCPClient.buildRequest] Ignored by the openai backend (use backend "chat"): ${unsupported.join(', ')}`);
+    }
+
+    return {
+      url: `${baseUrl}/v1/chat/completions`,
+      body: {
+        model,
+        messages: this.buildMessages(message, systemPrompt, options.history),
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        temperature: modelOptions.temperature,
+        top_p: modelOptions.top_p,
+        seed: modelOptions.seed,
+        max_tokens: modelOptions.num_predict,
+        stop: modelOptions.stop,
+        response_format: this.toResponseFormat(options.format),
+      },
+    };
+  }
+
+  /**
+   * Map an Ollama `format` value to the OpenAI `response_format` field
+   */
+  private toResponseFormat(format: ResponseFormat | undefined): Record<string, unknown> | undefined {
+    if (format === undefined) {
+      return undefined;
+    }
+    if (format === 'json') {
+      return { type: 'json_object' };
+    }
+    return { type: 'json_schema', json_schema: { name: 'response', schema: format } };
+  }
+
+  /**
+   * Get the generated text of a response or stream chunk
+   */
+  private extractContent(backend: OllamaBackend, data: any, streaming: boolean): string {
+    switch (backend) {
+      case 'chat':
+        return data.message?.content || '';
+      case 'generate':
+        return data.response || '';
+      default:
+        return (streaming ? data.choices?.[0]?.delta?.content : data.choices?.[0]?.message?.content) || '';
+    }
+  }
+
+  /**
+   * Extract token counts from an OpenAI-style `usage` block or
+   * Ollama's native `prompt_eval_count` / `eval_count` fields
+   */
+  private parseUsage(data: any): TokenUsage {
+    const promptTokens = data?.usage?.prompt_tokens ?? data?.prompt_eval_count;
+    const completionTokens = data?.usage?.completion_tokens ?? data?.eval_count;
+    const totalTokens = data?.usage?.total_tokens;
+
+    const tokensUsed = totalTokens ??
+      (promptTokens !== undefined || completionTokens !== undefined
+        ? (promptTokens || 0) + (completionTokens || 0)
+        : undefined);
+
+    return { promptTokens, completionTokens, tokensUsed };
+  }
+
+  /**
+   * Put the system prompt at the start of the user message, for models without a system role
+   */
+  private mergeSystemPrompt(systemPrompt: string, message: string): string {
+    return `INSTRUCTIONS:\n${systemPrompt}\n\nREQUEST:\n${message}`;
+  }
+
+  /**
+   * Build the messages array: system prompt, prior conversation turns, then the new user message
+   */
+  private buildMessages(message: string, systemPrompt?: string, history: ChatMessage[] = []): ChatMessage[] {
+    return [
+      ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+      ...history,
+      { role: 'user', content: message },
+    ];
+  }
+
+  /**
+   * Flatten prior conversation turns into a single prompt for /api/generate
+   */
+  private buildPrompt(message: string, history: ChatMessage[] = []): string {
+    if (history.length === 0) {
+      return message;
+    }
+
+    const turns = history.map(msg => `${msg.role === 'assistant' ? 'Assistant' : 'User'}: ${msg.content}`);
+    return [...turns, `User: ${message}`, 'Assistant:'].join('\n\n');
+  }
+
+  /**
+   * Yield the parsed JSON chunks of a streaming response:
+   * SSE `data:` payloads for the openai backend, NDJSON lines otherwise
+   */
+  private async *readStreamChunks(backend: OllamaBackend, body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+    for await (const line of this.readLines(body)) {
+      if (backend === 'openai') {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') break;
+        yield JSON.parse(data);
+      } else {
+        yield JSON.parse(line);
+      }
+    }
+  }
+
+  /**
+   * Yield the non-empty, trimmed lines of a response body
+   */
+  private async *readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (trimmed) {
+            yield trimmed;
+          }
+        }
+      }
+
+      const rest = buffer.trim();
+      if (rest) {
+        yield rest;
+      }
+    } finally {
+      reader.releaseLock();
     }
   }
 
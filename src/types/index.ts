@@ -5,11 +5,24 @@ export interface TaskParserInput {
   description: string;
   context?: string;
   taskType?: string;
+  contextFiles?: string[]; // workspace-relative file paths to include as context
+  contextGlobs?: string[]; // workspace-relative glob patterns to include as context
 }
 
 export type TaskDomain = 'code' | 'math' | 'reasoning' | 'multimodal' | 'general';
 export type TaskComplexity = 'simple' | 'moderate' | 'complex' | 'expert';
-export type TaskType = 'code_generation' | 'bug_fixing' | 'code_review' | 'test_writing' | 'documentation' | 'architecture_analysis' | 'general';
+export type BuiltInTaskType = 'code_generation' | 'bug_fixing' | 'code_review' | 'test_writing' | 'documentation' | 'architecture_analysis' | 'general';
+export type TaskType = BuiltInTaskType | (string & {}); // other names are task types defined in config
+
+export interface TaskTypeConfig {
+  description?: string;
+  keywords?: string[]; // detection patterns, matched in every language
+  capabilities?: string[]; // added to the required capabilities
+  domain?: TaskDomain;
+  template?: string; // task prompt with {{context}}, {{language}} and {{model}}; required for new types
+  modelTemplates?: Record<string, string>; // per-model template overrides
+  rubric?: string[]; // criteria answers are graded on by the verifier
+}
 
 export interface ParsedTask {
   description: string;
@@ -17,9 +30,51 @@ export interface ParsedTask {
   complexity: TaskComplexity;
   requiredCapabilities: string[];
   contextSize: number;
+  estimatedTokens: number;
+  taskType: TaskType;
+  language: string; // detected language code of the description (en, zh, ...)
+  classification?: ClassificationInfo;
+}
+
+// Task classification types
+export interface TaskClassification {
   taskType: TaskType;
+  domain: TaskDomain;
+  complexity: TaskComplexity;
+  capabilities: string[];
+  confidence: number; // 0-1, as reported by the classifier model
+  model?: string; // classifier model that produced it
+}
+
+export interface ClassificationInfo {
+  source: 'llm' | 'keywords';
+  model?: string;
+  confidence?: number;
+  cached?: boolean;
+  fallbackReason?: string; // why the keyword classification was used instead
+}
+
+export interface ClassifierConfig {
+  enabled?: boolean;
+  model?: string; // defaults to the fastest available model
+  minConfidence?: number; // 0-1; less confident classifications fall back to keywords
+  timeout?: number; // ms
 }
 
+// Keyword lexicon types
+export type LexiconCategory = 'taskTypes' | 'domains' | 'complexity' | 'capabilities';
+
+export interface LanguageLexicon {
+  name?: string; // language name used in prompts, e.g. "Chinese"
+  markers?: string[]; // common words identifying a Latin-script language
+  taskTypes?: Record<string, string[]>; // built-in or config-defined task types
+  domains?: Partial<Record<TaskDomain, string[]>>;
+  complexity?: Partial<Record<Exclude<TaskComplexity, 'simple'>, string[]>>;
+  capabilities?: Record<string, string[]>;
+}
+
+export type Lexicon = Record<string, LanguageLexicon>; // keyed by language code
+
 export interface Task extends ParsedTask {
   id: string;
   context?: string;
@@ -28,7 +83,52 @@ export interface Task extends ParsedTask {
 }
 
 // Model-related types
-export interface ModelProfile {
+/**
+ * Ollama API used for a request:
+ * - openai: OpenAI-compatible /v1/chat/completions
+ * - chat: native /api/chat
+ * - generate: native /api/generate (single prompt, history is flattened)
+ */
+export type OllamaBackend = 'openai' | 'chat' | 'generate';
+
+/**
+ * Ollama model runtime options (native API names)
+ */
+export interface OllamaModelOptions {
+  num_ctx?: number;
+  num_predict?: number;
+  top_k?: number;
+  top_p?: number;
+  min_p?: number;
+  seed?: number;
+  repeat_penalty?: number;
+  repeat_last_n?: number;
+  stop?: string[];
+}
+
+/**
+ * Response format: 'json' for any JSON object, or a JSON schema
+ */
+export type ResponseFormat = 'json' | Record<string, unknown>;
+
+export interface PromptProfile {
+  systemRole?: boolean; // false: the model has no system role, so the system prompt is merged into the user message
+  preamble?: string; // prepended to the system prompt
+  suffix?: string; // appended to the system prompt
+  maxLength?: number; // max system prompt characters; guidance is shortened, then context truncated
+  reasoning?: 'low' | 'medium' | 'high'; // reasoning level line for models that read it (GPT-OSS)
+  terse?: boolean; // short task instructions instead of full guideline lists
+}
+
+export interface ModelRequestSettings {
+  backend?: OllamaBackend;
+  options?: OllamaModelOptions;
+  keepAlive?: string | number;
+  format?: ResponseFormat;
+  prompt?: PromptProfile;
+}
+
+export interface ModelProfile extends ModelRequestSettings {
   name: string;
   provider: string;
   domains: TaskDomain[];
@@ -42,6 +142,19 @@ export interface ModelProfile {
   available: boolean;
 }
 
+export type ExecutionOutcome = 'success' | 'failure' | 'timeout';
+
+// Stats buckets of helper calls, kept out of the ranking for real tasks
+export type AuxiliaryStatsTaskType = 'repair' | 'verification' | 'ensemble_judge';
+
+export interface ModelPerformanceStats {
+  samples: number;
+  latencyP50: number;
+  latencyP90: number;
+  successRate: number;
+  timeoutRate: number;
+}
+
 export interface ModelScore {
   modelName: string;
   score: number; // 0-100
@@ -50,6 +163,8 @@ export interface ModelScore {
   capabilityMatch: number;
   contextMatch: number;
   latencyScore: number;
+  costScore: number;
+  reliabilityScore: number;
   justification: string;
 }
 
@@ -58,6 +173,24 @@ export interface SelectionResult {
   score: ModelScore;
   alternatives: ModelScore[];
   reasoning: string;
+  strategy: SelectionStrategy;
+}
+
+export type SelectionStrategy = 'quality' | 'fastest' | 'cheapest' | 'balanced';
+
+export interface ScoringWeights {
+  domain: number;
+  complexity: number;
+  capability: number;
+  context: number;
+  latency: number;
+  cost: number;
+}
+
+export interface SelectionOptions {
+  strategy?: SelectionStrategy;
+  pinnedModel?: string;
+  budgetPressure?: number; // 0-1, fraction of the budget already spent
 }
 
 // Execution-related types
@@ -67,6 +200,41 @@ export interface ExecutionRequest {
   systemPrompt: string;
   temperature?: number;
   maxTokens?: number;
+  onProgress?: (progress: StreamProgress) => void;
+  modelSettings?: (modelName: string) => ModelRequestSettings;
+  format?: ResponseFormat;
+  // Follow-up turns: prior messages and a message sent instead of the task description
+  history?: ChatMessage[];
+  message?: string;
+  retry?: RetryConfig; // retry policies per error class, over the defaults
+  statsTaskType?: AuxiliaryStatsTaskType; // recorded in model stats instead of task.taskType
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequestOptions extends ModelRequestSettings {
+  history?: ChatMessage[];
+  signal?: AbortSignal; // aborts the HTTP request, e.g. when the caller's timeout fires
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  tokensUsed?: number;
+}
+
+export interface ChatResponse extends TokenUsage {
+  content: string;
+  executionTime?: number;
+}
+
+export interface StreamProgress {
+  delta: string;
+  content: string;
+  tokens: number; // completion tokens so far: reported by the server, else estimated
 }
 
 export interface ExecutionResult {
@@ -75,16 +243,48 @@ export interface ExecutionResult {
   response: string;
   executionTime: number;
   tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
   confidence: number;
+  data?: unknown;
   metadata: Record<string, any>;
 }
 
-export interface ExecutionError {
+export interface StructuredOutputResult {
+  valid: boolean;
+  data?: unknown;
+  errors: string[];
+}
+
+export interface FailedAttempt {
   modelAttempted: string;
   error: string;
   timestamp: number;
+  errorClass?: ErrorClass;
+  status?: number; // HTTP status of the failed request
+  retries?: number; // retries on this model before giving up
 }
 
+// Retry types
+export type ErrorClass =
+  | 'rate_limit' // 429
+  | 'transient' // 5xx gateway/overload errors, connection resets
+  | 'timeout'
+  | 'model_not_found'
+  | 'auth' // 401/403
+  | 'invalid_request' // other 4xx
+  | 'unknown';
+
+export interface RetryPolicyConfig {
+  retries?: number; // retries on the same model
+  baseDelay?: number; // ms, doubled on every retry
+  maxDelay?: number; // ms; a longer Retry-After skips straight to fallback
+  fallback?: boolean; // try the next model once retries are exhausted
+}
+
+export type RetryConfig = Partial<Record<ErrorClass, RetryPolicyConfig>>;
+
 // Result formatting types
 export interface FormattedResult {
   task: ParsedTask;
@@ -92,17 +292,25 @@ export interface FormattedResult {
     modelUsed: string;
     executionTime: number;
     tokensUsed: number;
+    promptTokens: number;
+    completionTokens: number;
     confidence: number;
+    cost: number;
+    sessionCost: number;
+    dailyCost: number;
   };
   selection: {
     selectedModel: string;
     justification: string;
     alternatives: ModelScore[];
+    strategy?: SelectionStrategy;
   };
   result: {
     response: string;
+    data?: unknown;
     metadata: Record<string, any>;
   };
+  artifacts: CodeArtifact[]; // fenced code blocks of the response
   logs: ExecutionLog[];
 }
 
@@ -133,23 +341,362 @@ export interface ExecutionTrace {
     tokensUsed: number;
     success: boolean;
     response: string;
-    errors?: ExecutionError[];
+    errors?: FailedAttempt[];
   };
+  steps?: AgentStep[];
   logs: ExecutionLog[];
 }
 
+// Agent types
+export type AgentActionName = 'read_file' | 'list_dir' | 'grep' | 'write_file' | 'run_command' | 'submit';
+
+export interface AgentAction {
+  thought: string;
+  action: AgentActionName;
+  args: Record<string, any>;
+}
+
+export interface AgentStep {
+  step: number;
+  model: string;
+  thought: string;
+  action: AgentActionName | 'invalid';
+  args: Record<string, any>;
+  observation: string;
+  success: boolean;
+  duration: number;
+  tokensUsed: number;
+}
+
+export type AgentStopReason = 'submitted' | 'max_steps' | 'error';
+
+export interface AgentConfig {
+  maxSteps?: number;
+  commandTimeout?: number; // ms
+  maxObservationChars?: number;
+  sandbox?: SandboxConfig;
+}
+
+export interface SandboxConfig {
+  allow?: string[]; // executables permitted (all not denied when empty)
+  deny?: string[]; // executables always refused, takes precedence over allow
+  timeouts?: Record<string, number>; // per-executable timeouts in ms
+  maxOutputChars?: number;
+  envPassthrough?: string[]; // environment variables passed to commands, all others are scrubbed
+  dryRun?: boolean; // report write_file / run_command without performing them
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  executables: string[];
+  timeout: number;
+  dryRun: boolean;
+}
+
+// Patch types
+export type PatchMode = 'check' | 'apply';
+
+export type HunkStatus = 'applied' | 'rejected' | 'conflict';
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  header: string;
+  lines: string[]; // hunk body lines, each prefixed with ' ', '-' or '+'
+}
+
+export interface FilePatch {
+  oldPath: string | null; // null for new files
+  newPath: string | null; // null for deleted files
+  hunks: DiffHunk[];
+}
+
+export interface HunkResult {
+  file: string;
+  header: string;
+  status: HunkStatus;
+  offset?: number; // lines between the header position and where the hunk matched
+  reason?: string;
+}
+
+export interface PatchResult {
+  mode: PatchMode;
+  written: boolean;
+  files: string[];
+  hunks: HunkResult[];
+  applied: number;
+  rejected: number;
+  conflicts: number;
+  filesOutsideContext: string[];
+  error?: string;
+}
+
+// Context ingestion types
+export interface ContextFile {
+  path: string; // workspace-relative, '/'-separated
+  content: string;
+  explicit: boolean; // named in contextFiles rather than matched by a glob
+  score: number; // relevance to the task description
+}
+
+export interface ContextSnippet {
+  path: string;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface ContextIngestionResult {
+  text: string;
+  snippets: ContextSnippet[];
+  omitted: string[]; // files that did not fit the token budget
+  skipped: string[]; // "path: reason" for files that were ignored or unreadable
+  tokenBudget: number;
+  tokensUsed: number;
+}
+
+// Map-reduce types
+/**
+ * Where a chunk ends: the end of the context, or the kind of boundary it was cut
+ * before, from most to least preferred
+ */
+export type ChunkBoundary = 'end' | 'file' | 'declaration' | 'blank' | 'line';
+
+export interface ContextChunk {
+  index: number; // 1-based
+  startLine: number;
+  endLine: number;
+  tokens: number;
+  boundary: ChunkBoundary; // boundary the chunk ends at
+  text: string;
+}
+
+export interface MapReduceChunkResult extends Omit<ContextChunk, 'text'> {
+  success: boolean;
+  model?: string;
+  tokensUsed: number;
+  error?: string;
+}
+
+export interface MapReducePlan {
+  contextTokens: number;
+  chunkTokenBudget: number;
+  chunks: MapReduceChunkResult[];
+  reduceModel?: string;
+}
+
+// Ensemble types
+export interface EnsembleConfig {
+  enabled?: boolean;
+  size?: number; // models run in parallel: the selected model and the best alternatives
+  taskTypes?: TaskType[]; // task types run as an ensemble when enabled
+  judge?: string; // model that compares the answers; defaults to the selected model
+}
+
+export interface EnsembleMember {
+  model: string;
+  label: string; // label the judge sees instead of the model name (A, B, ...)
+  success: boolean;
+  response?: string;
+  error?: string;
+  tokensUsed: number;
+  executionTime: number;
+}
+
+export interface EnsembleDisagreement {
+  topic: string;
+  positions: Record<string, string>; // keyed by model name
+}
+
+/**
+ * How the final answer was obtained: picked or merged by the judge, the only
+ * successful answer, or the best-ranked answer when the judge failed
+ */
+export type EnsembleVerdict = 'pick' | 'merge' | 'single' | 'fallback';
+
+export interface EnsembleReport {
+  members: EnsembleMember[];
+  judgeModel?: string;
+  judgeTokensUsed?: number;
+  verdict: EnsembleVerdict;
+  chosenModel?: string;
+  agreements: string[];
+  disagreements: EnsembleDisagreement[];
+  rationale: string;
+  confidence?: number; // 0-1, as reported by the judge
+}
+
+// Verification types
+export interface VerificationConfig {
+  enabled?: boolean;
+  model?: string; // verifier model; defaults to the model that answered
+  threshold?: number; // 0-1; answers scoring lower are retried on the next alternative model
+  maxRetries?: number;
+}
+
+export interface VerificationCriterion {
+  criterion: string;
+  score: number; // 0-1
+  comment: string;
+}
+
+export interface VerificationAttempt {
+  model: string; // model that answered
+  tokensUsed: number; // tokens of the answer
+  verifierModel?: string;
+  verifierTokensUsed: number;
+  score?: number; // 0-1; missing when the answer or its verification failed
+  rationale: string;
+  criteria: VerificationCriterion[];
+  chosen: boolean; // this answer was returned
+  error?: string;
+}
+
+export interface VerificationReport {
+  threshold: number;
+  passed: boolean;
+  score?: number; // score of the returned answer
+  rationale: string;
+  criteria: VerificationCriterion[];
+  verifierModel?: string;
+  chosenModel: string;
+  attempts: VerificationAttempt[];
+}
+
+// Code artifact types
+export type CodeLanguage = 'typescript' | 'javascript' | 'json' | 'python';
+
+export interface CodeCheckConfig {
+  enabled?: boolean;
+  repair?: boolean; // ask the model to fix syntax errors
+  maxRepairAttempts?: number;
+  pythonCommand?: string; // interpreter used for py_compile
+  timeout?: number; // ms per py_compile run
+}
+
+export interface SyntaxCheck {
+  status: 'ok' | 'error' | 'skipped';
+  checker?: string; // typescript, json or py_compile
+  errors: string[]; // "line N: message", relative to the block
+  reason?: string; // why the check was skipped
+}
+
+export interface CodeArtifact {
+  index: number; // 1-based position in the response
+  language?: string; // normalized when it is a CodeLanguage, otherwise as written
+  filename?: string;
+  code: string;
+  startLine: number; // response line of the first code line
+  endLine: number;
+  check?: SyntaxCheck;
+}
+
+export interface CodeCheckReport {
+  artifacts: CodeArtifact[];
+  errors: number; // blocks with syntax errors
+  repairAttempts: number;
+}
+
+// Test run types
+export interface TestRunConfig {
+  command?: string; // e.g. "bun test" or "npx vitest run"
+  maxIterations?: number; // fix rounds after the first run
+  timeout?: number; // ms; per-executable sandbox timeouts take precedence
+  linkDependencies?: boolean; // symlink node_modules/.venv instead of copying them; tests can then modify them
+}
+
+export interface TestRunIteration {
+  iteration: number;
+  files: string[]; // test files written, relative to the workspace
+  exitCode?: number;
+  timedOut: boolean;
+  success: boolean;
+  passed?: number; // counts parsed from the test runner's summary
+  failed?: number;
+  skipped?: number;
+  failures: string[]; // failing test lines from the output
+  output: string; // tail of the command output
+  error?: string; // no test files, or the command was refused
+}
+
+export interface TestRunReport {
+  command: string;
+  workspace: string; // source workspace; tests run in a scratch copy
+  success: boolean;
+  iterations: TestRunIteration[];
+}
+
+// Cost types
+export interface BudgetConfig {
+  daily?: number;
+  session?: number;
+  preferCheaperAt?: number; // budget fraction at which cheaper models start to be preferred
+}
+
+export interface BudgetStatus {
+  sessionSpent: number;
+  dailySpent: number;
+  sessionLimit?: number;
+  dailyLimit?: number;
+  pressure: number;
+  exhausted: boolean;
+}
+
+// Session types
+export interface ChatSession {
+  id: string;
+  model?: string;
+  systemPrompt?: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
 // Configuration types
 export interface SystemPromptConfig {
   taskType: TaskType;
   modelName: string;
   domain: TaskDomain;
   context?: string;
+  responseSchema?: Record<string, unknown>;
+  agentMode?: boolean;
+  patchMode?: boolean;
+  language?: string; // name of the task's language, to answer in
+  taskTemplate?: string; // config-defined template replacing the built-in task prompt
+  profile?: PromptProfile; // prompt adaptation of the target model
+}
+
+export interface SelectionConfig {
+  strategy?: SelectionStrategy;
+  weights?: Partial<ScoringWeights>;
+  taskTypes?: {
+    [taskType: string]: {
+      strategy?: SelectionStrategy;
+      weights?: Partial<ScoringWeights>;
+    };
+  };
 }
 
 export interface ModelProfileConfig {
   models: {
     [modelName: string]: Omit<ModelProfile, 'name' | 'available'>;
   };
+  selection?: SelectionConfig;
+  budget?: BudgetConfig;
+  agent?: AgentConfig;
+  classifier?: ClassifierConfig;
+  lexicon?: Lexicon;
+  taskTypes?: Record<string, TaskTypeConfig>;
+  ensemble?: EnsembleConfig;
+  verification?: VerificationConfig;
+  codeChecks?: CodeCheckConfig;
+  testRun?: TestRunConfig;
+  retry?: RetryConfig;
 }
 
 // Error types
@@ -180,3 +727,76 @@ export class ExecutionError extends Error {
     this.name = 'ExecutionError';
   }
 }
+
+/**
+ * A model request failed. Status and Retry-After come from the HTTP response, if any.
+ */
+export class ModelRequestError extends ExecutionError {
+  constructor(message: string, public readonly status?: number, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ModelRequestError';
+  }
+}
+
+export class RateLimitError extends ModelRequestError {
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message, status, retryAfterMs);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class TransientError extends ModelRequestError {
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message, status, retryAfterMs);
+    this.name = 'TransientError';
+  }
+}
+
+export class AuthenticationError extends ModelRequestError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class InvalidRequestError extends ModelRequestError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+export class TimeoutError extends ExecutionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class ModelNotFoundError extends AvailabilityError {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+export class PolicyViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+}
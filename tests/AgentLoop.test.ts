@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentLoop } from '../src/components/AgentLoop.js';
+import { CommandPolicy } from '../src/components/CommandPolicy.js';
+import { ExecutionLogger } from '../src/components/ExecutionLogger.js';
+import { RetryPolicy } from '../src/components/RetryPolicy.js';
+import { TaskExecutor } from '../src/components/TaskExecutor.js';
+import { WorkspaceTools } from '../src/components/WorkspaceTools.js';
+import { ExecutionResult, FailedAttempt, StreamProgress } from '../src/types/index.js';
+import { ChatCall, createTask, fakeClient } from './fakes.js';
+
+let root: string;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-loop-test-'));
+  await fs.writeFile(path.join(root, 'notes.txt'), 'the answer is 42\n');
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+const action = (name: string, args: Record<string, unknown>, thought = `use ${name}`) =>
+  JSON.stringify({ thought, action: name, args });
+
+/**
+ * Run the loop with a model that gives the scripted replies in order
+ */
+async function runAgent(
+  replies: ((call: ChatCall) => string)[],
+  options: { maxSteps?: number; maxObservationChars?: number; fallbackModels?: string[]; onProgress?: (p: StreamProgress) => void } = {}
+) {
+  let turn = 0;
+  const client = fakeClient(call => replies[Math.min(turn++, replies.length - 1)](call));
+  const logger = new ExecutionLogger('ERROR');
+  const tools = new WorkspaceTools(root, new CommandPolicy({}, 30000, logger));
+  const loop = new AgentLoop(new TaskExecutor(client), tools, logger, {
+    maxSteps: options.maxSteps ?? 5,
+    maxObservationChars: options.maxObservationChars ?? 8000,
+  });
+  const result = await loop.run({
+    task: createTask({ description: 'What is the answer?' }),
+    modelName: 'primary',
+    systemPrompt: 'system',
+    onProgress: options.onProgress,
+  }, options.fallbackModels ?? []);
+  return { result, client };
+}
+
+describe('AgentLoop', () => {
+  test('runs tools, sends observations back and returns the submitted answer', async () => {
+    const progress: string[] = [];
+    const { result, client } = await runAgent([
+      () => action('read_file', { path: 'notes.txt' }),
+      () => action('submit', { answer: '42' }),
+    ], { onProgress: p => progress.push(p.delta) });
+
+    const success = result as ExecutionResult;
+    expect(success).toMatchObject({ success: true, response: '42', tokensUsed: 30 });
+    expect(success.metadata.agent!.stopReason).toBe('submitted');
+    expect(success.metadata.agent!.steps.map(step => step.action)).toEqual(['read_file', 'submit']);
+    expect(client.calls[1].message).toBe('OBSERVATION:\n    1  the answer is 42\n    2  ');
+    expect(client.calls[1].options!.history!.map(message => message.role)).toEqual(['user', 'assistant']);
+    expect(progress).toEqual(['[step 1] read_file path="notes.txt"\n']);
+  });
+
+  test('returns tool errors and sandbox denials to the model as observations', async () => {
+    const { result, client } = await runAgent([
+      () => action('run_command', { command: 'rm notes.txt' }),
+      () => action('read_file', { path: 'missing.txt' }),
+      () => action('submit', { answer: 'done' }),
+    ]);
+
+    const steps = (result as ExecutionResult).metadata.agent!.steps;
+    expect(steps.map(step => step.success)).toEqual([false, false, true]);
+    expect(client.calls[1].message).toContain('Denied: Command denied by sandbox policy');
+    expect(client.calls[2].message).toContain('Error: ENOENT');
+    expect(await fs.readFile(path.join(root, 'notes.txt'), 'utf-8')).toContain('42');
+  });
+
+  test('asks again after an invalid action', async () => {
+    const { result, client } = await runAgent([
+      () => 'I think the answer is 42',
+      () => action('submit', { answer: '42' }),
+    ]);
+
+    expect((result as ExecutionResult).metadata.agent!.steps[0]).toMatchObject({ action: 'invalid', success: false });
+    expect(client.calls[1].message).toContain('Invalid action');
+  });
+
+  test('stops at the step limit with the last thought', async () => {
+    const { result } = await runAgent([() => action('list_dir', {}, 'still looking')], { maxSteps: 2 });
+
+    expect(result).toMatchObject({ success: false });
+    const failure = result as ExecutionResult;
+    expect(failure.metadata.agent!.stopReason).toBe('max_steps');
+    expect(failure.response).toBe('Agent reached the step limit (2) without submitting. Last thought: still looking');
+  });
+
+  test('truncates long observations', async () => {
+    await fs.writeFile(path.join(root, 'big.txt'), 'x'.repeat(1000));
+    const { client } = await runAgent([
+      () => action('read_file', { path: 'big.txt' }),
+      () => action('submit', { answer: 'ok' }),
+    ], { maxObservationChars: 100 });
+
+    expect(client.calls[1].message).toContain('more characters truncated]');
+    expect(client.calls[1].message.length).toBeLessThan(200);
+  });
+
+  test('falls back to the next model only when the first step fails', async () => {
+    const { result } = await runAgent([
+      call => {
+        if (call.model === 'primary') throw RetryPolicy.httpError(404, 'model "primary" not found');
+        return action('submit', { answer: 'from fallback' });
+      },
+    ], { fallbackModels: ['secondary'] });
+
+    expect(result).toMatchObject({ success: true, modelUsed: 'secondary', response: 'from fallback' });
+    expect((result as ExecutionResult).metadata.failedAttempts![0].modelAttempted).toBe('primary');
+  });
+
+  test('returns the attempt errors when no model can start', async () => {
+    const { result } = await runAgent([() => { throw RetryPolicy.httpError(404, 'model not found'); }], {
+      fallbackModels: ['secondary'],
+    });
+
+    expect((result as FailedAttempt[]).map(attempt => attempt.modelAttempted)).toEqual(['primary', 'secondary']);
+  });
+
+  test('stops with an error when a later step fails', async () => {
+    const { result } = await runAgent([
+      () => action('list_dir', {}),
+      () => { throw RetryPolicy.httpError(401, 'unauthorized'); },
+    ], { fallbackModels: ['secondary'] });
+
+    expect(result).toMatchObject({ success: false, modelUsed: 'primary' });
+    expect((result as ExecutionResult).metadata.agent!.stopReason).toBe('error');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { AnswerVerifier, DEFAULT_RUBRICS } from '../src/components/AnswerVerifier.js';
+import { RetryPolicy } from '../src/components/RetryPolicy.js';
+import { TaskExecutor } from '../src/components/TaskExecutor.js';
+import { ExecutionResult } from '../src/types/index.js';
+import { ChatCall, createTask, fakeClient } from './fakes.js';
+
+const answer: ExecutionResult = {
+  success: true,
+  modelUsed: 'coder',
+  response: 'function add(a, b) { return a + b; }',
+  executionTime: 100,
+  tokensUsed: 40,
+  promptTokens: 30,
+  completionTokens: 10,
+  confidence: 70,
+  metadata: {},
+};
+
+const grade = JSON.stringify({
+  criteria: [{ criterion: 'Correctness', score: 0.9, comment: 'adds the numbers' }],
+  score: 0.85,
+  rationale: 'Correct but untested',
+});
+
+/**
+ * Verify the answer with a verifier model whose reply comes from the handler
+ */
+async function verify(handler: (call: ChatCall) => string, options: { context?: string; tokenBudget?: number } = {}) {
+  const client = fakeClient(handler);
+  const verifier = new AnswerVerifier(new TaskExecutor(client));
+  const attempt = await verifier.verify({
+    task: createTask({ description: 'Write an add function' }),
+    modelName: 'coder',
+    systemPrompt: 'system',
+  }, answer, {
+    verifierModel: 'grader',
+    rubric: DEFAULT_RUBRICS.code_generation,
+    context: options.context,
+    tokenBudget: options.tokenBudget ?? 1000,
+  });
+  return { attempt, client };
+}
+
+describe('AnswerVerifier', () => {
+  test('grades the answer against the rubric with the verifier model', async () => {
+    const { attempt, client } = await verify(() => grade, { context: 'export {}' });
+
+    expect(client.calls).toHaveLength(1);
+    expect(client.calls[0].model).toBe('grader');
+    expect(client.calls[0].message).toBe(
+      'TASK:\nWrite an add function\n\nCONTEXT:\nexport {}\n\nRUBRIC:\n' +
+      DEFAULT_RUBRICS.code_generation.map(criterion => `- ${criterion}`).join('\n') +
+      `\n\nANSWER:\n${answer.response}`
+    );
+    expect(attempt).toEqual({
+      model: 'coder',
+      tokensUsed: 40,
+      verifierModel: 'grader',
+      verifierTokensUsed: 15,
+      score: 0.85,
+      rationale: 'Correct but untested',
+      criteria: [{ criterion: 'Correctness', score: 0.9, comment: 'adds the numbers' }],
+      chosen: false,
+    });
+  });
+
+  test('truncates the context and the answer to the token budget', async () => {
+    const { client } = await verify(() => grade, { context: 'const x = 1;\n'.repeat(200), tokenBudget: 100 });
+
+    expect(client.calls[0].message.match(/\[truncated\]/g)).toHaveLength(1);
+    expect(client.calls[0].message.length).toBeLessThan(600);
+  });
+
+  test('returns an attempt without a score when the grade is invalid', async () => {
+    const { attempt } = await verify(() => JSON.stringify({ score: 2, rationale: 'great' }));
+
+    expect(attempt.score).toBeUndefined();
+    expect(attempt.error).toStartWith('Invalid verification from grader: ');
+  });
+
+  test('returns an attempt without a score when the verifier fails', async () => {
+    const { attempt } = await verify(() => { throw RetryPolicy.httpError(404, 'model not found'); });
+
+    expect(attempt.score).toBeUndefined();
+    expect(attempt.error).toStartWith('Verifier grader failed: ');
+    expect(attempt.tokensUsed).toBe(40);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test';
+import { CodeBlockExtractor } from '../src/components/CodeBlockExtractor.js';
+import { SyntaxChecker } from '../src/components/SyntaxChecker.js';
+
+describe('CodeBlockExtractor', () => {
+  const extractor = new CodeBlockExtractor();
+
+  test.each([
+    ['```ts', 'typescript', undefined],
+    ['```ts src/a.ts', 'typescript', 'src/a.ts'],
+    ['```ts:src/a.ts', 'typescript', 'src/a.ts'],
+    ['```tsx title="src/App.tsx"', 'typescript', 'src/App.tsx'],
+    ['```src/util.py', 'python', 'src/util.py'],
+    ['```Python3', 'python', undefined],
+    ['```JSON', 'json', undefined],
+    ['```rust', 'rust', undefined],
+    ['```', undefined, undefined],
+  ])('reads %s', (fence, language, filename) => {
+    const [artifact] = extractor.extract(`Intro\n${fence}\ncode\n\`\`\``);
+    expect(artifact).toMatchObject({ language, filename, code: 'code' });
+  });
+
+  test('takes the filename from a first-line comment', () => {
+    const [artifact] = extractor.extract('```\n// file: src/index.js\nrun();\n```');
+    expect(artifact).toMatchObject({ language: 'javascript', filename: 'src/index.js' });
+  });
+
+  test('numbers blocks and their lines, with longer and tilde fences', () => {
+    const artifacts = extractor.extract('a\n```js\none\n```\nb\n````md\n```js\nnested\n```\n````\n~~~py\nx = 1\n~~~');
+    expect(artifacts.map(a => [a.index, a.language, a.startLine, a.endLine])).toEqual([
+      [1, 'javascript', 3, 3],
+      [2, 'md', 7, 9],
+      [3, 'python', 12, 12],
+    ]);
+    expect(artifacts[1].code).toBe('```js\nnested\n```');
+  });
+
+  test('an unclosed block runs to the end; inline code spans are not fences', () => {
+    expect(extractor.extract('Use ```x``` here')).toEqual([]);
+    const [artifact] = extractor.extract('```ts\nconst a = 1;\nconst b =');
+    expect(artifact.code).toBe('const a = 1;\nconst b =');
+  });
+});
+
+describe('SyntaxChecker', () => {
+  const checker = new SyntaxChecker();
+  const check = (language: string, code: string, filename?: string) =>
+    checker.check({ index: 1, language, filename, code, startLine: 1, endLine: 1 });
+
+  test('TypeScript and JavaScript: parse errors only', async () => {
+    expect(await check('typescript', 'const a: number = 1;')).toMatchObject({ status: 'ok', checker: 'typescript' });
+    expect(await check('typescript', 'const a: number = "not a number"; missing();')).toMatchObject({ status: 'ok' });
+    expect(await check('typescript', 'const App = () => <div />;')).toMatchObject({ status: 'ok' });
+
+    const broken = await check('javascript', 'function f( {\n  return 1;\n}');
+    expect(broken.status).toBe('error');
+    expect(broken.errors[0]).toMatch(/^line \d+:\d+: /);
+  });
+
+  test('JSON errors', async () => {
+    expect(await check('json', '{"a": 1}')).toMatchObject({ status: 'ok' });
+    const broken = await check('json', '{\n  "a": 1,\n}');
+    expect(broken.status).toBe('error');
+    // The position (and so the line) is only in V8's messages
+    expect(broken.errors).toHaveLength(1);
+  });
+
+  test('unchecked languages are skipped', async () => {
+    expect(await check('rust', 'fn main() {}')).toMatchObject({ status: 'skipped', reason: 'no checker for rust' });
+  });
+
+  test('the repair prompt lists the broken blocks', async () => {
+    const prompt = checker.buildRepairPrompt([
+      { index: 2, language: 'json', code: '', startLine: 1, endLine: 1, check: { status: 'error', checker: 'json', errors: ['line 3: bad'] } },
+      { index: 3, language: 'json', code: '', startLine: 1, endLine: 1, check: { status: 'ok', checker: 'json', errors: [] } },
+    ]);
+    expect(prompt).toContain('Block 2 (json):\n- line 3: bad');
+    expect(prompt).not.toContain('Block 3');
+  });
+});
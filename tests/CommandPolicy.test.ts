@@ -0,0 +1,156 @@
+import { describe, expect, test } from 'bun:test';
+import { CommandPolicy } from '../src/components/CommandPolicy.js';
+import { ExecutionLogger } from '../src/components/ExecutionLogger.js';
+import { SandboxConfig } from '../src/types/index.js';
+
+const ROOT = '/work/project';
+
+function evaluate(command: string, config: SandboxConfig = {}) {
+  return new CommandPolicy(config, 30000, new ExecutionLogger('ERROR')).evaluate(command, ROOT);
+}
+
+describe('CommandPolicy default lists', () => {
+  test.each([
+    'ls -la src',
+    'cat package.json | grep name',
+    'git diff --stat',
+    'npm test',
+    'npm exec tsc -- --noEmit',
+    'python3 -m pytest -q tests',
+    'node --test dist/',
+    'timeout 10 bun test 2>&1',
+    'FOO=1 env node script.js > out.log',
+  ])('allows %s', (command) => {
+    expect(evaluate(command)).toMatchObject({ allowed: true });
+  });
+
+  test.each([
+    ['rm -rf build', 'deny list'],
+    ['sudo ls', 'deny list'],
+    ['curl https://example.com', 'deny list'],
+    ['ls && rm x', 'deny list'],
+    ['env rm x', 'deny list'],
+    ['bash -c "ls"', 'allow list'],
+    ['perl script.pl', 'allow list'],
+    ['sed -i s/a/b/ file', 'allow list'],
+    ['npx some-package', 'allow list'],
+    ['find . -name "*.log" -delete', 'find -delete'],
+    ['find . -exec ls {} ;', 'find -exec'],
+    ['find . -okdir cat {} +', 'find -okdir'],
+  ])('denies %s (%s)', (command, reason) => {
+    expect(evaluate(command).reason).toContain(reason);
+  });
+});
+
+describe('CommandPolicy configured lists', () => {
+  test('an explicit empty allow list permits everything not denied', () => {
+    expect(evaluate('perl script.pl', { allow: [] }).allowed).toBe(true);
+    expect(evaluate('rm x', { allow: [] }).allowed).toBe(false);
+  });
+
+  test('deny takes precedence over allow and replaces the defaults', () => {
+    expect(evaluate('rm x', { allow: ['rm'] }).reason).toContain('deny list');
+    expect(evaluate('rm x', { allow: ['rm'], deny: [] }).allowed).toBe(true);
+  });
+
+  test('shell scripts and wrappers are checked recursively', () => {
+    const config = { allow: ['bash', 'xargs', 'find', 'ls'] };
+    expect(evaluate('bash -c "ls; rm -rf ."', config).reason).toContain('"rm" is on the deny list');
+    expect(evaluate('find . -name x -exec rm {} ;', config).reason).toContain('find -exec is not allowed');
+    expect(evaluate('xargs ls', config).executables).toEqual(['xargs', 'ls']);
+  });
+
+  test('per-executable timeouts take the longest', () => {
+    expect(evaluate('npm test && tsc', { timeouts: { npm: 120000, tsc: 60000 } }).timeout).toBe(120000);
+    expect(evaluate('ls').timeout).toBe(30000);
+  });
+});
+
+describe('CommandPolicy inline code and substitution', () => {
+  test.each([
+    'node -e "require(\'fs\').rmSync(\'/\', { recursive: true })"',
+    'node --eval=1',
+    'node -pe 1',
+    'bun --print 1',
+    'python -c "import os"',
+    'python3 -Bc "import os"',
+    'env node -e 1',
+    'timeout 5 python3 -c 1',
+  ])('denies inline code: %s', (command) => {
+    expect(evaluate(command).reason).toContain('inline code');
+  });
+
+  test('inline code is refused even for configured interpreters', () => {
+    expect(evaluate('perl -e 1', { allow: ['perl'] }).reason).toContain('inline code (perl -e)');
+    expect(evaluate('python3.12 -c 1', { allow: ['python3.12'] }).reason).toContain('inline code (python3.12 -c)');
+    expect(evaluate('perl -w script.pl', { allow: ['perl'] }).allowed).toBe(true);
+    expect(evaluate('node script.js -- -e', {}).allowed).toBe(true);
+  });
+
+  test.each([
+    ['echo $(whoami)', 'command substitution'],
+    ['echo `whoami`', 'command substitution'],
+    ['diff <(ls) <(ls src)', 'process substitution'],
+    ['ls > >(cat)', 'process substitution'],
+    ['echo "unterminated', 'unterminated quote'],
+  ])('denies %s', (command, reason) => {
+    expect(evaluate(command).reason).toContain(reason);
+  });
+});
+
+describe('CommandPolicy paths', () => {
+  test.each([
+    'cat /etc/passwd',
+    'cat ../secret',
+    'cat src/../../secret',
+    'ls ~',
+    'echo x > /tmp/out',
+    'cat $HOME/.ssh/id_rsa',
+    'tsc --outDir=/tmp/out',
+    'env DEST=/etc npm run build',
+  ])('denies %s', (command) => {
+    expect(evaluate(command).allowed).toBe(false);
+  });
+
+  test.each([
+    'cat /work/project/src/a.ts',
+    'cat src/../README.md',
+    'ls 2>&1',
+    "grep -r 'a/b' src",
+  ])('allows %s', (command) => {
+    expect(evaluate(command).allowed).toBe(true);
+  });
+});
+
+describe('CommandPolicy workspace escapes through variables', () => {
+  test.each([
+    ['X=/etc/passwd; cat $X', 'outside the workspace'],
+    ['F=~/.ssh/id_rsa; cat $F', 'outside the workspace'],
+    ['D=..; cat $D/secret', 'outside the workspace'],
+    ['D=src; cat $D/../../secret', 'outside the workspace'],
+    ['X=/etc cat x', 'outside the workspace'],
+    ['cat $HOME', 'variable $HOME is not set'],
+    ['cat "$HOME"', 'variable $HOME is not set'],
+    ['git -C $HOME log', 'variable $HOME is not set'],
+    ['git -C ${HOME} log', 'variable ${HOME} is not set'],
+    ['cat ${X:-/etc/passwd}', 'variable ${X:-/etc/passwd} is not set'],
+    ['echo hi > $OUT', 'variable $OUT is not set'],
+    ['$CMD x', 'variable $CMD is not set'],
+    ['HOME=src cat $HOME', 'variable $HOME is not set'],
+    ['X=src Y=$X; ls', 'variable $X is not set'],
+    ['bash -c "cat \\$HOME"', 'variable $HOME is not set'],
+  ])('denies %s', (command, reason) => {
+    const config = { allow: ['cat', 'git', 'echo', 'ls', 'bash'] };
+    expect(evaluate(command, config).reason).toContain(reason);
+  });
+
+  test.each([
+    'X=src; ls $X',
+    'D=src/lib; cat "${D}/index.ts" > ${D}/copy.ts',
+    "grep 'price$' src",
+    "echo '$HOME' \\$PATH",
+    'echo "total: $1"',
+  ])('allows %s', (command) => {
+    expect(evaluate(command)).toMatchObject({ allowed: true });
+  });
+});
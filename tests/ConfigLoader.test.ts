@@ -0,0 +1,121 @@
+import { describe, expect, test } from 'bun:test';
+import * as path from 'path';
+import { ConfigLoader } from '../src/components/ConfigLoader.js';
+import { ConfigurationError } from '../src/types/index.js';
+
+const MODEL = `models:
+  coder:
+    provider: ollama
+    domains: [code]
+    maxComplexity: expert
+    capabilities: [code_generation]
+    contextWindow: 32000
+    estimatedLatency: 3000
+    costPerToken: 0.0001
+    strengths: []
+    weaknesses: []
+`;
+
+/**
+ * Parse a configuration and return the error message it is rejected with
+ */
+function rejection(loader: ConfigLoader, content: string): string {
+  try {
+    loader.parse(content, 'models.yaml');
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigurationError);
+    return (error as Error).message;
+  }
+  throw new Error('configuration was accepted');
+}
+
+describe('ConfigLoader', () => {
+  const loader = new ConfigLoader();
+
+  test('loads the shipped models.yaml without warnings', async () => {
+    const { config, warnings } = await loader.load(path.join(import.meta.dir, '..', 'config', 'models.yaml'));
+    expect(warnings).toEqual([]);
+    expect(Object.keys(config.models)).toContain('qwen3-coder:480b-cloud');
+    expect(config.models['qwen3-coder:480b-cloud'].backend).toBe('chat');
+    expect(config.retry?.rate_limit?.retries).toBe(3);
+  });
+
+  test('parses JSON with the same schema', () => {
+    const json = JSON.stringify({
+      models: {
+        coder: {
+          provider: 'ollama', domains: ['code'], maxComplexity: 'simple', capabilities: ['debugging'],
+          contextWindow: 8192, estimatedLatency: 100, costPerToken: 0, strengths: [], weaknesses: [],
+        },
+      },
+    });
+    const { config } = loader.parse(json, 'models.json');
+    expect(config.models.coder.maxComplexity).toBe('simple');
+  });
+
+  test('names the line and field of a missing required field', () => {
+    const message = rejection(loader, MODEL.replace('    contextWindow: 32000\n', ''));
+    expect(message).toContain('models.yaml:3 models.coder.contextWindow: missing required field');
+  });
+
+  test('names the line and field of a wrongly typed value', () => {
+    const message = rejection(loader, MODEL.replace('contextWindow: 32000', 'contextWindow: large'));
+    expect(message).toMatch(/models\.yaml:7 models\.coder\.contextWindow: /);
+  });
+
+  test('reports YAML syntax errors with their line', () => {
+    const message = rejection(loader, `${MODEL}selection:\n  strategy: [balanced\n`);
+    expect(message).toContain('Failed to parse configuration');
+    expect(message).toContain('models.yaml:14: ');
+  });
+
+  test('rejects a configuration without models', () => {
+    expect(rejection(loader, 'models: {}\n')).toContain('models: must define at least one model');
+  });
+
+  test('warns about unknown keys and drops unknown model options', () => {
+    const content = MODEL.replace('    strengths: []', '    temprature: 0.2\n    options:\n      num_ctx: 4096\n      mirostat: 2\n    strengths: []');
+    const { config, warnings } = loader.parse(content, 'models.yaml');
+    expect(warnings).toEqual([
+      { path: 'models.coder.temprature', line: 10, message: 'unknown key ignored' },
+      { path: 'models.coder.options.mirostat', line: 13, message: 'unknown key ignored' },
+    ]);
+    expect(config.models.coder.options).toEqual({ num_ctx: 4096 });
+  });
+
+  test('ignores unknown domains with a warning but rejects a model without valid ones', () => {
+    const { config, warnings } = loader.parse(MODEL.replace('domains: [code]', 'domains: [code, chemistry]'));
+    expect(config.models.coder.domains).toEqual(['code']);
+    expect(warnings[0].path).toBe('models.coder.domains.1');
+    expect(warnings[0].message).toContain('unknown domain "chemistry"');
+
+    expect(rejection(loader, MODEL.replace('domains: [code]', 'domains: [chemistry]')))
+      .toContain('models.coder.domains: no valid domains');
+  });
+
+  test('warns about unknown capabilities and unconfigured auxiliary models', () => {
+    const content = MODEL.replace('capabilities: [code_generation]', 'capabilities: [code_generation, telepathy]') +
+      'classifier:\n  model: missing\nensemble:\n  judge: missing\n  taskTypes: [code_review, poetry]\n';
+    const paths = loader.parse(content).warnings.map(warning => warning.path);
+    expect(paths).toEqual(['models.coder.capabilities.1', 'classifier.model', 'ensemble.judge', 'ensemble.taskTypes.1']);
+  });
+
+  test('validates config-defined task types', () => {
+    const { config } = loader.parse(`${MODEL}taskTypes:
+  security_audit:
+    keywords: [security]
+    template: "Audit this code in {{language}}"
+`);
+    expect(config.taskTypes?.security_audit.keywords).toEqual(['security']);
+
+    expect(rejection(loader, `${MODEL}taskTypes:\n  Security:\n    template: x\n`))
+      .toContain('taskTypes.Security: task type names must be lowercase snake_case');
+    expect(rejection(loader, `${MODEL}taskTypes:\n  security_audit:\n    keywords: [security]\n`))
+      .toContain('task type "security_audit" needs a template');
+  });
+
+  test('rejects out-of-range values', () => {
+    expect(rejection(loader, `${MODEL}ensemble:\n  size: 9\n`)).toContain('ensemble.size');
+    expect(rejection(loader, `${MODEL}verification:\n  threshold: 1.5\n`)).toContain('verification.threshold');
+  });
+});
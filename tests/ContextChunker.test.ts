@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { ContextChunker } from '../src/components/ContextChunker.js';
+import { TokenEstimator } from '../src/components/TokenEstimator.js';
+
+/**
+ * A top-level function of `lines` body lines
+ */
+function declaration(name: string, lines: number): string {
+  const body = Array.from({ length: lines }, (_, index) => `  const value${index} = compute(${index});`);
+  return [`function ${name}() {`, ...body, '}'].join('\n');
+}
+
+describe('ContextChunker', () => {
+  const chunker = new ContextChunker();
+  const estimator = new TokenEstimator();
+
+  test('returns text that fits as a single chunk', () => {
+    const chunks = chunker.split('const a = 1;\nconst b = 2;', 100);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ index: 1, startLine: 1, endLine: 2, boundary: 'end' });
+    expect(chunks[0].text).toBe('const a = 1;\nconst b = 2;');
+  });
+
+  test('keeps every chunk within the budget and loses no line', () => {
+    const text = ['alpha', 'beta', 'gamma', 'delta'].map(name => declaration(name, 12)).join('\n\n');
+    const chunks = chunker.split(text, 80);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(80);
+      expect(chunk.tokens).toBe(chunk.text.split('\n').reduce((sum, line) => sum + estimator.estimate(line) + 1, 0));
+    }
+    expect(chunks.map(chunk => chunk.text).join('\n')).toBe(text);
+    chunks.slice(1).forEach((chunk, index) => expect(chunk.startLine).toBe(chunks[index].endLine + 1));
+  });
+
+  test('cuts before top-level declarations rather than inside them', () => {
+    const text = ['alpha', 'beta', 'gamma'].map(name => declaration(name, 6)).join('\n');
+    const chunks = chunker.split(text, 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.startsWith('function ')).toBe(true);
+      expect(chunk.text.endsWith('}')).toBe(true);
+    }
+    expect(chunks.slice(0, -1).every(chunk => chunk.boundary === 'declaration')).toBe(true);
+  });
+
+  test('prefers file headers over declarations', () => {
+    const text = [
+      'FILE: src/a.ts', declaration('alpha', 4), declaration('beta', 4),
+      'FILE: src/b.ts', declaration('gamma', 4),
+    ].join('\n');
+    const chunks = chunker.split(text, 150);
+
+    expect(chunks[0].boundary).toBe('file');
+    expect(chunks[1].text.startsWith('FILE: src/b.ts')).toBe(true);
+  });
+
+  test('falls back to blank lines in prose', () => {
+    const paragraph = (word: string) => Array.from({ length: 5 }, () => `${word} sentence about the design.`).join('\n');
+    const text = [paragraph('first'), '', paragraph('second'), '', paragraph('third')].join('\n');
+    const chunks = chunker.split(text, 60);
+
+    expect(chunks[0].boundary).toBe('blank');
+    expect(chunks[1].text.startsWith('second')).toBe(true);
+  });
+
+  test('breaks a single oversized line into pieces that keep its line number', () => {
+    const minified = Array.from({ length: 200 }, (_, index) => `var v${index}=f(${index});`).join('');
+    const chunks = chunker.split(`// header\n${minified}`, 100);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.every(chunk => chunk.tokens <= 100)).toBe(true);
+    expect(chunks.at(-1)!.startLine).toBe(2);
+    expect(chunks.at(-1)!.endLine).toBe(2);
+    expect(chunks.map(chunk => chunk.text).join('').replace('// header', '')).toBe(minified);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandPolicy } from '../src/components/CommandPolicy.js';
+import { ContextCollector } from '../src/components/ContextCollector.js';
+import { ExecutionLogger } from '../src/components/ExecutionLogger.js';
+import { WorkspaceTools } from '../src/components/WorkspaceTools.js';
+
+let root: string;
+let collector: ContextCollector;
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'context-collector-test-'));
+  await fs.mkdir(path.join(root, 'src'));
+  await fs.mkdir(path.join(root, 'build'));
+  await fs.writeFile(path.join(root, '.gitignore'), 'build/\n');
+  await fs.writeFile(path.join(root, 'src/auth.ts'), '// 用户登录校验\nexport function checkLogin(token: string) {\n  return token.length > 0;\n}\n');
+  await fs.writeFile(path.join(root, 'src/report.ts'), '// 生成月度报表\nexport function buildReport() {}\n');
+  await fs.writeFile(path.join(root, 'build/auth.js'), 'compiled');
+  const filler = Array.from({ length: 300 }, (_, i) => `const value${i} = ${i};`);
+  filler[149] = '// 用户登录后刷新会话';
+  await fs.writeFile(path.join(root, 'big.ts'), filler.join('\n') + '\n');
+  const tools = new WorkspaceTools(root, new CommandPolicy({}, 30000, new ExecutionLogger('ERROR')));
+  collector = new ContextCollector(tools);
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('ContextCollector', () => {
+  test('ranks files by identifier terms', async () => {
+    const collection = await collector.collect([], ['src/**/*.ts'], 'Fix checkLogin for empty tokens');
+    expect(collection.files.map(file => file.path)).toEqual(['src/auth.ts', 'src/report.ts']);
+  });
+
+  test('ranks files by terms of Chinese descriptions', async () => {
+    const collection = await collector.collect([], ['src/**/*.ts'], '修复月度报表生成的问题');
+    expect(collection.files.map(file => file.path)).toEqual(['src/report.ts', 'src/auth.ts']);
+    expect(collection.files[0].score).toBeGreaterThan(0);
+
+    const login = await collector.collect([], ['src/**/*.ts'], '用户登录失败时应该提示');
+    expect(login.files[0].path).toBe('src/auth.ts');
+  });
+
+  test('honours .gitignore and reports missing files', async () => {
+    const collection = await collector.collect(['build/auth.js', 'src/missing.ts'], ['src/*.ts'], 'auth');
+    expect(collection.files.map(file => file.path)).toEqual(['src/auth.ts', 'src/report.ts']);
+    expect(collection.skipped).toEqual(['build/auth.js: ignored by .gitignore', 'src/missing.ts: not found']);
+  });
+
+  test('cuts a file that does not fit to the excerpt around the most relevant line', async () => {
+    const collection = await collector.collect(['big.ts', 'src/report.ts'], [], '用户登录');
+    const fitted = collector.fit(collection, 400, '用户登录');
+    expect(fitted.snippets).toHaveLength(1);
+    expect(fitted.snippets[0]).toMatchObject({ path: 'big.ts', truncated: true });
+    expect(fitted.snippets[0].startLine).toBeLessThan(150);
+    expect(fitted.snippets[0].endLine).toBeGreaterThan(150);
+    expect(fitted.omitted).toEqual(['src/report.ts']);
+  });
+
+  test('keeps filling the budget with smaller files after omitting one', async () => {
+    const collection = await collector.collect(['big.ts', 'src/auth.ts', 'src/report.ts'], [], '用户登录');
+    const byPath = new Map(collection.files.map(file => [file.path, file]));
+    const ranked = { ...collection, files: ['src/report.ts', 'big.ts', 'src/auth.ts'].map(file => byPath.get(file)!) };
+
+    const fitted = collector.fit(ranked, 120, '用户登录');
+    expect(fitted.snippets.map(snippet => [snippet.path, snippet.truncated])).toEqual([
+      ['src/report.ts', false],
+      ['src/auth.ts', false],
+    ]);
+    expect(fitted.omitted).toEqual(['big.ts']);
+    expect(fitted.tokensUsed).toBeLessThanOrEqual(120);
+  });
+});
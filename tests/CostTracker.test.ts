@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CostTracker } from '../src/components/CostTracker.js';
+
+let dir: string | undefined;
+
+afterEach(async () => {
+  if (dir) {
+    await fs.rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  }
+});
+
+describe('CostTracker', () => {
+  test('adds costs to the session and daily totals', async () => {
+    const tracker = new CostTracker();
+    await tracker.record('a', tracker.calculateCost(1000, 0.0001));
+    await tracker.record('a', 0.2);
+    await tracker.record('b', 0.5);
+    await tracker.record('b', 0);
+
+    expect(tracker.getSessionTotal('a')).toBeCloseTo(0.3);
+    expect(tracker.getSessionTotal('b')).toBe(0.5);
+    expect(tracker.getSessionTotal('c')).toBe(0);
+    expect(tracker.getDailyTotal()).toBeCloseTo(0.8);
+  });
+
+  test('budget pressure is the highest fraction of any limit', async () => {
+    const tracker = new CostTracker();
+    await tracker.record('a', 0.4);
+    await tracker.record('b', 1.2);
+
+    expect(tracker.getBudgetStatus('a', {})).toMatchObject({ pressure: 0, exhausted: false });
+    expect(tracker.getBudgetStatus('a', { session: 1 })).toMatchObject({ sessionSpent: 0.4, pressure: 0.4, exhausted: false });
+    expect(tracker.getBudgetStatus('a', { session: 1, daily: 2 }).pressure).toBeCloseTo(0.8);
+    expect(tracker.getBudgetStatus('b', { session: 1 })).toMatchObject({ exhausted: true });
+    expect(tracker.getBudgetStatus('a', { daily: 0 })).toMatchObject({ pressure: 1, exhausted: true });
+  });
+
+  test('persists daily totals but not session totals', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cost-tracker-test-'));
+    const file = path.join(dir, 'costs.json');
+    await new CostTracker(file).record('a', 0.25);
+
+    const reloaded = new CostTracker(file);
+    await reloaded.load();
+    expect(reloaded.getDailyTotal()).toBe(0.25);
+    expect(reloaded.getSessionTotal('a')).toBe(0);
+  });
+
+  test('prunes daily totals older than the retention period', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cost-tracker-test-'));
+    const file = path.join(dir, 'costs.json');
+    await fs.writeFile(file, JSON.stringify({ version: 1, daily: { '2000-01-01': 9 } }));
+
+    const tracker = new CostTracker(file);
+    await tracker.load();
+    expect(tracker.getDailyTotal(new Date(2000, 0, 1))).toBe(9);
+    await tracker.record('a', 0.1);
+
+    const saved = JSON.parse(await fs.readFile(file, 'utf-8'));
+    expect(Object.keys(saved.daily)).toHaveLength(1);
+    expect(saved.daily['2000-01-01']).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+import { EnsembleExecutor } from '../src/components/EnsembleExecutor.js';
+import { ExecutionLogger } from '../src/components/ExecutionLogger.js';
+import { RetryPolicy } from '../src/components/RetryPolicy.js';
+import { TaskExecutor } from '../src/components/TaskExecutor.js';
+import { ExecutionResult, FailedAttempt } from '../src/types/index.js';
+import { ChatCall, createTask, fakeClient } from './fakes.js';
+
+const verdict = (overrides: Record<string, unknown>) => JSON.stringify({
+  agreements: ['use a map'],
+  disagreements: [{ topic: 'null handling', positions: { A: 'throws', B: 'returns undefined' } }],
+  verdict: 'pick',
+  rationale: 'B handles missing keys',
+  confidence: 0.8,
+  ...overrides,
+});
+
+/**
+ * Run alpha and beta with a judge; answers and the verdict come from the handler
+ */
+async function runEnsemble(handler: (call: ChatCall) => string) {
+  const client = fakeClient(handler);
+  const executor = new EnsembleExecutor(new TaskExecutor(client), new ExecutionLogger('ERROR'));
+  const result = await executor.run({
+    task: createTask({ description: 'Write a lookup' }),
+    modelName: 'alpha',
+    systemPrompt: 'system',
+  }, ['alpha', 'beta'], { judgeModel: 'judge', judgeFallbackModels: [], context: 'const table = {}', tokenBudget: 1000 });
+  return { result, client };
+}
+
+const ANSWERS: Record<string, string> = { alpha: 'lookup with throw', beta: 'lookup with undefined' };
+
+const answers = (judge: () => string) => (call: ChatCall) =>
+  call.model === 'judge' ? judge() : ANSWERS[call.model];
+
+describe('EnsembleExecutor', () => {
+  test('shows the judge labelled answers and returns the picked one', async () => {
+    const { result, client } = await runEnsemble(answers(() => verdict({ chosen: 'b' })));
+
+    const judgeCall = client.calls.find(call => call.model === 'judge')!;
+    expect(judgeCall.message).toContain('CONTEXT:\nconst table = {}');
+    expect(judgeCall.message).toContain('### Answer A\nlookup with throw');
+    expect(judgeCall.message).toContain('### Answer B\nlookup with undefined');
+    expect(judgeCall.message).not.toMatch(/alpha|beta/);
+
+    const success = result as ExecutionResult;
+    expect(success).toMatchObject({ response: 'lookup with undefined', modelUsed: 'beta', confidence: 80, tokensUsed: 45 });
+    expect(success.metadata.ensemble).toMatchObject({
+      verdict: 'pick',
+      chosenModel: 'beta',
+      judgeModel: 'judge',
+      disagreements: [{ topic: 'null handling', positions: { alpha: 'throws', beta: 'returns undefined' } }],
+    });
+  });
+
+  test('returns the merged answer written by the judge', async () => {
+    const { result } = await runEnsemble(answers(() => verdict({ verdict: 'merge', finalAnswer: 'merged lookup' })));
+
+    expect(result).toMatchObject({ response: 'merged lookup', modelUsed: 'judge' });
+    expect((result as ExecutionResult).metadata.ensemble).toMatchObject({ verdict: 'merge', chosenModel: undefined });
+  });
+
+  test('uses the best-ranked answer when the verdict is invalid', async () => {
+    const { result } = await runEnsemble(answers(() => 'I prefer B'));
+
+    expect(result).toMatchObject({ response: 'lookup with throw', modelUsed: 'alpha', tokensUsed: 45 });
+    const ensemble = (result as ExecutionResult).metadata.ensemble!;
+    expect(ensemble.verdict).toBe('fallback');
+    expect(ensemble.rationale).toStartWith('Judge failed (invalid verdict from judge');
+  });
+
+  test('uses the best-ranked answer when the judge picks an unknown label', async () => {
+    const { result } = await runEnsemble(answers(() => verdict({ chosen: 'C' })));
+
+    expect(result).toMatchObject({ response: 'lookup with throw', modelUsed: 'alpha' });
+    expect((result as ExecutionResult).metadata.ensemble!.rationale).toStartWith('Judge chose no valid answer (C)');
+  });
+
+  test('skips the judge when only one model answered', async () => {
+    const { result, client } = await runEnsemble(call => {
+      if (call.model === 'alpha') throw RetryPolicy.httpError(404, 'model not found');
+      return ANSWERS[call.model];
+    });
+
+    expect(client.calls.map(call => call.model)).not.toContain('judge');
+    expect(result).toMatchObject({ response: 'lookup with undefined', modelUsed: 'beta' });
+    const ensemble = (result as ExecutionResult).metadata.ensemble!;
+    expect(ensemble.verdict).toBe('single');
+    expect(ensemble.members.map(member => member.success)).toEqual([false, true]);
+  });
+
+  test('returns the attempt errors when every model fails', async () => {
+    const { result } = await runEnsemble(() => { throw RetryPolicy.httpError(404, 'model not found'); });
+
+    expect((result as FailedAttempt[]).map(attempt => attempt.modelAttempted)).toEqual(['alpha', 'beta']);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test';
+import { ExecutionLogger } from '../src/components/ExecutionLogger.js';
+import { MapReduceExecutor } from '../src/components/MapReduceExecutor.js';
+import { RetryPolicy } from '../src/components/RetryPolicy.js';
+import { TaskExecutor } from '../src/components/TaskExecutor.js';
+import { ContextChunk, ExecutionResult, FailedAttempt } from '../src/types/index.js';
+import { ChatCall, createTask, fakeClient } from './fakes.js';
+
+const chunks: ContextChunk[] = [
+  { index: 1, startLine: 1, endLine: 10, tokens: 50, boundary: 'file', text: 'part one' },
+  { index: 2, startLine: 11, endLine: 20, tokens: 50, boundary: 'file', text: 'part two' },
+  { index: 3, startLine: 21, endLine: 30, tokens: 50, boundary: 'end', text: 'part three' },
+];
+
+const options = {
+  systemPromptFor: (context: string) => `CONTEXT:\n${context}`,
+  contextTokens: 150,
+  chunkTokenBudget: 60,
+};
+
+/**
+ * Run the map-reduce with a model whose replies come from the handler
+ */
+async function runMapReduce(handler: (call: ChatCall) => string, fallbackModels: string[] = []) {
+  const client = fakeClient(handler);
+  const executor = new MapReduceExecutor(new TaskExecutor(client), new ExecutionLogger('ERROR'));
+  const result = await executor.run({
+    task: createTask({ description: 'Find the bug' }),
+    modelName: 'primary',
+    systemPrompt: 'system',
+  }, chunks, fallbackModels, options);
+  return { result, client };
+}
+
+describe('MapReduceExecutor', () => {
+  test('maps every chunk with its own context and synthesizes the relevant partials', async () => {
+    const { result, client } = await runMapReduce(call => {
+      if (call.systemPrompt === 'system') return 'final answer';
+      return call.systemPrompt!.endsWith('part two') ? 'not relevant' : `finding in ${call.systemPrompt!.slice(9)}`;
+    });
+
+    expect(client.calls.map(call => call.systemPrompt)).toEqual([
+      'CONTEXT:\npart one', 'CONTEXT:\npart two', 'CONTEXT:\npart three', 'system',
+    ]);
+    expect(client.calls[1].message).toContain('part 2 of 3 (lines 11-20)');
+
+    const synthesis = client.calls[3].message;
+    expect(synthesis).toContain('Partial answers from the 2 relevant parts');
+    expect(synthesis).toContain('### Part 1 of 3 (lines 1-10)\nfinding in part one');
+    expect(synthesis).toContain('### Part 3 of 3 (lines 21-30)\nfinding in part three');
+    expect(synthesis).not.toContain('Part 2 of 3');
+
+    const success = result as ExecutionResult;
+    expect(success).toMatchObject({ success: true, response: 'final answer', tokensUsed: 60, promptTokens: 40, completionTokens: 20 });
+    expect(success.metadata.mapReduce).toMatchObject({ contextTokens: 150, chunkTokenBudget: 60, reduceModel: 'primary' });
+    expect(success.metadata.mapReduce!.chunks.map(chunk => chunk.success)).toEqual([true, true, true]);
+  });
+
+  test('truncates partial answers to their share of the budget', async () => {
+    const { client } = await runMapReduce(call => call.systemPrompt === 'system' ? 'done' : 'detail '.repeat(200));
+
+    expect(client.calls[3].message.match(/\[partial answer truncated\]/g)).toHaveLength(3);
+  });
+
+  test('synthesizes without the chunks that failed on every model', async () => {
+    const { result, client } = await runMapReduce(call => {
+      if (call.systemPrompt === 'CONTEXT:\npart two') throw RetryPolicy.httpError(404, 'model not found');
+      return call.systemPrompt === 'system' ? 'final answer' : 'finding';
+    }, ['secondary']);
+
+    const success = result as ExecutionResult;
+    expect(success.success).toBe(true);
+    expect(success.metadata.mapReduce!.chunks[1]).toMatchObject({ index: 2, success: false, tokensUsed: 0 });
+    expect(success.metadata.failedAttempts!.map(attempt => attempt.modelAttempted)).toEqual(['primary', 'secondary']);
+    expect(client.calls.at(-1)!.message).toContain('Partial answers from the 2 relevant parts');
+  });
+
+  test('returns the attempt errors when every map call fails', async () => {
+    const { result, client } = await runMapReduce(() => { throw RetryPolicy.httpError(404, 'model not found'); });
+
+    expect((result as FailedAttempt[])).toHaveLength(3);
+    expect(client.calls).toHaveLength(3);
+  });
+
+  test('returns the map and synthesis errors when the synthesis fails', async () => {
+    const { result } = await runMapReduce(call => {
+      if (call.systemPrompt === 'system') throw RetryPolicy.httpError(404, 'model not found');
+      return 'finding';
+    });
+
+    expect((result as FailedAttempt[]).map(attempt => attempt.modelAttempted)).toEqual(['primary']);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ModelRegistry } from '../src/components/ModelRegistry.js';
+import { ModelSelector } from '../src/components/ModelSelector.js';
+import { ModelStatsStore } from '../src/components/ModelStatsStore.js';
+import { ParsedTask } from '../src/types/index.js';
+
+const profile = (latency: number) => `
+    provider: ollama
+    domains: [code]
+    maxComplexity: expert
+    capabilities: [code_generation]
+    contextWindow: 32000
+    estimatedLatency: ${latency}
+    costPerToken: 0
+    strengths: []
+    weaknesses: []`;
+
+const task: ParsedTask = {
+  description: 'Implement a parser',
+  domain: 'code',
+  complexity: 'moderate',
+  requiredCapabilities: ['code_generation'],
+  contextSize: 0,
+  estimatedTokens: 100,
+  taskType: 'code_generation',
+  language: 'en',
+};
+
+let dir: string;
+let registry: ModelRegistry;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'model-selector-test-'));
+  const configPath = path.join(dir, 'models.yaml');
+  await fs.writeFile(configPath, `models:\n  alpha:${profile(5000)}\n  beta:${profile(5000)}\n`);
+  registry = new ModelRegistry();
+  await registry.loadProfiles(configPath);
+  await registry.verifyAvailability(['alpha', 'beta']);
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const scoreOf = (selector: ModelSelector, model: string) => {
+  const result = selector.selectModel(task);
+  return [result.score, ...result.alternatives].find(score => score.modelName === model)!;
+};
+
+describe('ModelSelector with execution stats', () => {
+  test('equal models tie without stats', () => {
+    const selector = new ModelSelector(registry, new ModelStatsStore());
+    expect(scoreOf(selector, 'alpha').score).toBe(scoreOf(selector, 'beta').score);
+    expect(scoreOf(selector, 'alpha').reliabilityScore).toBe(100);
+  });
+
+  test('failures scale the score down by reliability, with confidence growing with samples', () => {
+    const store = new ModelStatsStore();
+    const selector = new ModelSelector(registry, store);
+    const baseline = scoreOf(selector, 'alpha').score;
+
+    for (let i = 0; i < 5; i++) store.record('alpha', 'code_generation', 'failure', 0);
+    const failing = scoreOf(selector, 'alpha');
+    expect(failing.reliabilityScore).toBe(0);
+    expect(failing.score).toBeCloseTo(baseline * 0.4, 1);
+    expect(selector.selectModel(task).selectedModel).toBe('beta');
+  });
+
+  test('timeouts weigh more than other failures', () => {
+    const failures = new ModelStatsStore();
+    const timeouts = new ModelStatsStore();
+    for (let i = 0; i < 9; i++) {
+      failures.record('alpha', 'code_generation', 'success', 5000);
+      timeouts.record('alpha', 'code_generation', 'success', 5000);
+    }
+    failures.record('alpha', 'code_generation', 'failure', 0);
+    timeouts.record('alpha', 'code_generation', 'timeout', 0);
+
+    expect(scoreOf(new ModelSelector(registry, failures), 'alpha').reliabilityScore).toBe(90);
+    expect(scoreOf(new ModelSelector(registry, timeouts), 'alpha').reliabilityScore).toBe(85);
+  });
+
+  test('measured latency takes over from the configured one, up to 80% after 20 runs', () => {
+    const store = new ModelStatsStore();
+    const selector = new ModelSelector(registry, store);
+    const configured = scoreOf(selector, 'alpha').latencyScore;
+
+    for (let i = 0; i < 10; i++) store.record('alpha', 'code_generation', 'success', 1000);
+    // 40% of 1000ms + 60% of 5000ms = 3400ms
+    const halfway = scoreOf(selector, 'alpha').latencyScore;
+    for (let i = 0; i < 30; i++) store.record('alpha', 'code_generation', 'success', 1000);
+    // 80% of 1000ms + 20% of 5000ms = 1800ms
+    const full = scoreOf(selector, 'alpha').latencyScore;
+
+    expect(configured).toBeCloseTo(100 - 4000 / 90, 1);
+    expect(halfway).toBeCloseTo(100 - 2400 / 90, 1);
+    expect(full).toBeCloseTo(100 - 800 / 90, 1);
+    expect(selector.selectModel(task, { strategy: 'fastest' }).selectedModel).toBe('alpha');
+  });
+
+  test('helper calls do not affect the ranking for real tasks', () => {
+    const store = new ModelStatsStore();
+    const selector = new ModelSelector(registry, store);
+    for (const helper of ['repair', 'verification', 'ensemble_judge']) {
+      for (let i = 0; i < 5; i++) store.record('alpha', helper, 'timeout', 0);
+    }
+
+    expect(scoreOf(selector, 'alpha').reliabilityScore).toBe(100);
+    expect(scoreOf(selector, 'alpha').score).toBe(scoreOf(selector, 'beta').score);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ModelStatsStore } from '../src/components/ModelStatsStore.js';
+
+let dir: string | undefined;
+
+afterEach(async () => {
+  if (dir) {
+    await fs.rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  }
+});
+
+describe('ModelStatsStore', () => {
+  test('has no stats for an unknown model', () => {
+    expect(new ModelStatsStore().getStats('m', 'general')).toBeNull();
+  });
+
+  test('computes percentiles from successful runs and rates from all outcomes', () => {
+    const store = new ModelStatsStore();
+    [100, 200, 300, 400, 500].forEach(latency => store.record('m', 'general', 'success', latency));
+    store.record('m', 'general', 'failure', 50);
+    store.record('m', 'general', 'timeout', 9000);
+    store.record('m', 'general', 'timeout', 9000);
+
+    expect(store.getStats('m', 'general')).toEqual({
+      samples: 8,
+      latencyP50: 300,
+      latencyP90: 500,
+      successRate: 5 / 8,
+      timeoutRate: 2 / 8,
+    });
+  });
+
+  test('keeps only the most recent window of executions', () => {
+    const store = new ModelStatsStore(undefined, 3);
+    store.record('m', 'general', 'failure', 0);
+    store.record('m', 'general', 'failure', 0);
+    ['success', 'success', 'success'].forEach(() => store.record('m', 'general', 'success', 100));
+
+    expect(store.getStats('m', 'general')).toMatchObject({ samples: 3, successRate: 1 });
+  });
+
+  test('uses a task type with enough samples, otherwise the model-wide aggregate', () => {
+    const store = new ModelStatsStore();
+    store.record('m', 'code_review', 'failure', 0);
+    store.record('m', 'code_review', 'failure', 0);
+    store.record('m', 'code_generation', 'success', 100);
+    store.record('m', 'code_generation', 'success', 100);
+
+    expect(store.getStats('m', 'code_review')).toMatchObject({ samples: 4, successRate: 0.5 });
+
+    store.record('m', 'code_review', 'failure', 0);
+    expect(store.getStats('m', 'code_review')).toMatchObject({ samples: 3, successRate: 0 });
+  });
+
+  test('leaves verifier, judge and repair calls out of the aggregate', () => {
+    const store = new ModelStatsStore();
+    store.record('m', 'general', 'success', 100);
+    for (const helper of ['repair', 'verification', 'ensemble_judge']) {
+      store.record('m', helper, 'failure', 0);
+      store.record('m', helper, 'failure', 0);
+      store.record('m', helper, 'timeout', 0);
+    }
+
+    expect(store.getStats('m', 'code_review')).toMatchObject({ samples: 1, successRate: 1, timeoutRate: 0 });
+    expect(store.getStats('m', 'verification')).toMatchObject({ samples: 3, successRate: 0 });
+    expect(store.getStats('judge-only', 'general')).toBeNull();
+    store.record('judge-only', 'ensemble_judge', 'success', 100);
+    expect(store.getStats('judge-only', 'general')).toBeNull();
+  });
+
+  test('flush persists pending stats and load restores them', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'model-stats-test-'));
+    const file = path.join(dir, 'nested', 'stats.json');
+    const store = new ModelStatsStore(file);
+    store.record('m', 'general', 'success', 120);
+    await store.flush();
+
+    const reloaded = new ModelStatsStore(file);
+    await reloaded.load();
+    expect(reloaded.getStats('m', 'general')).toMatchObject({ samples: 1, latencyP50: 120 });
+  });
+
+  test('starts empty when the stats file is corrupt', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'model-stats-test-'));
+    const file = path.join(dir, 'stats.json');
+    await fs.writeFile(file, '{ not json');
+
+    const store = new ModelStatsStore(file);
+    await store.load();
+    expect(store.getStats('m', 'general')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { OllamaRemoteMCPClient } from '../src/mini-swe-agent/OllamaRemoteMCPClient.js';
+import { StreamProgress } from '../src/types/index.js';
+
+let server: ReturnType<typeof Bun.serve>;
+let client: OllamaRemoteMCPClient;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      const url = new URL(request.url);
+      if (url.pathname === '/api/chat') {
+        // Native NDJSON stream: eval_count arrives with the final line only
+        const lines = [
+          { message: { content: 'Hello' }, done: false },
+          { message: { content: ' world' }, done: false },
+          { message: { content: '' }, done: true, prompt_eval_count: 12, eval_count: 7 },
+        ];
+        return new Response(lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+      }
+      // OpenAI-compatible SSE stream without a usage chunk
+      const events = [
+        { choices: [{ delta: { content: 'Streaming' } }] },
+        { choices: [{ delta: { content: ' tokenization' } }] },
+      ];
+      return new Response(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n');
+    },
+  });
+  client = new OllamaRemoteMCPClient(`http://127.0.0.1:${server.port}`, '', 'openai');
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe('OllamaRemoteMCPClient.chatStream', () => {
+  test('reports the completion tokens of the server once they arrive', async () => {
+    const progress: StreamProgress[] = [];
+    const response = await client.chatStream('m', 'hi', undefined, 0, p => progress.push(p), { backend: 'chat' });
+
+    expect(response).toMatchObject({ content: 'Hello world', promptTokens: 12, completionTokens: 7 });
+    expect(progress.map(p => p.delta)).toEqual(['Hello', ' world', '']);
+    expect(progress.at(-1)!.tokens).toBe(7);
+  });
+
+  test('estimates tokens from the streamed text without usage, not from the chunk count', async () => {
+    const progress: StreamProgress[] = [];
+    const response = await client.chatStream('m', 'hi', undefined, 0, p => progress.push(p));
+
+    expect(response.content).toBe('Streaming tokenization');
+    expect(response.completionTokens).toBeUndefined();
+    // ~5 characters per token: "Streaming" is 2, "tokenization" 3
+    expect(progress.map(p => p.tokens)).toEqual([2, 5, 5]);
+  });
+});
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandPolicy } from '../src/components/CommandPolicy.js';
+import { ExecutionLogger } from '../src/components/ExecutionLogger.js';
+import { PatchApplier } from '../src/components/PatchApplier.js';
+import { WorkspaceTools } from '../src/components/WorkspaceTools.js';
+
+let root: string;
+let logger: ExecutionLogger;
+let applier: PatchApplier;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'patch-applier-test-'));
+  await fs.writeFile(path.join(root, 'a.ts'), 'one\ntwo\nthree\nfour\nfive\n');
+  await fs.writeFile(path.join(root, 'old.ts'), 'gone\n');
+  logger = new ExecutionLogger('INFO');
+  applier = new PatchApplier(new WorkspaceTools(root, new CommandPolicy({}, 30000, logger)));
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+const read = (file: string) => fs.readFile(path.join(root, file), 'utf-8');
+
+describe('PatchApplier.extractDiff / parse', () => {
+  test('takes fenced diff blocks, or a bare diff', () => {
+    expect(applier.extractDiff('Fix:\n```diff\n--- a/x\n+++ b/x\n```\ndone')).toBe('--- a/x\n+++ b/x\n');
+    expect(applier.extractDiff('Fix:\ndiff --git a/x b/x\n--- a/x')).toBe('diff --git a/x b/x\n--- a/x');
+    expect(applier.extractDiff('no diff here')).toBeNull();
+  });
+
+  test('parses paths, added and deleted files and git renames', () => {
+    const patches = applier.parse([
+      '--- a/src/x.ts\t2024-01-01',
+      '+++ b/src/x.ts',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+      '--- /dev/null',
+      '+++ b/new.ts',
+      '@@ -0,0 +1 @@',
+      '+new',
+      'diff --git a/old.ts b/renamed.ts',
+      'similarity index 90%',
+      'rename from old.ts',
+      'rename to renamed.ts',
+      '--- a/old.ts',
+      '+++ b/renamed.ts',
+      '@@ -1 +1 @@',
+      '-gone',
+      '+kept',
+    ].join('\n'));
+    expect(patches.map(p => [p.oldPath, p.newPath, p.hunks.length])).toEqual([
+      ['src/x.ts', 'src/x.ts', 1],
+      [null, 'new.ts', 1],
+      ['old.ts', 'renamed.ts', 1],
+    ]);
+  });
+});
+
+describe('PatchApplier.apply', () => {
+  test('applies hunks at an offset and logs the write', async () => {
+    const result = await applier.apply('--- a/a.ts\n+++ b/a.ts\n@@ -4,3 +4,3 @@\n two\n-three\n+THREE\n four\n', 'apply');
+    expect(result).toMatchObject({ written: true, applied: 1, rejected: 0, conflicts: 0 });
+    expect(result.hunks[0].offset).toBe(-2);
+    expect(await read('a.ts')).toBe('one\ntwo\nTHREE\nfour\nfive\n');
+    expect(logger.getLogs().some(log => log.step === 'Sandbox allowed action' && log.details.target === 'a.ts')).toBe(true);
+  });
+
+  test('check mode writes nothing', async () => {
+    const result = await applier.apply('--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-one\n+ONE\n', 'check');
+    expect(result).toMatchObject({ written: false, applied: 1 });
+    expect(await read('a.ts')).toBe('one\ntwo\nthree\nfour\nfive\n');
+  });
+
+  test('a second patch of the same file applies on top of the first', async () => {
+    const diff = [
+      '--- a/a.ts', '+++ b/a.ts', '@@ -1,2 +1,2 @@', '-one', '+ONE', ' two',
+      '--- a/a.ts', '+++ b/a.ts', '@@ -4,2 +4,2 @@', ' four', '-five', '+FIVE',
+    ].join('\n');
+    const result = await applier.apply(diff, 'apply');
+    expect(result).toMatchObject({ written: true, applied: 2 });
+    expect(await read('a.ts')).toBe('ONE\ntwo\nthree\nfour\nFIVE\n');
+  });
+
+  test('adds and deletes files through the sandbox log', async () => {
+    const diff = '--- /dev/null\n+++ b/src/new.ts\n@@ -0,0 +1 @@\n+created\n--- a/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-gone\n';
+    const result = await applier.apply(diff, 'apply');
+    expect(result).toMatchObject({ written: true, applied: 2 });
+    expect(await read('src/new.ts')).toBe('created\n');
+    await expect(read('old.ts')).rejects.toThrow();
+    expect(logger.getLogs().filter(log => log.step === 'Sandbox allowed action').map(log => log.details.action))
+      .toEqual(['write_file', 'delete_file']);
+  });
+
+  test('rejects renames and writes nothing', async () => {
+    const diff = 'diff --git a/old.ts b/renamed.ts\nsimilarity index 100%\nrename from old.ts\nrename to renamed.ts\n' +
+      '--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-one\n+ONE\n';
+    const result = await applier.apply(diff, 'apply');
+    expect(result.written).toBe(false);
+    expect(result.hunks.find(h => h.file === 'renamed.ts')).toMatchObject({ status: 'rejected' });
+    expect(result.hunks.find(h => h.file === 'renamed.ts')!.reason).toContain('renaming old.ts is not supported');
+    expect(await read('a.ts')).toBe('one\ntwo\nthree\nfour\nfive\n');
+  });
+
+  test('reports conflicts and missing context', async () => {
+    const applied = await applier.apply('--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-ONE\n+one\n', 'apply');
+    expect(applied.hunks[0]).toMatchObject({ status: 'conflict', reason: 'changes already present' });
+
+    const missing = await applier.apply('--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-zero\n+0\n', 'apply');
+    expect(missing).toMatchObject({ written: false, rejected: 1 });
+
+    const outside = await applier.apply('--- a/../x.ts\n+++ b/../x.ts\n@@ -1 +1 @@\n-a\n+b\n', 'apply');
+    expect(outside.hunks[0].reason).toContain('outside the workspace');
+  });
+
+  test('restores the files already written when a write fails', async () => {
+    const tools = new WorkspaceTools(root, new CommandPolicy({}, 30000, logger));
+    const execute = tools.execute.bind(tools);
+    tools.execute = async (action, args) => {
+      if (args.path === 'z.ts') throw new Error('disk full');
+      return execute(action, args);
+    };
+    const diff = [
+      '--- a/a.ts', '+++ b/a.ts', '@@ -1 +1 @@', '-one', '+ONE',
+      '--- a/old.ts', '+++ /dev/null', '@@ -1 +0,0 @@', '-gone',
+      '--- /dev/null', '+++ b/z.ts', '@@ -0,0 +1 @@', '+new',
+    ].join('\n');
+
+    const result = await new PatchApplier(tools).apply(diff, 'apply');
+    expect(result).toMatchObject({ written: false, applied: 3 });
+    expect(result.error).toBe('Writing the patch failed, the files already written were restored: disk full');
+    expect(await read('a.ts')).toBe('one\ntwo\nthree\nfour\nfive\n');
+    expect(await read('old.ts')).toBe('gone\n');
+    await expect(read('z.ts')).rejects.toThrow();
+  });
+});
+
+describe('PatchApplier files outside the context', () => {
+  const diff = '--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-one\n+ONE\n';
+
+  test.each([
+    ['FILE: a.ts (lines 1-5 of 5)\none', []],
+    ['FILE: src/data.ts (lines 1-5 of 5)\nimport "./a.ts";', ['a.ts']],
+    ['// file: ./a.ts\none', []],
+    ['diff --git a/data.ts b/data.ts\n--- a/data.ts\n+++ b/data.ts', ['a.ts']],
+    ['a.ts defines the numbers', []],
+    ['see data.ts and src/a.ts', ['a.ts']],
+  ])('context %j leaves %j outside', async (context, outside) => {
+    const result = await applier.apply(diff, 'check', context);
+    expect(result.filesOutsideContext).toEqual(outside);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_RETRY_POLICIES, RetryPolicy } from '../src/components/RetryPolicy.js';
+import {
+  AuthenticationError,
+  InvalidRequestError,
+  ModelNotFoundError,
+  ModelRequestError,
+  RateLimitError,
+  TimeoutError,
+  TransientError,
+} from '../src/types/index.js';
+
+describe('RetryPolicy.httpError / classify', () => {
+  const cases: [number, string, new (...args: any[]) => Error][] = [
+    [302, 'unknown', ModelRequestError],
+    [400, 'invalid_request', InvalidRequestError],
+    [401, 'auth', AuthenticationError],
+    [403, 'auth', AuthenticationError],
+    [404, 'model_not_found', ModelNotFoundError],
+    [413, 'invalid_request', InvalidRequestError],
+    [429, 'rate_limit', RateLimitError],
+    [500, 'transient', TransientError],
+    [501, 'unknown', ModelRequestError],
+    [502, 'transient', TransientError],
+    [503, 'transient', TransientError],
+    [504, 'transient', TransientError],
+    [505, 'unknown', ModelRequestError],
+    [529, 'transient', TransientError],
+  ];
+
+  test.each(cases)('status %d is %s', (status, errorClass, type) => {
+    const error = RetryPolicy.httpError(status, `Ollama API error: ${status} X`);
+    expect(error).toBeInstanceOf(type);
+    expect(RetryPolicy.classify(error)).toMatchObject({ errorClass, status });
+  });
+
+  test.each(cases)('untyped message with status %d is %s', (status, errorClass) => {
+    expect(RetryPolicy.classify(new Error(`Ollama API error: ${status} X`))).toEqual({ errorClass, status });
+  });
+
+  test('400 naming a missing model is model_not_found', () => {
+    const error = RetryPolicy.httpError(400, 'model "llama9" not found, try pulling it first');
+    expect(error).toBeInstanceOf(ModelNotFoundError);
+  });
+
+  test('Retry-After in seconds and as an HTTP date', () => {
+    expect(RetryPolicy.classify(RetryPolicy.httpError(429, 'slow down', '3')).retryAfterMs).toBe(3000);
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    const retryAfterMs = RetryPolicy.classify(RetryPolicy.httpError(503, 'busy', date)).retryAfterMs!;
+    expect(retryAfterMs).toBeGreaterThan(55_000);
+    expect(retryAfterMs).toBeLessThanOrEqual(60_000);
+  });
+
+  test('withContext keeps typed errors and turns network failures into transient errors', () => {
+    const typed = RetryPolicy.withContext(RetryPolicy.httpError(429, 'slow down'), 'Failed to chat');
+    expect(typed).toBeInstanceOf(RateLimitError);
+    expect(typed.message).toBe('Failed to chat: slow down');
+
+    const reset = Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } });
+    const wrapped = RetryPolicy.withContext(reset, 'Failed to chat');
+    expect(wrapped).toBeInstanceOf(TransientError);
+    expect(wrapped.message).toBe('Failed to chat: fetch failed (ECONNRESET)');
+
+    expect(RetryPolicy.withContext(new Error('boom'), 'Failed')).not.toBeInstanceOf(ModelRequestError);
+  });
+
+  test('untyped errors fall back to the message', () => {
+    expect(RetryPolicy.classify(new TimeoutError('Execution timeout after 10ms')).errorClass).toBe('timeout');
+    expect(RetryPolicy.classify(new Error('socket hang up')).errorClass).toBe('transient');
+    expect(RetryPolicy.classify(new Error('model "x" not found')).errorClass).toBe('model_not_found');
+    expect(RetryPolicy.classify(new Error('request timed out')).errorClass).toBe('timeout');
+    expect(RetryPolicy.classify(new Error('boom')).errorClass).toBe('unknown');
+    expect(RetryPolicy.classify('boom').errorClass).toBe('unknown');
+  });
+});
+
+describe('RetryPolicy.delay', () => {
+  test('equal jitter over exponential backoff, capped at maxDelay', () => {
+    const low = new RetryPolicy({}, () => 0);
+    const high = new RetryPolicy({}, () => 1);
+    expect([0, 1, 2].map(retry => low.delay('rate_limit', retry))).toEqual([1000, 2000, 4000]);
+    expect([0, 1, 2].map(retry => high.delay('rate_limit', retry))).toEqual([2000, 4000, 8000]);
+    expect(high.delay('rate_limit', 3)).toBeUndefined();
+  });
+
+  test('Retry-After sets the minimum and skips retries beyond maxDelay', () => {
+    const policy = new RetryPolicy({}, () => 0);
+    expect(policy.delay('rate_limit', 0, 5000)).toBe(5000);
+    expect(policy.delay('transient', 0, 60_000)).toBeUndefined();
+  });
+
+  test('classes without retries and configured overrides', () => {
+    const policy = new RetryPolicy({ auth: { retries: 1 }, rate_limit: { fallback: false } }, () => 0);
+    expect(policy.delay('invalid_request', 0)).toBeUndefined();
+    expect(policy.delay('auth', 0)).toBe(0);
+    expect(policy.policyFor('rate_limit')).toEqual({ ...DEFAULT_RETRY_POLICIES.rate_limit, fallback: false });
+    expect(policy.policyFor()).toEqual(DEFAULT_RETRY_POLICIES.unknown);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { SessionManager } from '../src/components/SessionManager.js';
+import { ValidationError } from '../src/types/index.js';
+
+describe('SessionManager', () => {
+  test('creates sessions on first use and lists the most recent first', async () => {
+    const manager = new SessionManager();
+    manager.getOrCreate('first');
+    await new Promise(resolve => setTimeout(resolve, 2));
+    manager.appendExchange('second', 'hi', 'hello');
+
+    expect(manager.listSessions().map(session => session.id)).toEqual(['second', 'first']);
+    expect(manager.getSession('second')!.messages).toEqual([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello' },
+    ]);
+    expect(manager.clearSession('first')).toBe(true);
+    expect(manager.getSession('first')).toBeNull();
+  });
+
+  test.each(['', 'has space', 'a/b', 'x'.repeat(129)])('rejects the session id %j', (id) => {
+    expect(() => new SessionManager().getOrCreate(id)).toThrow(ValidationError);
+  });
+
+  test('sends the whole history when it fits', () => {
+    const manager = new SessionManager();
+    manager.appendExchange('s', 'first question', 'first answer');
+    const { history, droppedMessages } = manager.buildHistory(manager.getSession('s')!, 'next', 8192);
+
+    expect(droppedMessages).toBe(0);
+    expect(history.map(message => message.content)).toEqual(['first question', 'first answer']);
+  });
+
+  test('drops the oldest whole turns and summarizes their requests', () => {
+    const manager = new SessionManager();
+    const answer = 'word '.repeat(100);
+    for (let turn = 1; turn <= 5; turn++) {
+      manager.appendExchange('s', `question ${turn}\nmore detail`, answer);
+    }
+    // 75% of 400 tokens leaves room for two turns of ~115 tokens and the summary
+    const { history, droppedMessages } = manager.buildHistory(manager.getSession('s')!, 'next', 400);
+
+    expect(droppedMessages).toBe(6);
+    expect(history[0].role).toBe('system');
+    expect(history[0].content).toContain('6 messages omitted');
+    expect(history[0].content).toContain('- question 1\n- question 2\n- question 3');
+    expect(history.slice(1).filter(message => message.role === 'user').map(message => message.content))
+      .toEqual(['question 4\nmore detail', 'question 5\nmore detail']);
+  });
+
+  test('counts the system prompt against the budget', () => {
+    const manager = new SessionManager();
+    manager.appendExchange('s', 'question', 'answer');
+    const session = manager.getSession('s')!;
+    session.systemPrompt = 'rule '.repeat(300);
+
+    expect(manager.buildHistory(session, 'next', 400).droppedMessages).toBe(2);
+  });
+});
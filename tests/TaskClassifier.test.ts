@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import { TaskClassifier } from '../src/components/TaskClassifier.js';
+import { OllamaClient } from '../src/components/TaskExecutor.js';
+import { ValidationError } from '../src/types/index.js';
+import { fakeClient } from './fakes.js';
+
+const classification = {
+  taskType: 'test_writing',
+  domain: 'code',
+  complexity: 'moderate',
+  capabilities: ['code_generation', 'code_generation', 'debugging'],
+  confidence: 0.9,
+};
+
+describe('TaskClassifier', () => {
+  test('classifies with the model and caches by normalized description', async () => {
+    const client = fakeClient(() => JSON.stringify(classification));
+    const classifier = new TaskClassifier(client);
+
+    const result = await classifier.classify('  create a test\nfor the fix ', 'tiny', { timeout: 1000 });
+    expect(result).toEqual({ ...classification, capabilities: ['code_generation', 'debugging'], model: 'tiny' });
+    expect(client.calls[0]).toMatchObject({ model: 'tiny', message: 'create a test\nfor the fix' });
+    expect(client.calls[0].options!.format).toBeDefined();
+
+    expect(classifier.getCached('create a test for   the fix')).toEqual(result);
+    expect(classifier.getCached('create a test')).toBeUndefined();
+  });
+
+  test('rejects classifications outside the schema', async () => {
+    const classifier = new TaskClassifier(fakeClient(() => JSON.stringify({ ...classification, taskType: 'poetry' })));
+
+    await expect(classifier.classify('write a poem', 'tiny', { timeout: 1000 })).rejects.toThrow(ValidationError);
+    expect(classifier.getCached('write a poem')).toBeUndefined();
+  });
+
+  test('aborts the request when it times out', async () => {
+    let signal: AbortSignal | undefined;
+    const client: OllamaClient = {
+      chat: (_model, _message, _systemPrompt, _temperature, options) => {
+        signal = options?.signal;
+        return new Promise(() => {});
+      },
+    };
+
+    await expect(new TaskClassifier(client).classify('fix it', 'tiny', { timeout: 20 }))
+      .rejects.toThrow('Classification timed out after 20ms');
+    expect(signal!.aborted).toBe(true);
+  });
+
+  test('evicts the least recently used classification when the cache is full', async () => {
+    const classifier = new TaskClassifier(fakeClient(() => JSON.stringify(classification)), 2);
+    await classifier.classify('one', 'tiny', { timeout: 1000 });
+    await classifier.classify('two', 'tiny', { timeout: 1000 });
+    classifier.getCached('one');
+    await classifier.classify('three', 'tiny', { timeout: 1000 });
+
+    expect(classifier.getCached('one')).toBeDefined();
+    expect(classifier.getCached('two')).toBeUndefined();
+    expect(classifier.getCached('three')).toBeDefined();
+  });
+});
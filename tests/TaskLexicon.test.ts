@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+import { TaskLexicon } from '../src/components/TaskLexicon.js';
+import { TaskParser } from '../src/components/TaskParser.js';
+
+describe('TaskLexicon', () => {
+  const lexicon = new TaskLexicon();
+
+  test.each([
+    ['Implement a function to parse CSV files', 'en'],
+    ['实现一个解析 CSV 文件的函数', 'zh'],
+    ['CSVファイルを解析する関数を書いてください', 'ja'],
+    ['CSV 파일을 파싱하는 함수를 작성하세요', 'ko'],
+    ['Напишите функцию для разбора CSV', 'ru'],
+    ['12345', 'en'],
+  ])('detects the language of %s', (text, language) => {
+    expect(lexicon.detectLanguage(text)).toBe(language);
+  });
+
+  test('detects Latin-script languages by configured markers', () => {
+    const withGerman = new TaskLexicon({ de: { name: 'German', markers: ['die', 'und', 'eine'] } });
+    expect(withGerman.detectLanguage('Schreibe eine Funktion und die Tests')).toBe('de');
+    expect(withGerman.detectLanguage('Write a function and the tests')).toBe('en');
+    expect(withGerman.getLanguageName('de')).toBe('German');
+  });
+
+  test('patterns of other languages include the English ones; extensions are added', () => {
+    const extended = new TaskLexicon({ zh: { taskTypes: { bug_fixing: ['Bug单'] } } });
+    const patterns = extended.getPatterns('zh', 'taskTypes', 'bug_fixing');
+    expect(patterns).toContain('fix');
+    expect(patterns).toContain('修复');
+    expect(patterns).toContain('bug单');
+    expect(extended.getPatterns('en', 'taskTypes', 'bug_fixing')).not.toContain('修复');
+  });
+
+  test('weighted length counts CJK characters three times', () => {
+    expect(lexicon.weightedLength('abc')).toBe(3);
+    expect(lexicon.weightedLength('实现 CSV')).toBe(10);
+  });
+});
+
+describe('TaskParser with the Chinese lexicon', () => {
+  const parser = new TaskParser();
+
+  test.each([
+    ['这个接口有什么问题需要注意吗？请说明一下', 'general'],
+    ['修复登录接口在并发时报错的缺陷', 'bug_fixing'],
+    ['编写代码实现用户注册接口', 'code_generation'],
+    ['为订单模块编写单元测试', 'test_writing'],
+  ])('%s is %s', (description, taskType) => {
+    expect(parser.parseTask({ description }).taskType).toBe(taskType);
+  });
+
+  test('long Chinese descriptions are rated by their weighted length', () => {
+    const description = '请阅读下面的需求并给出回答：' + '订单在支付完成后需要同步到仓库并通知用户，'.repeat(4);
+    expect(description.length).toBeLessThan(200);
+    expect(parser.parseTask({ description }).complexity).toBe('moderate');
+  });
+});
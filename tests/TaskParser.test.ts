@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test';
+import { TaskParser } from '../src/components/TaskParser.js';
+
+describe('TaskParser task types', () => {
+  const parser = new TaskParser();
+
+  test.each([
+    ['create a test for the bug fix', 'test_writing'],
+    ['write unit tests for the parser', 'test_writing'],
+    ['implement docs for the public API', 'documentation'],
+    ['review the error handling in the client', 'code_review'],
+    ['fix the error thrown by the dockerfile build', 'bug_fixing'],
+    ['create a REST endpoint for orders', 'code_generation'],
+    ['design the architecture of the billing service', 'architecture_analysis'],
+    ['how many days are in a leap year?', 'general'],
+  ])('%s is %s', (description, taskType) => {
+    expect(parser.parseTask({ description }).taskType).toBe(taskType);
+  });
+
+  test('an explicit task type wins over the keywords', () => {
+    expect(parser.parseTask({ description: 'create a test for the bug fix', taskType: 'bugfix' }).taskType).toBe('bug_fixing');
+  });
+
+  test('a classification replaces the keyword rules', () => {
+    const task = parser.parseTask({ description: 'create a test for the bug fix' }, {
+      taskType: 'bug_fixing',
+      domain: 'code',
+      complexity: 'simple',
+      capabilities: ['debugging'],
+      confidence: 0.9,
+    });
+
+    expect(task).toMatchObject({ taskType: 'bug_fixing', domain: 'code', complexity: 'simple' });
+    expect(task.requiredCapabilities).toEqual(['debugging', 'reasoning']);
+  });
+});
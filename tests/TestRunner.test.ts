@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandPolicy } from '../src/components/CommandPolicy.js';
+import { ExecutionLogger } from '../src/components/ExecutionLogger.js';
+import { TestRunner } from '../src/components/TestRunner.js';
+import { WorkspaceTools } from '../src/components/WorkspaceTools.js';
+
+let root: string;
+const scratches: string[] = [];
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'test-runner-test-'));
+  await fs.mkdir(path.join(root, '.git'));
+  await fs.mkdir(path.join(root, 'node_modules', 'dep'), { recursive: true });
+  await fs.writeFile(path.join(root, 'sum.js'), 'module.exports = (a, b) => a + b;\n');
+  await fs.writeFile(path.join(root, 'node_modules', 'dep', 'index.js'), 'module.exports = 1;\n');
+});
+
+afterEach(async () => {
+  await Promise.all(scratches.splice(0).map(scratch => fs.rm(scratch, { recursive: true, force: true })));
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+/**
+ * A runner with a scratch copy of the workspace and tools rooted in it
+ */
+async function createRunner(linkDependencies = false) {
+  const runner = new TestRunner(root, linkDependencies);
+  const scratch = await runner.createScratch();
+  scratches.push(scratch);
+  const tools = new WorkspaceTools(scratch, new CommandPolicy({}, 30000, new ExecutionLogger('ERROR')));
+  return { runner, scratch, tools };
+}
+
+const testFile = (name: string, expected: number) => [
+  `\`\`\`js ${name}`,
+  "const test = require('node:test');",
+  "const assert = require('node:assert');",
+  "const sum = require('./sum.js');",
+  `test('adds', () => assert.equal(sum(1, 1), ${expected}));`,
+  '```',
+].join('\n');
+
+describe('TestRunner scratch copy', () => {
+  test('copies the workspace without .git', async () => {
+    const { scratch } = await createRunner();
+
+    expect(await fs.readFile(path.join(scratch, 'sum.js'), 'utf-8')).toContain('a + b');
+    expect((await fs.readdir(scratch)).sort()).toEqual(['node_modules', 'sum.js']);
+    expect((await fs.lstat(path.join(scratch, 'node_modules'))).isSymbolicLink()).toBe(false);
+  });
+
+  test('links dependency directories when asked to', async () => {
+    const { scratch } = await createRunner(true);
+
+    expect(await fs.readlink(path.join(scratch, 'node_modules'))).toBe(path.join(root, 'node_modules'));
+  });
+});
+
+describe('TestRunner runs', () => {
+  test('writes the test files to the copy and parses a passing run', async () => {
+    const { runner, scratch, tools } = await createRunner();
+    const iteration = await runner.run(tools, `Tests:\n\n${testFile('sum.test.js', 2)}`, 'node --test', 1);
+
+    expect(iteration).toMatchObject({ iteration: 1, files: ['sum.test.js'], exitCode: 0, success: true, passed: 1, failed: 0 });
+    expect(await fs.readFile(path.join(scratch, 'sum.test.js'), 'utf-8')).toContain('sum(1, 1)');
+    await expect(fs.access(path.join(root, 'sum.test.js'))).rejects.toThrow();
+  });
+
+  test('reports failing tests and builds the fix prompt', async () => {
+    const { runner, tools } = await createRunner();
+    const iteration = await runner.run(tools, testFile('sum.test.js', 3), 'node --test', 1);
+
+    expect(iteration).toMatchObject({ exitCode: 1, success: false, passed: 0, failed: 1, failures: ['not ok 1 - adds'] });
+
+    const prompt = runner.buildFixPrompt('node --test', iteration);
+    expect(prompt).toStartWith('Running `node --test` on your tests exited with code 1 (1 failed, 0 passed).\n\nFailing tests:\n- not ok 1 - adds\n');
+    expect(prompt).toContain('# fail 1');
+  });
+
+  test('removes the test files of an earlier iteration that a fix left out', async () => {
+    const { runner, scratch, tools } = await createRunner();
+    await runner.run(tools, testFile('old.test.js', 3), 'node --test', 1);
+    const iteration = await runner.run(tools, testFile('new.test.js', 2), 'node --test', 2);
+
+    expect(iteration).toMatchObject({ files: ['new.test.js'], success: true, passed: 1 });
+    expect((await fs.readdir(scratch)).filter(name => name.endsWith('.test.js'))).toEqual(['new.test.js']);
+  });
+
+  test('names untitled test blocks by language', async () => {
+    const { runner, tools } = await createRunner();
+    const response = '```ts\nexpect(1).toBe(1);\n```\n\n```python\nassert True\n```\n\n```bash\nnpm test\n```';
+    const iteration = await runner.run(tools, response, 'true', 1);
+
+    expect(iteration.files).toEqual(['generated-1.test.ts', 'test_generated_2.py']);
+  });
+
+  test('returns an error without test code blocks', async () => {
+    const { runner, tools } = await createRunner();
+
+    expect(await runner.run(tools, 'The tests look fine.', 'node --test', 1)).toMatchObject({
+      files: [],
+      success: false,
+      error: 'No test code blocks found in the response',
+    });
+  });
+
+  test('returns an error when the sandbox refuses the command', async () => {
+    const { runner, tools } = await createRunner();
+    const iteration = await runner.run(tools, testFile('sum.test.js', 2), 'curl http://example.com', 1);
+
+    expect(iteration.success).toBe(false);
+    expect(iteration.error).toContain('curl');
+  });
+});
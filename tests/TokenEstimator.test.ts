@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+import { TokenEstimator } from '../src/components/TokenEstimator.js';
+
+describe('TokenEstimator', () => {
+  const estimator = new TokenEstimator();
+
+  test('empty text has no tokens', () => {
+    expect(estimator.estimate('')).toBe(0);
+  });
+
+  test('counts every CJK character as one token', () => {
+    expect(estimator.estimate('修复登录问题')).toBe(6);
+    expect(estimator.estimate('テスト')).toBe(3);
+    expect(estimator.estimate('，。')).toBe(2);
+  });
+
+  test.each([
+    ['fix', 1],
+    ['hello world', 2],
+    ['internationalization', 4],
+    ['12345', 2],
+    ['a + b', 3],
+  ])('estimates %s as %d tokens', (text, tokens) => {
+    expect(estimator.estimate(text)).toBe(tokens);
+  });
+
+  test('counts mixed Chinese and Latin text by script', () => {
+    // 4 CJK characters, "bug" and "API"
+    expect(estimator.estimate('修复 bug 调用 API')).toBe(6);
+  });
+
+  test('adds a token for every two newlines', () => {
+    expect(estimator.estimate('a\nb\nc')).toBe(4);
+  });
+
+  test('Chinese text is not undercounted like length / 4', () => {
+    const text = '实现一个解析配置文件的函数并编写单元测试';
+    expect(estimator.estimate(text)).toBe(text.length);
+    expect(estimator.estimate(text)).toBeGreaterThan(Math.ceil(text.length / 4));
+  });
+});
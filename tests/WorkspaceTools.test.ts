@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandPolicy } from '../src/components/CommandPolicy.js';
+import { ExecutionLogger } from '../src/components/ExecutionLogger.js';
+import { WorkspaceTools } from '../src/components/WorkspaceTools.js';
+import { PolicyViolationError, SandboxConfig, ValidationError } from '../src/types/index.js';
+
+let root: string;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-tools-test-'));
+  await fs.mkdir(path.join(root, 'src'));
+  await fs.mkdir(path.join(root, 'node_modules', 'dep'), { recursive: true });
+  await fs.writeFile(path.join(root, 'src', 'a.ts'), 'const one = 1;\nconst two = 2;\nconst three = 3;\n');
+  await fs.writeFile(path.join(root, 'node_modules', 'dep', 'index.js'), 'const two = 2;\n');
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+const createTools = (config: SandboxConfig = {}, timeout = 30000) =>
+  new WorkspaceTools(root, new CommandPolicy(config, timeout, new ExecutionLogger('ERROR')));
+
+describe('WorkspaceTools files', () => {
+  test('reads a line range with line numbers', async () => {
+    const output = await createTools().execute('read_file', { path: 'src/a.ts', start_line: 2, end_line: 3 });
+    expect(output).toBe('    2  const two = 2;\n    3  const three = 3;');
+  });
+
+  test('lists directories with a trailing slash', async () => {
+    expect(await createTools().execute('list_dir', {})).toBe('node_modules/\nsrc/');
+  });
+
+  test('greps files, skipping dependency directories', async () => {
+    expect(await createTools().execute('grep', { pattern: 'two' })).toBe('src/a.ts:2: const two = 2;');
+    expect(await createTools().execute('grep', { pattern: 'four' })).toBe('No matches found');
+    await expect(createTools().execute('grep', { pattern: '(' })).rejects.toThrow(ValidationError);
+  });
+
+  test('writes files, creating parent directories', async () => {
+    expect(await createTools().execute('write_file', { path: 'lib/b.ts', content: 'x' })).toBe('Wrote 1 bytes to lib/b.ts');
+    expect(await fs.readFile(path.join(root, 'lib', 'b.ts'), 'utf-8')).toBe('x');
+  });
+
+  test('dry-run writes nothing', async () => {
+    const output = await createTools({ dryRun: true }).execute('write_file', { path: 'b.ts', content: 'x' });
+    expect(output).toContain('[dry-run] Would write 1 bytes to b.ts');
+    await expect(fs.access(path.join(root, 'b.ts'))).rejects.toThrow();
+  });
+
+  test.each(['../outside.txt', '/etc/passwd', 'src/../../outside.txt'])('rejects the path %s', async (target) => {
+    await expect(createTools().execute('read_file', { path: target })).rejects.toThrow('outside the workspace');
+  });
+
+  test('rejects symlinks that resolve outside the workspace', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-tools-outside-'));
+    try {
+      await fs.symlink(outside, path.join(root, 'link'));
+      await expect(createTools().execute('write_file', { path: 'link/x.txt', content: 'x' }))
+        .rejects.toThrow('resolves outside the workspace');
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  test('requires string arguments', async () => {
+    await expect(createTools().execute('read_file', {})).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('WorkspaceTools commands', () => {
+  test('runs allowed commands in the workspace root and reports the exit code', async () => {
+    expect(await createTools().execute('run_command', { command: 'ls src' })).toBe('exit code: 0\na.ts');
+    expect(await createTools().execute('run_command', { command: 'ls missing' })).toMatch(/^exit code: [12]\n/);
+  });
+
+  test('refuses denied commands with a policy violation', async () => {
+    await expect(createTools().execute('run_command', { command: 'rm -rf src' })).rejects.toThrow(PolicyViolationError);
+    expect(await fs.readFile(path.join(root, 'src', 'a.ts'), 'utf-8')).toContain('one');
+  });
+
+  test('does not pass unlisted environment variables', async () => {
+    process.env.WORKSPACE_TOOLS_SECRET = 'secret';
+    try {
+      const output = await createTools().execute('run_command', { command: 'env' });
+      expect(output).not.toContain('WORKSPACE_TOOLS_SECRET');
+    } finally {
+      delete process.env.WORKSPACE_TOOLS_SECRET;
+    }
+  });
+
+  test('kills commands that exceed their timeout', async () => {
+    const output = await createTools({ allow: ['sleep'] }, 200).execute('run_command', { command: 'sleep 5' });
+    expect(output).toBe('timed out after 200ms');
+  });
+
+  test('truncates long output', async () => {
+    await fs.writeFile(path.join(root, 'big.txt'), 'x'.repeat(500));
+    const output = await createTools({ maxOutputChars: 100 }).execute('run_command', { command: 'cat big.txt' });
+    expect(output).toBe(`exit code: 0\n${'x'.repeat(100)}\n... [output truncated]`);
+  });
+
+  test('dry-run checks commands without running them', async () => {
+    expect(await createTools({ dryRun: true }).execute('run_command', { command: 'touch made.txt' }))
+      .toBe('[dry-run] Command allowed but not executed: touch made.txt');
+    await expect(fs.access(path.join(root, 'made.txt'))).rejects.toThrow();
+  });
+});
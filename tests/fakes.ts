@@ -0,0 +1,44 @@
+import { OllamaClient } from '../src/components/TaskExecutor.js';
+import { ChatRequestOptions, ParsedTask } from '../src/types/index.js';
+
+export interface ChatCall {
+  model: string;
+  message: string;
+  systemPrompt?: string;
+  options?: ChatRequestOptions;
+}
+
+/**
+ * Ollama client whose replies come from a handler (throw to fail a request); every call is recorded
+ */
+export function fakeClient(
+  handler: (call: ChatCall) => string | Promise<string>
+): OllamaClient & { calls: ChatCall[] } {
+  const calls: ChatCall[] = [];
+  return {
+    calls,
+    async chat(model, message, systemPrompt, _temperature, options) {
+      const call = { model, message, systemPrompt, options };
+      calls.push(call);
+      const content = await handler(call);
+      return { content, promptTokens: 10, completionTokens: 5, tokensUsed: 15 };
+    },
+  };
+}
+
+/**
+ * A parsed code generation task
+ */
+export function createTask(overrides: Partial<ParsedTask> = {}): ParsedTask {
+  return {
+    description: 'Implement the feature',
+    domain: 'code',
+    complexity: 'moderate',
+    requiredCapabilities: ['code_generation'],
+    contextSize: 0,
+    estimatedTokens: 100,
+    taskType: 'code_generation',
+    language: 'en',
+    ...overrides,
+  };
+}